@@ -0,0 +1,118 @@
+// StoryVoyage service worker. Keeps the app's pages and scripts for offline use and serves
+// books downloaded for offline reading: their illustrations and narration are put in
+// OFFLINE_BOOKS_CACHE by src/lib/offline-books.ts and answered from there first.
+
+const SHELL_CACHE = "storyvoyage-shell-v1";
+const OFFLINE_BOOKS_CACHE = "storyvoyage-offline-books";
+// Pages the app needs offline: the library and the reader
+const SHELL_PAGES = ["/", "/read"];
+
+self.addEventListener("install", event => {
+  self.skipWaiting();
+  // Best effort; the pages are cached again whenever they are visited
+  event.waitUntil(cachePages(SHELL_PAGES).catch(() => {}));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter(name => name.startsWith("storyvoyage-shell-") && name !== SHELL_CACHE)
+        .map(name => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// Sent when a book is downloaded, so the reader opens offline even if it was never visited
+self.addEventListener("message", event => {
+  if (event.data?.type === "cache-pages") {
+    event.waitUntil(cachePages(event.data.urls || SHELL_PAGES).catch(() => {}));
+  }
+});
+
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    event.respondWith(pageFromNetwork(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/_next/static/")) {
+    // Build output has content hashes in its names, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request));
+  } else if (["image", "audio", "video"].includes(request.destination)) {
+    event.respondWith(downloadedOrNetwork(request));
+  }
+});
+
+// Pages are fetched fresh when online; offline the last copy of the page is used,
+// whatever its query string (the reader loads its book from ?id= on the device)
+async function pageFromNetwork(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const key = new URL(request.url).pathname;
+  try {
+    const response = await fetch(request);
+    if (response.ok && SHELL_PAGES.includes(key)) await cache.put(key, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(key)) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function downloadedOrNetwork(request) {
+  const cache = await caches.open(OFFLINE_BOOKS_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+  return request.headers.has("range") ? rangeResponse(request, cached) : cached;
+}
+
+// Audio elements ask for byte ranges, and some browsers only play media answered with 206
+async function rangeResponse(request, cached) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get("range") || "");
+  const body = await cached.blob();
+  if (!match) return cached;
+  const start = match[1] ? Number(match[1]) : Math.max(0, body.size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), body.size - 1) : body.size - 1;
+  if (start >= body.size || start > end) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${body.size}` } });
+  }
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": cached.headers.get("Content-Type") || body.type,
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${body.size}`,
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
+
+// Caches pages and the scripts and styles they load, so they render without a connection
+async function cachePages(urls) {
+  const cache = await caches.open(SHELL_CACHE);
+  for (const url of urls) {
+    const response = await fetch(url, { credentials: "same-origin" });
+    if (!response.ok) continue;
+    await cache.put(url, response.clone());
+    const html = await response.text();
+    const assets = [...html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g)].map(match => match[1]);
+    await Promise.all([...new Set(assets)].map(async asset => {
+      if (await cache.match(asset)) return;
+      const assetResponse = await fetch(asset);
+      if (assetResponse.ok) await cache.put(asset, assetResponse);
+    }));
+  }
+}
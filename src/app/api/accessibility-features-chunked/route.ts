@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider, type AIProvider } from "@/lib/ai";
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -16,8 +16,6 @@ const BodySchema = z.object({
   ])
 });
 
-const MODEL_TEXT = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
-
 function extractJsonFromText(text: string): Record<string, unknown> | null {
   try {
     const patterns = [
@@ -42,10 +40,7 @@ function extractJsonFromText(text: string): Record<string, unknown> | null {
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
-    }
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -54,7 +49,6 @@ export async function POST(req: NextRequest) {
     }
     
     const { bookId: _bookId, pageText, imageUrl, readingLevel, childAge, feature } = parsed.data; // eslint-disable-line @typescript-eslint/no-unused-vars
-    const ai = new GoogleGenAI({ apiKey });
 
     let result: Record<string, unknown> = {};
 
@@ -90,7 +84,7 @@ export async function POST(req: NextRequest) {
   }
 }
 
-async function generateAltText(ai: GoogleGenAI, pageText: string, imageUrl: string | undefined, childAge: number) {
+async function generateAltText(ai: AIProvider, pageText: string, imageUrl: string | undefined, childAge: number) {
   const prompt = `Create alt text for a children's book illustration.
   
   Story text: "${pageText}"
@@ -107,12 +101,7 @@ async function generateAltText(ai: GoogleGenAI, pageText: string, imageUrl: stri
     "keyElements": ["child", "garden", "flowers", "sunshine"]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -123,7 +112,7 @@ async function generateAltText(ai: GoogleGenAI, pageText: string, imageUrl: stri
   };
 }
 
-async function generateSimplifiedText(ai: GoogleGenAI, pageText: string, readingLevel: string, childAge: number) {
+async function generateSimplifiedText(ai: AIProvider, pageText: string, readingLevel: string, childAge: number) {
   const prompt = `Create simplified versions of this text for different reading levels.
   
   Original text: "${pageText}"
@@ -144,12 +133,7 @@ async function generateSimplifiedText(ai: GoogleGenAI, pageText: string, reading
     }
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -165,7 +149,7 @@ async function generateSimplifiedText(ai: GoogleGenAI, pageText: string, reading
   };
 }
 
-async function generateDyslexiaFriendly(ai: GoogleGenAI, pageText: string, childAge: number) {
+async function generateDyslexiaFriendly(ai: AIProvider, pageText: string, childAge: number) {
   const prompt = `Create dyslexia-friendly formatting for this text.
   
   Text: "${pageText}"
@@ -191,12 +175,7 @@ async function generateDyslexiaFriendly(ai: GoogleGenAI, pageText: string, child
     "memoryTechniques": ["Create rhymes", "Use repetition"]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -217,7 +196,7 @@ async function generateDyslexiaFriendly(ai: GoogleGenAI, pageText: string, child
   };
 }
 
-async function generateAudioDescription(ai: GoogleGenAI, pageText: string, childAge: number) {
+async function generateAudioDescription(ai: AIProvider, pageText: string, childAge: number) {
   const prompt = `Create audio description for this children's story.
   
   Text: "${pageText}"
@@ -233,12 +212,7 @@ async function generateAudioDescription(ai: GoogleGenAI, pageText: string, child
     "pacing": "Speak slowly and clearly"
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
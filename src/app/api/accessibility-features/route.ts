@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider } from "@/lib/ai";
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -18,8 +18,6 @@ const BodySchema = z.object({
   ])).default(["alt_text_generation", "simplified_text"])
 });
 
-const MODEL_TEXT = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
-
 function extractJsonFromText(text: string): Record<string, unknown> | null {
   try {
     // Try to find JSON in various formats
@@ -46,10 +44,7 @@ function extractJsonFromText(text: string): Record<string, unknown> | null {
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
-    }
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -58,7 +53,6 @@ export async function POST(req: NextRequest) {
     }
     
     const { bookId, pageText, imageUrl, readingLevel, childAge, features } = parsed.data;
-    const ai = new GoogleGenAI({ apiKey });
 
     const accessibilityContent: Record<string, unknown> = {};
 
@@ -83,12 +77,7 @@ export async function POST(req: NextRequest) {
         "keyElements": ["element1", "element2", "element3"]
       }`;
 
-      const altTextResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: altTextPrompt,
-      });
-
-      const altTextData = altTextResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const altTextData = await ai.generateText({ prompt: altTextPrompt });
       const altTextJson = extractJsonFromText(altTextData);
       
       if (altTextJson) {
@@ -129,12 +118,7 @@ export async function POST(req: NextRequest) {
         }
       }`;
 
-      const simplifiedResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: simplifiedPrompt,
-      });
-
-      const simplifiedData = simplifiedResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const simplifiedData = await ai.generateText({ prompt: simplifiedPrompt });
       const simplifiedJson = extractJsonFromText(simplifiedData);
       
       if (simplifiedJson) {
@@ -180,12 +164,7 @@ export async function POST(req: NextRequest) {
         "soundEffects": ["wind blowing", "footsteps", "laughter"]
       }`;
 
-      const audioResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: audioPrompt,
-      });
-
-      const audioData = audioResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const audioData = await ai.generateText({ prompt: audioPrompt });
       const audioJson = extractJsonFromText(audioData);
       
       if (audioJson) {
@@ -236,12 +215,7 @@ export async function POST(req: NextRequest) {
         "memoryTechniques": ["Create a story", "Use rhymes", "Make associations"]
       }`;
 
-      const dyslexiaResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: dyslexiaPrompt,
-      });
-
-      const dyslexiaData = dyslexiaResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const dyslexiaData = await ai.generateText({ prompt: dyslexiaPrompt });
       const dyslexiaJson = extractJsonFromText(dyslexiaData);
       
       if (dyslexiaJson) {
@@ -294,12 +268,7 @@ export async function POST(req: NextRequest) {
         "resources": ["ASL dictionary", "Sign language videos", "Deaf community centers"]
       }`;
 
-      const signLanguageResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: signLanguagePrompt,
-      });
-
-      const signLanguageData = signLanguageResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const signLanguageData = await ai.generateText({ prompt: signLanguagePrompt });
       const signLanguageJson = extractJsonFromText(signLanguageData);
       
       if (signLanguageJson) {
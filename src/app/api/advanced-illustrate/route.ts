@@ -1,28 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider, type GeneratedImage } from "@/lib/ai";
+import { characterImages, characterPromptText, loadCharacterContextById } from "@/lib/characters";
+import { SourceImageUrlSchema } from "@/lib/image-urls";
+import { editPromptText, loadSourceImage, newImageSeed, recordIllustrationVersion } from "@/lib/illustrations";
 import { uploadImageToStorage } from "@/lib/supabase";
+import { getCurrentUser } from "@/lib/supabase-server";
 
 const BodySchema = z.object({
   prompt: z.string().min(5),
   characterDescription: z.string().optional(),
-  previousImageUrl: z.string().optional(),
+  characterId: z.string().uuid().optional(),
+  previousImageUrl: SourceImageUrlSchema.optional(),
   style: z.enum(["realistic", "cartoon", "watercolor", "sketch"]).default("realistic"),
   consistencyMode: z.boolean().default(true), // Always enable character consistency by default
   editMode: z.boolean().default(false),
+  // With editMode, previousImageUrl is edited as instructed instead of continued from
+  editInstruction: z.string().min(3).optional(),
+  // Identify the page so the result is kept as a new illustration version
+  bookId: z.string().uuid().optional(),
+  pageIndex: z.number().int().min(0).optional(),
+  // Reuse a recorded seed to reproduce an illustration; random when omitted
+  seed: z.number().int().min(0).optional(),
   fusionMode: z.boolean().default(false),
   batchGenerate: z.boolean().default(false),
   pageCount: z.number().min(1).max(5).default(1),
 });
 
-const MODEL_IMAGE = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image-preview";
-
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
     }
+
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -33,16 +44,23 @@ export async function POST(req: NextRequest) {
     const { 
       prompt, 
       characterDescription, 
+      characterId,
       previousImageUrl, 
       style, 
       consistencyMode, 
       editMode, 
+      editInstruction,
+      bookId,
+      pageIndex,
+      seed,
       fusionMode, 
       batchGenerate, 
       pageCount 
     } = parsed.data;
-
-    const ai = new GoogleGenAI({ apiKey });
+    const character = characterId ? await loadCharacterContextById(characterId) : null;
+    if (editInstruction && !(editMode && previousImageUrl)) {
+      return NextResponse.json({ error: "editInstruction requires editMode and previousImageUrl" }, { status: 400 });
+    }
 
     // Enhanced prompt for advanced features
     let enhancedPrompt = `Create a high-quality children's book illustration with advanced features. `;
@@ -63,16 +81,19 @@ export async function POST(req: NextRequest) {
         break;
     }
     
-    // Character consistency - always enforce when character description is available
-    if (characterDescription) {
+    // Character consistency - prefer the character bible, then a free-text description
+    if (character) {
+      enhancedPrompt += characterPromptText(character);
+    } else if (characterDescription) {
       enhancedPrompt += `Character consistency: Maintain the same character appearance as described: ${characterDescription}. `;
     } else if (consistencyMode) {
       enhancedPrompt += `Character consistency: Maintain consistent character appearance throughout the story. `;
     }
     
     // Image editing and fusion capabilities
-    if (editMode && previousImageUrl) {
-      enhancedPrompt += `This is an edit/continuation of a previous scene. Maintain visual continuity and character consistency. `;
+    const source = editMode && previousImageUrl ? await loadSourceImage(previousImageUrl) : null;
+    if (source) {
+      enhancedPrompt += editPromptText(editInstruction);
     }
     
     if (fusionMode) {
@@ -80,6 +101,8 @@ export async function POST(req: NextRequest) {
     }
     
     enhancedPrompt += `Lighting: soft, natural lighting. Colors: vibrant but not overwhelming. Composition: clean, uncluttered, focus on the main subject. ${prompt}`;
+    const images = [...(source ? [source.image] : []), ...characterImages(character)];
+    const imageSeed = seed ?? newImageSeed();
 
     // Handle batch generation for multiple pages
     if (batchGenerate && pageCount > 1) {
@@ -88,12 +111,9 @@ export async function POST(req: NextRequest) {
       for (let i = 0; i < pageCount; i++) {
         const pagePrompt = `${enhancedPrompt} This is page ${i + 1} of ${pageCount}. `;
         
-        const response = await ai.models.generateContent({
-          model: MODEL_IMAGE,
-          contents: pagePrompt,
-        });
+        const image = await ai.generateImage({ prompt: pagePrompt, images, seed: (imageSeed + i) % 2 ** 31 });
 
-        const imageUrl = await processImageResponse(response, i);
+        const imageUrl = await processImageResponse(image, i);
         if (imageUrl) {
           imageUrls.push(imageUrl);
         }
@@ -106,22 +126,37 @@ export async function POST(req: NextRequest) {
       });
     } else {
       // Single image generation
-      const response = await ai.models.generateContent({
-        model: MODEL_IMAGE,
-        contents: enhancedPrompt,
-      });
+      const image = await ai.generateImage({ prompt: enhancedPrompt, images, seed: imageSeed });
 
-      const imageUrl = await processImageResponse(response);
+      const imageUrl = await processImageResponse(image);
       if (!imageUrl) {
         return NextResponse.json({ error: "No image returned from model" }, { status: 502 });
       }
 
+      const version = bookId && pageIndex !== undefined
+        ? await recordIllustrationVersion({
+            bookId,
+            pageIndex,
+            imageUrl,
+            sourceImageUrl: source && editInstruction ? source.url : undefined,
+            prompt,
+            editInstruction,
+            style,
+            model: ai.imageModel,
+            seed: imageSeed,
+          })
+        : null;
+
       return NextResponse.json({ 
         imageUrl,
+        seed: imageSeed,
+        versionId: version?.id ?? null,
         batchGenerated: false,
         features: {
+          characterBible: !!character,
           consistencyMode,
           editMode,
+          imageEdit: !!(source && editInstruction),
           fusionMode,
           style
         }
@@ -132,43 +167,21 @@ export async function POST(req: NextRequest) {
   }
 }
 
-interface ImageResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        inlineData?: {
-          data?: string;
-        };
-      }>;
-    };
-  }>;
-}
-
-async function processImageResponse(response: unknown, pageIndex?: number): Promise<string | null> {
+async function processImageResponse(image: GeneratedImage | null, pageIndex?: number): Promise<string | null> {
   try {
-    const imageResponse = response as ImageResponse;
-    if (imageResponse.candidates?.[0]?.content?.parts) {
-      for (const part of imageResponse.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const imageData = part.inlineData.data;
-          
-          if (imageData) {
-            const buffer = Buffer.from(imageData, "base64");
-            
-            // Generate unique filename
-            const timestamp = Date.now();
-            const randomId = Math.random().toString(36).substring(2, 8);
-            const pageSuffix = pageIndex !== undefined ? `_page${pageIndex + 1}` : '';
-            const filename = `advanced_illustration_${timestamp}_${randomId}${pageSuffix}.png`;
-            
-            // Upload to Supabase storage
-            const imageUrl = await uploadImageToStorage(buffer, filename);
-            return imageUrl;
-          }
-        }
-      }
-    }
-    return null;
+    if (!image) return null;
+
+    const buffer = Buffer.from(image.data, "base64");
+
+    // Generate unique filename
+    const timestamp = Date.now();
+    const randomId = Math.random().toString(36).substring(2, 8);
+    const pageSuffix = pageIndex !== undefined ? `_page${pageIndex + 1}` : '';
+    const filename = `advanced_illustration_${timestamp}_${randomId}${pageSuffix}.png`;
+
+    // Upload to Supabase storage
+    const imageUrl = await uploadImageToStorage(buffer, filename);
+    return imageUrl;
   } catch (error) {
     console.error("Error processing image response:", error);
     return null;
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider, type AIProvider, type GeneratedImage } from "@/lib/ai";
+import { characterImages, characterPromptText, loadCharacterContextById, type CharacterContext } from "@/lib/characters";
+import { newImageSeed, recordIllustrationVersion } from "@/lib/illustrations";
 import { uploadImageToStorage } from "@/lib/supabase";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+// Every page is a paid image call, so one request can cover at most a long book
+const MAX_PAGES = 20;
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -9,22 +15,22 @@ const BodySchema = z.object({
     text: z.string(),
     prompt: z.string(),
     pageIndex: z.number()
-  })),
+  })).max(MAX_PAGES),
   characterDescription: z.string().optional(),
+  characterId: z.string().uuid().optional(),
   style: z.enum(["realistic", "cartoon", "watercolor", "sketch"]).default("realistic"),
   consistencyMode: z.boolean().default(true),
   fusionMode: z.boolean().default(false),
   batchSize: z.number().min(1).max(5).default(3)
 });
 
-const MODEL_IMAGE = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image-preview";
-
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
     }
+
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -32,8 +38,8 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
     }
     
-    const { bookId, pages, characterDescription, style, consistencyMode, fusionMode, batchSize } = parsed.data;
-    const ai = new GoogleGenAI({ apiKey });
+    const { bookId, pages, characterDescription, characterId, style, consistencyMode, fusionMode, batchSize } = parsed.data;
+    const character = characterId ? await loadCharacterContextById(characterId) : null;
 
     console.log(`Starting batch illustration for book ${bookId} with ${pages.length} pages`);
 
@@ -55,6 +61,7 @@ export async function POST(req: NextRequest) {
           ai, 
           page, 
           globalPageIndex, 
+          character,
           characterDescription, 
           style, 
           consistencyMode, 
@@ -76,6 +83,22 @@ export async function POST(req: NextRequest) {
     const successfulResults = results.filter(result => result.success);
     const failedResults = results.filter(result => !result.success);
 
+    // Keep every image in the page galleries; unsaved books have no rows to attach to
+    if (!bookId.startsWith("temp_")) {
+      for (const result of successfulResults) {
+        await recordIllustrationVersion({
+          bookId,
+          // Results are numbered by position in the request; the book page index travels with each page
+          pageIndex: pages[result.pageIndex].pageIndex,
+          imageUrl: result.imageUrl!,
+          prompt: result.prompt,
+          style,
+          model: ai.imageModel,
+          seed: result.seed,
+        });
+      }
+    }
+
     console.log(`Batch illustration completed: ${successfulResults.length} successful, ${failedResults.length} failed`);
 
     return NextResponse.json({
@@ -103,15 +126,16 @@ export async function POST(req: NextRequest) {
 }
 
 async function generatePageIllustration(
-  ai: GoogleGenAI,
+  ai: AIProvider,
   page: { text: string; prompt: string; pageIndex: number },
   pageIndex: number,
+  character: CharacterContext | null,
   characterDescription: string | undefined,
   style: string,
   consistencyMode: boolean,
   fusionMode: boolean,
   _allPages: { text: string; prompt: string; pageIndex: number }[] // eslint-disable-line @typescript-eslint/no-unused-vars
-): Promise<{ success: boolean; pageIndex: number; imageUrl?: string; error?: string; prompt?: string; text?: string; features?: Record<string, string> }> {
+): Promise<{ success: boolean; pageIndex: number; imageUrl?: string; seed?: number; error?: string; prompt?: string; text?: string; features?: Record<string, string> }> {
   try {
     // Build enhanced prompt for this specific page
     let enhancedPrompt = `Create a high-quality children's book illustration for page ${pageIndex + 1}. `;
@@ -132,8 +156,10 @@ async function generatePageIllustration(
         break;
     }
     
-    // Character consistency - always enforce when character description is available
-    if (characterDescription) {
+    // Character consistency - prefer the character bible, then a free-text description
+    if (character) {
+      enhancedPrompt += characterPromptText(character);
+    } else if (characterDescription) {
       enhancedPrompt += `Character consistency: Maintain the same character appearance as described: ${characterDescription}. `;
     } else if (consistencyMode) {
       enhancedPrompt += `Character consistency: Maintain consistent character appearance throughout the story. `;
@@ -151,12 +177,10 @@ async function generatePageIllustration(
     
     enhancedPrompt += `Lighting: soft, natural lighting. Colors: vibrant but not overwhelming. Composition: clean, uncluttered, focus on the main subject. ${page.prompt}`;
 
-    const response = await ai.models.generateContent({
-      model: MODEL_IMAGE,
-      contents: enhancedPrompt,
-    });
+    const seed = newImageSeed();
+    const image = await ai.generateImage({ prompt: enhancedPrompt, images: characterImages(character), seed });
 
-    const imageUrl = await processImageResponse(response, pageIndex);
+    const imageUrl = await processImageResponse(image, pageIndex);
     
     if (!imageUrl) {
       return {
@@ -170,13 +194,14 @@ async function generatePageIllustration(
       success: true,
       pageIndex,
       imageUrl,
+      seed,
       prompt: page.prompt,
       text: page.text,
       features: {
         style,
         consistencyMode: consistencyMode ? "Enabled" : "Disabled",
         fusionMode: fusionMode ? "Enabled" : "Disabled",
-        characterDescription: characterDescription ? "Applied" : "None"
+        characterDescription: character ? "Character bible" : characterDescription ? "Applied" : "None"
       }
     };
 
@@ -190,42 +215,20 @@ async function generatePageIllustration(
   }
 }
 
-interface ImageResponse {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        inlineData?: {
-          data?: string;
-        };
-      }>;
-    };
-  }>;
-}
-
-async function processImageResponse(response: unknown, pageIndex: number): Promise<string | null> {
+async function processImageResponse(image: GeneratedImage | null, pageIndex: number): Promise<string | null> {
   try {
-    const imageResponse = response as ImageResponse;
-    if (imageResponse.candidates?.[0]?.content?.parts) {
-      for (const part of imageResponse.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const imageData = part.inlineData.data;
-          
-          if (imageData) {
-            const buffer = Buffer.from(imageData, "base64");
-            
-            // Generate unique filename with page index
-            const timestamp = Date.now();
-            const randomId = Math.random().toString(36).substring(2, 8);
-            const filename = `batch_illustration_${timestamp}_page${pageIndex + 1}_${randomId}.png`;
-            
-            // Upload to Supabase storage
-            const imageUrl = await uploadImageToStorage(buffer, filename);
-            return imageUrl;
-          }
-        }
-      }
-    }
-    return null;
+    if (!image) return null;
+
+    const buffer = Buffer.from(image.data, "base64");
+
+    // Generate unique filename with page index
+    const timestamp = Date.now();
+    const randomId = Math.random().toString(36).substring(2, 8);
+    const filename = `batch_illustration_${timestamp}_page${pageIndex + 1}_${randomId}.png`;
+
+    // Upload to Supabase storage
+    const imageUrl = await uploadImageToStorage(buffer, filename);
+    return imageUrl;
   } catch (error) {
     console.error("Error processing image response:", error);
     return null;
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBook } from "@/lib/books";
+import { renderBookEpub } from "@/lib/epub";
+import { fileSlug } from "@/lib/utils";
+
+// EPUB 3 of a book for e-readers and library apps, with narration when the book has it
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const book = await getBook(id);
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const epub = await renderBookEpub(book);
+    const filename = `${fileSlug(book.title)}.epub`;
+    return new NextResponse(new Uint8Array(epub), {
+      headers: {
+        "Content-Type": "application/epub+zip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
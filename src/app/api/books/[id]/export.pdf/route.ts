@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getBook } from "@/lib/books";
+import { renderBookPdf, TrimSizeSchema } from "@/lib/print-book";
+import { fileSlug } from "@/lib/utils";
+
+// Printable PDF of a book, e.g. to send to a print shop
+
+const flag = z.enum(["true", "false", "1", "0"]).default("false").transform(value => value === "true" || value === "1");
+
+const QuerySchema = z.object({
+  trim: TrimSizeSchema.default("8x8"),
+  bleed: flag,
+  cropMarks: flag,
+});
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const book = await getBook(id);
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const pdf = await renderBookPdf(book, parsed.data);
+    const filename = `${fileSlug(book.title)}-${parsed.data.trim}.pdf`;
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getBook } from "@/lib/books";
+import { activateIllustrationVersion, listIllustrationVersions } from "@/lib/illustrations";
+
+type Params = { params: Promise<{ id: string; index: string }> };
+
+const BodySchema = z.object({
+  versionId: z.string().uuid(),
+});
+
+function parsePageIndex(index: string): number | null {
+  const pageIndex = Number(index);
+  return Number.isInteger(pageIndex) && pageIndex >= 0 ? pageIndex : null;
+}
+
+// Every recorded illustration of a page, oldest first, with the one currently shown
+export async function GET(_req: NextRequest, { params }: Params) {
+  try {
+    const { id, index } = await params;
+    const pageIndex = parsePageIndex(index);
+    if (pageIndex === null) {
+      return NextResponse.json({ error: "Invalid page index" }, { status: 400 });
+    }
+
+    const book = await getBook(id);
+    if (!book || !book.pages[pageIndex]) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    const versions = await listIllustrationVersions(id, pageIndex);
+    return NextResponse.json({ versions, activeImageUrl: book.pages[pageIndex].imageUrl ?? null });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+// Reverts the page to an earlier version
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const { id, index } = await params;
+    const pageIndex = parsePageIndex(index);
+    if (pageIndex === null) {
+      return NextResponse.json({ error: "Invalid page index" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const book = await activateIllustrationVersion(id, pageIndex, parsed.data.versionId);
+    if (!book) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+    return NextResponse.json({ book, imageUrl: book.pages[pageIndex].imageUrl });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAIProvider, StructuredOutputError } from "@/lib/ai";
+import { rewritePage } from "@/lib/book-generation";
+import { getBook } from "@/lib/books";
+
+const BodySchema = z.object({
+  // What the parent wants changed, e.g. "more about the food market"
+  guidance: z.string().max(500).optional(),
+});
+
+// Returns a replacement page without saving it; the editor saves through PATCH /api/books/:id
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; index: string }> }) {
+  try {
+    const ai = getAIProvider();
+    const { id, index } = await params;
+    const pageIndex = Number(index);
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const book = await getBook(id);
+    if (!book || !Number.isInteger(pageIndex) || !book.pages[pageIndex]) {
+      return NextResponse.json({ error: "Page not found" }, { status: 404 });
+    }
+
+    const guidance = parsed.data.guidance?.trim() || undefined;
+    const { data, repairedFields } = await rewritePage(ai, book, pageIndex, { guidance });
+    // The illustration still shows the old scene until the page is illustrated again
+    const page = { ...book.pages[pageIndex], text: data.text, activity: data.activity, prompt: data.prompt };
+    return NextResponse.json({ page, repairedFields });
+  } catch (err: unknown) {
+    if (err instanceof StructuredOutputError) {
+      return NextResponse.json({ error: err.message, details: err.issues }, { status: 502 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
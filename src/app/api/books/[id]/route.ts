@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BookConflictError, BookPatchSchema, getBook, updateBook } from "@/lib/books";
+import { reindexIllustrations } from "@/lib/illustrations";
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const book = await getBook(id);
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+    return NextResponse.json({ book });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+// Partial update from the editor: metadata, glossary and the full, possibly reordered, page list
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = BookPatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await updateBook(id, parsed.data);
+    if (!result) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+    if (parsed.data.pages) {
+      await reindexIllustrations(id, result.pageMoves);
+    }
+    return NextResponse.json({ book: result.book });
+  } catch (err: unknown) {
+    if (err instanceof BookConflictError) {
+      return NextResponse.json({ error: err.message, book: err.current }, { status: 409 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
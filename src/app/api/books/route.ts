@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BookSearchSchema } from "@/lib/book-search";
+import { searchBooks } from "@/lib/books";
+
+// The signed-in user's library, a page at a time, with full-text search, filters and sorting
+
+export async function GET(req: NextRequest) {
+  try {
+    const parsed = BookSearchSchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { page, pageSize } = parsed.data;
+    const { books, total } = await searchBooks(parsed.data);
+    return NextResponse.json({ books, total, page, pageSize, hasMore: page * pageSize < total });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { BookSchema } from "@/lib/book-schema";
+import { getBook } from "@/lib/books";
+import { BUNDLE_CONTENT_TYPE, BUNDLE_EXTENSION, createBundle, createStoredBookBundle } from "@/lib/bundle";
+import { isStorageUrl } from "@/lib/image-urls";
+import { fileSlug } from "@/lib/utils";
+
+// Saved books are exported by id; books from the signed-out library are sent whole
+const BodySchema = z.object({
+  bookId: z.string().optional(),
+  book: BookSchema.extend({
+    glossary: z.record(z.string(), z.string()).default({}),
+    funFacts: z.array(z.string()).default([]),
+  }).optional(),
+  educational: z.record(z.string(), z.unknown()).nullable().optional(),
+}).refine(body => !!body.bookId !== !!body.book, "Send either bookId or book");
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { bookId, educational = null } = parsed.data;
+    let bundle: Buffer;
+    let title: string;
+    if (bookId) {
+      const book = await getBook(bookId);
+      if (!book) {
+        return NextResponse.json({ error: "Book not found" }, { status: 404 });
+      }
+      bundle = await createStoredBookBundle(book, educational);
+      title = book.title;
+    } else {
+      const book = parsed.data.book!;
+      bundle = await createBundle({ ...book, id: "local" }, { educational, canDownload: isStorageUrl });
+      title = book.title;
+    }
+
+    const filename = `${fileSlug(title)}${BUNDLE_EXTENSION}`;
+    return new NextResponse(new Uint8Array(bundle), {
+      headers: {
+        "Content-Type": BUNDLE_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BundleError, importBundle, importShelfBundle, isShelfBundle, MAX_BUNDLE_BYTES, openBundle } from "@/lib/bundle";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+// Restores a .storyvoyage bundle, sent as the "file" field of a form or as the raw body.
+// Signed in, the book is saved to the account; otherwise it is returned for the local library.
+// A shelf bundle restores all its books, and signed in the shelf too.
+
+export async function POST(req: NextRequest) {
+  try {
+    const declared = Number(req.headers.get("content-length") || 0);
+    if (declared > MAX_BUNDLE_BYTES) {
+      return NextResponse.json({ error: "Bundle is too large" }, { status: 413 });
+    }
+
+    let data: Buffer;
+    if ((req.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+      const file = (await req.formData()).get("file");
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "Invalid body", details: { fieldErrors: { file: ["Attach a .storyvoyage file"] } } }, { status: 400 });
+      }
+      data = Buffer.from(await file.arrayBuffer());
+    } else {
+      data = Buffer.from(await req.arrayBuffer());
+    }
+    if (data.length > MAX_BUNDLE_BYTES) {
+      return NextResponse.json({ error: "Bundle is too large" }, { status: 413 });
+    }
+
+    const files = openBundle(data);
+    const save = !!await getCurrentUser();
+    if (isShelfBundle(files)) {
+      return NextResponse.json(await importShelfBundle(files, { save }));
+    }
+    return NextResponse.json(await importBundle(files, { save }));
+  } catch (err: unknown) {
+    if (err instanceof BundleError) {
+      return NextResponse.json({ error: err.message, details: err.details }, { status: 400 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAIProvider } from "@/lib/ai";
+import { CharacterTraitsSchema, getCharacter, updateCharacter } from "@/lib/characters";
+
+const PatchSchema = z.object({
+  traits: CharacterTraitsSchema.partial().default({}),
+  // Re-render the reference image, e.g. after changing the outfit
+  regenerateReference: z.boolean().default(false),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const character = await getCharacter(id);
+    if (!character) {
+      return NextResponse.json({ error: "Character not found" }, { status: 404 });
+    }
+    return NextResponse.json({ character });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = PatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const ai = getAIProvider();
+    const character = await updateCharacter(ai, id, parsed.data.traits, {
+      regenerateReference: parsed.data.regenerateReference,
+    });
+    if (!character) {
+      return NextResponse.json({ error: "Character not found" }, { status: 404 });
+    }
+    return NextResponse.json({ character });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAIProvider } from "@/lib/ai";
+import { CharacterTraitsSchema, createCharacter, draftCharacterTraits, listCharacters } from "@/lib/characters";
+import { getChild } from "@/lib/children";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = z.object({
+  // A child profile supplies the name, age and interests; childName is for children without one
+  childId: z.string().uuid().optional(),
+  childName: z.string().min(1).optional(),
+  // Explicit traits; when omitted they are drafted from the child's age and interests
+  traits: CharacterTraitsSchema.optional(),
+  childAge: z.number().int().min(3).max(12).optional(),
+  interests: z.array(z.string()).default([]),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const childName = req.nextUrl.searchParams.get("childName") || undefined;
+    const childId = req.nextUrl.searchParams.get("childId") || undefined;
+    const characters = await listCharacters({ childName, childId });
+    return NextResponse.json({ characters });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    const ai = getAIProvider();
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { childId, traits } = parsed.data;
+    const profile = childId ? await getChild(childId) : null;
+    if (childId && !profile) {
+      return NextResponse.json({ error: "Child not found" }, { status: 404 });
+    }
+    const childName = profile?.name ?? parsed.data.childName;
+    const childAge = profile?.age ?? parsed.data.childAge;
+    const interests = parsed.data.interests.length > 0 ? parsed.data.interests : profile?.interests ?? [];
+    if (!childName) {
+      return NextResponse.json({ error: "Provide childId or childName" }, { status: 400 });
+    }
+    if (!traits && !childAge) {
+      return NextResponse.json({ error: "Provide traits or childAge to draft them" }, { status: 400 });
+    }
+
+    const characterTraits = traits ?? await draftCharacterTraits(ai, { name: childName, age: childAge!, interests });
+    const character = await createCharacter(ai, childName, characterTraits, childId);
+    return NextResponse.json({ character }, { status: 201 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AvatarImageSchema, ChildProfileSchema, getChild, updateChild, uploadAvatar } from "@/lib/children";
+
+const PatchSchema = ChildProfileSchema.partial().extend({
+  // Uploaded avatar as a data URL; replaces avatarUrl
+  avatarImage: AvatarImageSchema.optional(),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const child = await getChild(id);
+    if (!child) {
+      return NextResponse.json({ error: "Child not found" }, { status: 404 });
+    }
+    return NextResponse.json({ child });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = PatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { avatarImage, ...profile } = parsed.data;
+    const child = await updateChild(id, {
+      ...profile,
+      ...(avatarImage && { avatarUrl: await uploadAvatar(avatarImage) }),
+    });
+    if (!child) {
+      return NextResponse.json({ error: "Child not found" }, { status: 404 });
+    }
+    return NextResponse.json({ child });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
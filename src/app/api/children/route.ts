@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ReadingLevelSchema } from "@/lib/book-schema";
+import { AvatarImageSchema, ChildProfileSchema, createChild, IllustrationStyleSchema, listChildren, uploadAvatar } from "@/lib/children";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = ChildProfileSchema.extend({
+  preferredStyle: IllustrationStyleSchema.default("realistic"),
+  readingLevel: ReadingLevelSchema.default("middle"),
+  interests: z.array(z.string()).default([]),
+  // Uploaded avatar as a data URL; stored and saved as avatarUrl
+  avatarImage: AvatarImageSchema.optional(),
+});
+
+export async function GET() {
+  try {
+    const children = await listChildren();
+    return NextResponse.json({ children });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { avatarImage, ...profile } = parsed.data;
+    const avatarUrl = avatarImage ? await uploadAvatar(avatarImage) : profile.avatarUrl;
+    const child = await createChild({ ...profile, avatarUrl });
+    return NextResponse.json({ child }, { status: 201 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
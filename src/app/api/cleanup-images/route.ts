@@ -1,41 +1,48 @@
-import { NextResponse } from "next/server";
-import { readdir, unlink } from "fs/promises";
-import { join } from "path";
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { cleanupUnreferencedImages } from "@/lib/illustrations";
 
-export async function POST() {
+// The sweep reads and deletes across every account, so it is for a scheduled job holding
+// CRON_SECRET (sent as "Authorization: Bearer <secret>"), never for signed-in users
+
+const BodySchema = z.object({
+  // Report what would be deleted without deleting it
+  dryRun: z.boolean().default(false),
+  // Also drop gallery versions that are not the active image of their page
+  keepHistory: z.boolean().default(true),
+  // Leave recent uploads alone; a book being generated may not be saved yet
+  graceMinutes: z.number().int().min(0).default(60),
+});
+
+function isCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(req.headers.get("authorization") || "");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function POST(req: NextRequest) {
   try {
-    const imagesDir = join(process.cwd(), "public", "images");
-    
-    // Get all image files
-    const files = await readdir(imagesDir);
-    const imageFiles = files.filter(file => file.startsWith("illustration_") && file.endsWith(".png"));
-    
-    // Keep only the 50 most recent images (based on timestamp in filename)
-    const sortedFiles = imageFiles
-      .map(file => ({
-        name: file,
-        timestamp: parseInt(file.split("_")[1]) || 0
-      }))
-      .sort((a, b) => b.timestamp - a.timestamp);
-    
-    const filesToKeep = sortedFiles.slice(0, 50);
-    const filesToDelete = sortedFiles.slice(50);
-    
-    // Delete old files
-    for (const file of filesToDelete) {
-      try {
-        await unlink(join(imagesDir, file.name));
-      } catch (error) {
-        console.error(`Failed to delete ${file.name}:`, error);
-      }
+    if (!isCronRequest(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
-    
-    return NextResponse.json({ 
-      deleted: filesToDelete.length, 
-      kept: filesToKeep.length 
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await cleanupUnreferencedImages(parsed.data);
+    return NextResponse.json({
+      ...result,
+      deleted: result.deleted.length,
+      deletedFiles: result.deleted,
     });
   } catch (error) {
     console.error("Cleanup failed:", error);
-    return NextResponse.json({ error: "Cleanup failed" }, { status: 500 });
+    return NextResponse.json({ error: error instanceof Error ? error.message : "Cleanup failed" }, { status: 500 });
   }
 }
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { addBooksToCollection, CollectionBooksError, removeBookFromCollection } from "@/lib/collections";
+
+// Puts books on a shelf (at the end) and takes them off again
+
+const PostSchema = z.object({
+  bookIds: z.array(z.string().uuid()).min(1),
+});
+
+const DeleteSchema = z.object({
+  bookId: z.string().uuid(),
+});
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = PostSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const collection = await addBooksToCollection(id, parsed.data.bookIds);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    return NextResponse.json({ collection });
+  } catch (err: unknown) {
+    if (err instanceof CollectionBooksError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const parsed = DeleteSchema.safeParse({ bookId: req.nextUrl.searchParams.get("bookId") ?? undefined });
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const collection = await removeBookFromCollection(id, parsed.data.bookId);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    return NextResponse.json({ collection });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
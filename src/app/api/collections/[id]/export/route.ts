@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BUNDLE_CONTENT_TYPE, BUNDLE_EXTENSION, createShelfBundle, createStoredBookBundle } from "@/lib/bundle";
+import { getCollection, listCollectionBooks } from "@/lib/collections";
+import { fileSlug } from "@/lib/utils";
+
+// Every book on a shelf, with its gallery and narration, as one .storyvoyage shelf bundle
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection(id);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+
+    const bundles: Buffer[] = [];
+    for (const book of await listCollectionBooks(id)) bundles.push(await createStoredBookBundle(book));
+    const bundle = createShelfBundle(collection, bundles);
+
+    const filename = `${fileSlug(collection.title, "shelf")}${BUNDLE_EXTENSION}`;
+    return new NextResponse(new Uint8Array(bundle), {
+      headers: {
+        "Content-Type": BUNDLE_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
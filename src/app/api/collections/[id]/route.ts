@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  CollectionBooksError,
+  CollectionFieldsSchema,
+  deleteCollection,
+  getCollection,
+  listCollectionBooks,
+  updateCollection,
+} from "@/lib/collections";
+
+const PatchSchema = CollectionFieldsSchema.partial().extend({
+  // Every book on the shelf, in its new order
+  bookIds: z.array(z.string().uuid())
+    .refine(ids => new Set(ids).size === ids.length, "Each book can only appear once")
+    .optional(),
+});
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection(id);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    return NextResponse.json({ collection, books: await listCollectionBooks(id) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = PatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const collection = await updateCollection(id, parsed.data);
+    if (!collection) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    return NextResponse.json({ collection });
+  } catch (err: unknown) {
+    if (err instanceof CollectionBooksError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+// Deletes the shelf only; its books stay in the library
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    if (!await deleteCollection(id)) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
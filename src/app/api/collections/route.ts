@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { CollectionBooksError, CollectionFieldsSchema, createCollection, listCollections } from "@/lib/collections";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = CollectionFieldsSchema.extend({
+  description: CollectionFieldsSchema.shape.description.optional(),
+  // Books the shelf starts with, in shelf order
+  bookIds: z.array(z.string().uuid()).default([])
+    .refine(ids => new Set(ids).size === ids.length, "Each book can only appear once"),
+});
+
+export async function GET() {
+  try {
+    const collections = await listCollections();
+    return NextResponse.json({ collections });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const collection = await createCollection(parsed.data);
+    return NextResponse.json({ collection }, { status: 201 });
+  } catch (err: unknown) {
+    if (err instanceof CollectionBooksError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
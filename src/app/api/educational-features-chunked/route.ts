@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider, type AIProvider } from "@/lib/ai";
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -16,8 +16,6 @@ const BodySchema = z.object({
   ])
 });
 
-const MODEL_TEXT = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
-
 function extractJsonFromText(text: string): Record<string, unknown> | null {
   try {
     const patterns = [
@@ -42,10 +40,7 @@ function extractJsonFromText(text: string): Record<string, unknown> | null {
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
-    }
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -54,7 +49,6 @@ export async function POST(req: NextRequest) {
     }
     
     const { bookId: _bookId, pageText, readingLevel, childAge, city, feature } = parsed.data; // eslint-disable-line @typescript-eslint/no-unused-vars
-    const ai = new GoogleGenAI({ apiKey });
 
     let result: Record<string, unknown> = {};
 
@@ -90,7 +84,7 @@ export async function POST(req: NextRequest) {
   }
 }
 
-async function generateComprehensionQuiz(ai: GoogleGenAI, pageText: string, readingLevel: string, childAge: number) {
+async function generateComprehensionQuiz(ai: AIProvider, pageText: string, readingLevel: string, childAge: number) {
   const prompt = `Create a quick reading comprehension quiz for this children's story page. 
   
   Story text: "${pageText}"
@@ -111,12 +105,7 @@ async function generateComprehensionQuiz(ai: GoogleGenAI, pageText: string, read
     ]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -131,7 +120,7 @@ async function generateComprehensionQuiz(ai: GoogleGenAI, pageText: string, read
   };
 }
 
-async function generateVocabularyBuilder(ai: GoogleGenAI, pageText: string, readingLevel: string, childAge: number) {
+async function generateVocabularyBuilder(ai: AIProvider, pageText: string, readingLevel: string, childAge: number) {
   const prompt = `Create a quick vocabulary builder for this children's story page.
   
   Story text: "${pageText}"
@@ -152,12 +141,7 @@ async function generateVocabularyBuilder(ai: GoogleGenAI, pageText: string, read
     ]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -172,7 +156,7 @@ async function generateVocabularyBuilder(ai: GoogleGenAI, pageText: string, read
   };
 }
 
-async function generateCulturalFacts(ai: GoogleGenAI, pageText: string, city: string, childAge: number) {
+async function generateCulturalFacts(ai: AIProvider, pageText: string, city: string, childAge: number) {
   const prompt = `Create quick cultural facts related to this story and the city ${city}.
   
   Story text: "${pageText}"
@@ -191,12 +175,7 @@ async function generateCulturalFacts(ai: GoogleGenAI, pageText: string, city: st
     ]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -210,7 +189,7 @@ async function generateCulturalFacts(ai: GoogleGenAI, pageText: string, city: st
   };
 }
 
-async function generateActivitySuggestions(ai: GoogleGenAI, pageText: string, readingLevel: string, childAge: number) {
+async function generateActivitySuggestions(ai: AIProvider, pageText: string, readingLevel: string, childAge: number) {
   const prompt = `Create quick activity suggestions based on this story.
   
   Story text: "${pageText}"
@@ -231,12 +210,7 @@ async function generateActivitySuggestions(ai: GoogleGenAI, pageText: string, re
     ]
   }`;
 
-  const response = await ai.models.generateContent({
-    model: MODEL_TEXT,
-    contents: prompt,
-  });
-
-  const text = response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  const text = await ai.generateText({ prompt: prompt });
   const data = extractJsonFromText(text);
   
   return data || {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider } from "@/lib/ai";
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -17,8 +17,6 @@ const BodySchema = z.object({
   ])).default(["comprehension_quiz", "vocabulary_builder"])
 });
 
-const MODEL_TEXT = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
-
 function extractJsonFromText(text: string): Record<string, unknown> | null {
   try {
     // Try to find JSON in various formats
@@ -45,10 +43,7 @@ function extractJsonFromText(text: string): Record<string, unknown> | null {
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
-    }
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -57,7 +52,6 @@ export async function POST(req: NextRequest) {
     }
     
     const { bookId, pageText, readingLevel, childAge, city, features } = parsed.data;
-    const ai = new GoogleGenAI({ apiKey });
 
     const educationalContent: Record<string, unknown> = {};
 
@@ -84,12 +78,7 @@ export async function POST(req: NextRequest) {
         ]
       }`;
 
-      const quizResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: quizPrompt,
-      });
-
-      const quizText = quizResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const quizText = await ai.generateText({ prompt: quizPrompt });
       const quizData = extractJsonFromText(quizText);
       
       if (quizData) {
@@ -134,12 +123,7 @@ export async function POST(req: NextRequest) {
         ]
       }`;
 
-      const vocabResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: vocabPrompt,
-      });
-
-      const vocabText = vocabResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const vocabText = await ai.generateText({ prompt: vocabPrompt });
       const vocabData = extractJsonFromText(vocabText);
       
       if (vocabData) {
@@ -179,12 +163,7 @@ export async function POST(req: NextRequest) {
         ]
       }`;
 
-      const culturalResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: culturalPrompt,
-      });
-
-      const culturalText = culturalResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const culturalText = await ai.generateText({ prompt: culturalPrompt });
       const culturalData = extractJsonFromText(culturalText);
       
       if (culturalData) {
@@ -226,12 +205,7 @@ export async function POST(req: NextRequest) {
         }
       }`;
 
-      const guideResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: guidePrompt,
-      });
-
-      const guideText = guideResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const guideText = await ai.generateText({ prompt: guidePrompt });
       const guideData = extractJsonFromText(guideText);
       
       if (guideData) {
@@ -269,12 +243,7 @@ export async function POST(req: NextRequest) {
         ]
       }`;
 
-      const activityResponse = await ai.models.generateContent({
-        model: MODEL_TEXT,
-        contents: activityPrompt,
-      });
-
-      const activityText = activityResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+      const activityText = await ai.generateText({ prompt: activityPrompt });
       const activityData = extractJsonFromText(activityText);
       
       if (activityData) {
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { AudioOptionsSchema, generateBookAudio, isAudioCurrent } from "@/lib/audio";
+import { getBook } from "@/lib/books";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = AudioOptionsSchema.extend({
+  bookId: z.string().min(1),
+});
+
+// The book's read-aloud manifest; `current` is false once the text changed since
+export async function GET(req: NextRequest) {
+  try {
+    const bookId = req.nextUrl.searchParams.get("bookId");
+    if (!bookId) {
+      return NextResponse.json({ error: "bookId is required" }, { status: 400 });
+    }
+    const book = await getBook(bookId);
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+    if (!book.audio) {
+      return NextResponse.json({ error: "This book has no audio yet" }, { status: 404 });
+    }
+    return NextResponse.json({ audio: book.audio, current: isAudioCurrent(book) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+// Reads the whole book aloud with the offline TTS engine and stores the result with it
+export async function POST(req: NextRequest) {
+  try {
+    if (!(await getCurrentUser())) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { bookId, ...options } = parsed.data;
+    const audio = await generateBookAudio(bookId, options);
+    if (!audio) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+    return NextResponse.json({ audio, current: true });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
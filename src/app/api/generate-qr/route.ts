@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getBook, loadCoverImage } from "@/lib/books";
+import { decodePng, isPng } from "@/lib/png";
+import { encodeQr, renderQrPng, renderQrSvg } from "@/lib/qr";
+import { isShareLinkActive, listShareLinks } from "@/lib/share-links";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+// Scan-to-read QR codes for one of a book's share links, e.g. for the back of a printed
+// book. Links are made with POST /api/books/:id/share; this route only draws them.
+
+const QuerySchema = z.object({
+  bookId: z.string().min(1),
+  // The share link to encode; it must be an active link to this book
+  token: z.string().min(1),
+  format: z.enum(["png", "svg"]).default("png"),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  ecLevel: z.enum(["L", "M", "Q", "H"]).optional(),
+  // Quiet zone in modules; scanners want at least 4
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  // Put the book's cover illustration in the middle of the code
+  cover: z.enum(["true", "false", "1", "0"]).default("false").transform(value => value === "true" || value === "1"),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const parsed = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { bookId, token, format, size, margin, cover } = parsed.data;
+
+    // The cover hides part of the code, so it needs the stronger error correction levels
+    if (cover && (parsed.data.ecLevel === "L" || parsed.data.ecLevel === "M")) {
+      return NextResponse.json({ error: "Embedding the cover needs error correction Q or H" }, { status: 400 });
+    }
+    const ecLevel = parsed.data.ecLevel ?? (cover ? "H" : "M");
+
+    // Only the caller's own links are listed, so a token from another book or account is not found
+    const link = (await listShareLinks(bookId)).find(link => link.token === token);
+    if (!link || !isShareLinkActive(link)) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    let coverImage = null;
+    if (cover) {
+      const book = await getBook(bookId);
+      if (!book) {
+        return NextResponse.json({ error: "Book not found" }, { status: 404 });
+      }
+      coverImage = await loadCoverImage(book);
+      if (!coverImage) {
+        return NextResponse.json({ error: "The book has no illustrations to use as a cover yet" }, { status: 422 });
+      }
+    }
+
+    const qr = encodeQr(`${process.env.NEXT_PUBLIC_BASE_URL || req.nextUrl.origin}${link.url}`, ecLevel);
+    const headers = { "Cache-Control": "private, max-age=300" };
+
+    if (format === "svg") {
+      const logo = coverImage ? `data:${coverImage.contentType};base64,${coverImage.data.toString("base64")}` : undefined;
+      return new NextResponse(renderQrSvg(qr, { size, margin }, logo), {
+        headers: { ...headers, "Content-Type": "image/svg+xml; charset=utf-8" },
+      });
+    }
+
+    // The PNG renderer composites pixels itself, so it can only embed PNG covers
+    if (coverImage && !isPng(coverImage.data)) {
+      return NextResponse.json({ error: "The cover is not a PNG; use format=svg to embed it" }, { status: 422 });
+    }
+    const png = renderQrPng(qr, { size, margin }, coverImage ? decodePng(coverImage.data) : undefined);
+    return new NextResponse(new Uint8Array(png), {
+      headers: { ...headers, "Content-Type": "image/png" },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { z } from "zod";
+import { getBook, loadCoverImage } from "@/lib/books";
+import { previewShareLink } from "@/lib/share-links";
+import type { Book } from "@/lib/supabase";
+
+// Social share cards: the cover illustration with the title, who the story is for and
+// where it takes place. Link previews fetch these by share token, without signing in.
+
+const QuerySchema = z.object({
+  // The owner's own book, while signed in
+  bookId: z.string().min(1).optional(),
+  // An open share link; this is what Open Graph tags point at
+  token: z.string().min(1).optional(),
+  variant: z.enum(["og", "square"]).default("og"),
+}).refine(query => query.bookId || query.token, "Pass bookId or token");
+
+const SIZES = {
+  og: { width: 1200, height: 630 },
+  square: { width: 1200, height: 1200 },
+} as const;
+
+export async function GET(req: NextRequest) {
+  try {
+    const parsed = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid query", details: parsed.error.flatten() }, { status: 400 });
+    }
+    const { bookId, token, variant } = parsed.data;
+
+    const book = token ? await previewShareLink(token) : await getBook(bookId!);
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    const cover = await loadCoverImage(book).catch(error => {
+      // A missing cover still makes a usable card
+      console.warn("Could not load cover for share image:", error);
+      return null;
+    });
+    const coverSrc = cover ? `data:${cover.contentType};base64,${cover.data.toString("base64")}` : undefined;
+
+    return new ImageResponse(<ShareCard book={book} coverSrc={coverSrc} variant={variant} />, {
+      ...SIZES[variant],
+      headers: { "Cache-Control": "public, max-age=3600" },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+function ShareCard({ book, coverSrc, variant }: { book: Book; coverSrc?: string; variant: "og" | "square" }) {
+  const square = variant === "square";
+  const { width, height } = SIZES[variant];
+  const places = book.journey ? book.journey.legs.map(leg => leg.city).join(" · ") : book.city;
+  const coverWidth = square ? width : 560;
+  const coverHeight = square ? 700 : height;
+
+  return (
+    <div
+      style={{
+        width,
+        height,
+        display: "flex",
+        flexDirection: square ? "column" : "row",
+        background: "linear-gradient(135deg, #0f172a 0%, #1e293b 60%, #312e81 100%)",
+        color: "#ffffff",
+      }}
+    >
+      {coverSrc ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={coverSrc} alt="" width={coverWidth} height={coverHeight} style={{ objectFit: "cover" }} />
+      ) : (
+        <div
+          style={{
+            width: coverWidth,
+            height: coverHeight,
+            display: "flex",
+            background: "linear-gradient(135deg, #3b82f6 0%, #9333ea 100%)",
+          }}
+        />
+      )}
+      <div
+        style={{
+          flex: 1,
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "center",
+          padding: square ? "40px 64px" : "56px 64px",
+        }}
+      >
+        <div style={{ fontSize: 28, color: "#c4b5fd", marginBottom: 16 }}>
+          {book.child?.name ? `A story for ${book.child.name}` : "A StoryVoyage story"}
+        </div>
+        <div
+          style={{
+            fontSize: book.title.length > 40 ? 48 : 60,
+            fontWeight: 700,
+            lineHeight: 1.1,
+            marginBottom: 24,
+          }}
+        >
+          {book.title}
+        </div>
+        <div style={{ fontSize: 30, color: "#e2e8f0" }}>{places}</div>
+        <div style={{ display: "flex", marginTop: "auto", fontSize: 24, color: "#94a3b8" }}>StoryVoyage</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getAIProvider, StructuredOutputError } from "@/lib/ai";
+import { GenerateBookSchema, generateBook, type GenerationEvent } from "@/lib/book-generation";
+import { queueMissingIllustrations, runJob } from "@/lib/jobs";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+// Same as /api/generate, but streams progress as newline-delimited JSON (one GenerationEvent per line)
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+    const ai = getAIProvider();
+
+    const body = await req.json();
+    const parse = GenerateBookSchema.safeParse(body);
+    if (!parse.success) {
+      return NextResponse.json({ error: "Invalid body", details: parse.error.flatten() }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // Once the client has gone, generation carries on (the book is still saved) but nothing more is sent
+        let closed = false;
+        const send = (event: GenerationEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          } catch {
+            closed = true;
+          }
+        };
+        try {
+          const { book } = await generateBook(ai, parse.data, send);
+          const retryJob = await queueMissingIllustrations(book).catch(err => {
+            console.warn("Failed to queue illustration retries:", err);
+            return null;
+          });
+          if (retryJob) {
+            send({ type: "retry_queued", jobId: retryJob.id });
+            after(() => runJob(retryJob.id).catch(err => console.error(`Job ${retryJob.id} crashed:`, err)));
+          }
+        } catch (err: unknown) {
+          send({
+            type: "error",
+            error: err instanceof Error ? err.message : "Unknown error",
+            details: err instanceof StructuredOutputError ? err.issues : undefined,
+          });
+        } finally {
+          if (!closed) {
+            closed = true;
+            try { controller.close(); } catch {}
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { getJob, isJobActive, resumeJob, runJob } from "@/lib/jobs";
+
+// Retries failed tasks and picks up tasks interrupted by a restart
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const current = await getJob(id);
+    if (!current) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (isJobActive(current)) {
+      return NextResponse.json({ error: "Job is already running" }, { status: 409 });
+    }
+
+    await resumeJob(id);
+    after(() => runJob(id).catch(err => console.error(`Job ${id} crashed:`, err)));
+    return NextResponse.json({ resumed: true, statusUrl: `/api/jobs/${id}` }, { status: 202 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/jobs";
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const result = await getJob(id);
+    if (!result) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const { job, tasks } = result;
+    const count = (status: string) => tasks.filter(task => task.status === status).length;
+    return NextResponse.json({
+      job,
+      tasks,
+      progress: {
+        total: tasks.length,
+        pending: count("pending"),
+        running: count("running"),
+        succeeded: count("succeeded"),
+        failed: count("failed"),
+      },
+      failedPages: Array.from(new Set(
+        tasks.filter(task => task.status === "failed" && task.page_index !== null).map(task => task.page_index)
+      )),
+    });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
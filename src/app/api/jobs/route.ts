@@ -0,0 +1,42 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { GenerateBookSchema } from "@/lib/book-generation";
+import { createGenerationJob, createPageJob, runJob } from "@/lib/jobs";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = z.union([
+  // Build a new book in the background
+  z.object({ request: GenerateBookSchema }),
+  // Re-run page tasks of an existing book; without pages, only pages missing output
+  z.object({
+    bookId: z.string().uuid(),
+    pages: z.array(z.number().int().min(0)).optional(),
+    kinds: z.array(z.enum(["image", "alt_text", "quiz"])).min(1).optional(),
+  }),
+]);
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const job = "request" in parsed.data
+      ? await createGenerationJob(parsed.data.request)
+      : await createPageJob(parsed.data.bookId, { pages: parsed.data.pages, kinds: parsed.data.kinds });
+    if (!job) {
+      return NextResponse.json({ job: null, message: "Nothing to re-run" });
+    }
+
+    after(() => runJob(job.id).catch(err => console.error(`Job ${job.id} crashed:`, err)));
+    return NextResponse.json({ job, statusUrl: `/api/jobs/${job.id}` }, { status: 202 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
 import { z } from "zod";
+import { getAIProvider } from "@/lib/ai";
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -9,8 +9,6 @@ const BodySchema = z.object({
   childAge: z.number().min(3).max(12)
 });
 
-const MODEL_TEXT = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
-
 function extractJsonFromText(text: string): Record<string, unknown> | null {
   try {
     const patterns = [
@@ -35,10 +33,7 @@ function extractJsonFromText(text: string): Record<string, unknown> | null {
 
 export async function POST(req: NextRequest) {
   try {
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing GOOGLE_GENAI_API_KEY" }, { status: 500 });
-    }
+    const ai = getAIProvider();
     
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
@@ -47,7 +42,6 @@ export async function POST(req: NextRequest) {
     }
     
     const { bookId, pageText, readingLevel, childAge } = parsed.data;
-    const ai = new GoogleGenAI({ apiKey });
 
     const simplificationPrompt = `Simplify this children's story text for better readability at different levels.
     
@@ -81,12 +75,7 @@ export async function POST(req: NextRequest) {
       ]
     }`;
 
-    const simplificationResponse = await ai.models.generateContent({
-      model: MODEL_TEXT,
-      contents: simplificationPrompt,
-    });
-
-    const simplificationData = simplificationResponse.candidates?.[0]?.content?.parts?.[0]?.text || "";
+    const simplificationData = await ai.generateText({ prompt: simplificationPrompt });
     const simplificationJson = extractJsonFromText(simplificationData);
     
     if (simplificationJson) {
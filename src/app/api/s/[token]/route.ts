@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { openShareLink } from "@/lib/share-links";
+
+const BodySchema = z.object({
+  passcode: z.string().optional(),
+});
+
+const STATUS_CODES = {
+  not_found: 404,
+  revoked: 410,
+  expired: 410,
+  passcode_required: 401,
+  wrong_passcode: 403,
+  locked: 429,
+} as const;
+
+const MESSAGES = {
+  not_found: "This link does not exist",
+  revoked: "This link has been turned off by its owner",
+  expired: "This link has expired",
+  passcode_required: "This story needs a passcode",
+  wrong_passcode: "That passcode is not right",
+  locked: "Too many wrong passcodes, so this link is locked for a few minutes",
+} as const;
+
+// Opens a share link for the reader; no sign-in needed. POST so passcodes stay out of URLs.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const body = await req.json().catch(() => ({}));
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const result = await openShareLink(token, parsed.data.passcode);
+    if (result.status === "locked") {
+      const retryAfter = Math.max(Math.ceil((new Date(result.lockedUntil).getTime() - Date.now()) / 1000), 1);
+      return NextResponse.json(
+        { error: MESSAGES.locked, status: result.status, lockedUntil: result.lockedUntil },
+        { status: STATUS_CODES.locked, headers: { "Retry-After": String(retryAfter) } },
+      );
+    }
+    if (result.status !== "ok") {
+      return NextResponse.json({ error: MESSAGES[result.status], status: result.status }, { status: STATUS_CODES[result.status] });
+    }
+    return NextResponse.json({ book: result.book });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -1,62 +1,60 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
+import { getCurrentUser, getServerSupabase } from "@/lib/supabase-server";
+import { BookSchema } from "@/lib/book-schema";
+import { StoredPageSchema, storeInlineImages } from "@/lib/books";
+import { bookFromRow, bookToRow, type BookRow } from "@/lib/supabase";
 import { z } from "zod";
 
-const BodySchema = z.object({
-  title: z.string(),
-  subtitle: z.string(),
-  city: z.string(),
-  dedication: z.string().optional(),
-  readingLevel: z.string(),
-  narratorPersona: z.string(),
-  child: z.object({
-    name: z.string(),
-    age: z.number(),
-    interests: z.array(z.string())
-  }),
-  pages: z.array(z.object({
-    text: z.string(),
-    activity: z.string().optional(),
-    prompt: z.string().optional(),
-    imageUrl: z.string().optional()
-  })),
-  glossary: z.record(z.string(), z.string()).optional(),
-  funFacts: z.array(z.string()).optional()
+// Uploads a book made without the server, such as one created offline. Older books may
+// have no glossary or fun facts.
+const BodySchema = BookSchema.extend({
+  glossary: z.record(z.string(), z.string()).default({}),
+  funFacts: z.array(z.string()).default([]),
+  pages: z.array(StoredPageSchema).min(1),
+  characterId: z.string().uuid().nullable().optional(),
+  childId: z.string().uuid().nullable().optional(),
+  // The book's temp_ id; a retried upload returns the book saved the first time
+  clientId: z.string().min(1).max(100).optional(),
 });
 
 export async function POST(req: NextRequest) {
   try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
     const body = await req.json();
     const parsed = BodySchema.safeParse(body);
-    
+
     if (!parsed.success) {
       return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
     }
-    
-    const book = parsed.data;
-    
+
+    const { clientId, ...book } = parsed.data;
+
+    const supabase = await getServerSupabase();
+    if (clientId) {
+      const { data: existing, error: existingError } = await supabase
+        .from('books')
+        .select('*')
+        .eq('client_id', clientId)
+        .maybeSingle();
+      if (existingError) throw existingError;
+      if (existing) return NextResponse.json({ book: bookFromRow(existing as BookRow) });
+    }
+
     const { data, error } = await supabase
       .from('books')
       .insert({
-        title: book.title,
-        subtitle: book.subtitle,
-        city: book.city,
-        dedication: book.dedication,
-        reading_level: book.readingLevel,
-        narrator_persona: book.narratorPersona,
-        child_name: book.child.name,
-        child_age: book.child.age,
-        child_interests: book.child.interests,
-        pages: book.pages,
-        glossary: book.glossary || {},
-        fun_facts: book.funFacts || []
+        ...bookToRow({ ...book, pages: await storeInlineImages(book.pages) }),
+        client_id: clientId ?? null
       })
       .select()
       .single();
-    
+
     if (error) throw error;
-    
-    return NextResponse.json({ book: data });
+
+    return NextResponse.json({ book: bookFromRow(data as BookRow) });
   } catch (err: unknown) {
     return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
   }
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSeries, listSeriesBooks, SeriesFieldsSchema, updateSeries } from "@/lib/series";
+
+const PatchSchema = SeriesFieldsSchema.partial();
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const series = await getSeries(id);
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+    return NextResponse.json({ series, books: await listSeriesBooks(id) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = PatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const series = await updateSeries(id, parsed.data);
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+    return NextResponse.json({ series });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createSeries, listSeries } from "@/lib/series";
+import { getCurrentUser } from "@/lib/supabase-server";
+
+const BodySchema = z.object({
+  title: z.string().min(1),
+  childName: z.string().min(1),
+  // Defaults to the narrator of the first book in bookIds
+  narratorPersona: z.string().min(1).optional(),
+  // Existing books that open the series, in reading order
+  bookIds: z.array(z.string().uuid()).default([])
+    .refine(ids => new Set(ids).size === ids.length, "Each book can only appear once"),
+});
+
+export async function GET(req: NextRequest) {
+  try {
+    const childName = req.nextUrl.searchParams.get("childName") || undefined;
+    const series = await listSeries(childName);
+    return NextResponse.json({ series });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    if (!await getCurrentUser()) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const parsed = BodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid body", details: parsed.error.flatten() }, { status: 400 });
+    }
+
+    const { bookIds, narratorPersona } = parsed.data;
+    if (!narratorPersona && bookIds.length === 0) {
+      return NextResponse.json({ error: "Provide narratorPersona or bookIds to take it from" }, { status: 400 });
+    }
+
+    const { series, books } = await createSeries(parsed.data);
+    return NextResponse.json({ series, books }, { status: 201 });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeShareLink } from "@/lib/share-links";
+
+// Revoking keeps the link, with its view count, but it no longer opens the book
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const link = await revokeShareLink(id);
+    if (!link) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    return NextResponse.json({ link });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
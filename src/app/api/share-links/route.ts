@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listShareLinks } from "@/lib/share-links";
+
+// The caller's share links across all their books, with view counts
+export async function GET(req: NextRequest) {
+  try {
+    const bookId = req.nextUrl.searchParams.get("bookId") || undefined;
+    return NextResponse.json({ links: await listShareLinks(bookId) });
+  } catch (err: unknown) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Unknown error" }, { status: 500 });
+  }
+}
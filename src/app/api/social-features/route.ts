@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { isAudioCurrent } from "@/lib/audio";
+import { getBook } from "@/lib/books";
+import { createShareLink, isShareLinkActive, listShareLinks } from "@/lib/share-links";
+
+const QR_LINK_DAYS = 30;
+const QR_LINK_MIN_DAYS_LEFT = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const BodySchema = z.object({
   bookId: z.string(),
@@ -45,6 +52,10 @@ export async function POST(req: NextRequest) {
 
 async function generateShareImage(bookId: string, bookData: { title: string; subtitle: string; city: string; childName: string; pages: Array<{ text: string; imageUrl?: string }> } | undefined) {
   // Generate a beautiful shareable image for social media
+  const link = await createShareLink(bookId);
+  if (!link) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
   const shareData = {
     bookId,
     title: bookData?.title || "Amazing Story",
@@ -52,14 +63,14 @@ async function generateShareImage(bookId: string, bookData: { title: string; sub
     city: bookData?.city || "Unknown City",
     childName: bookData?.childName || "Your Child",
     pageCount: bookData?.pages?.length || 0,
-    shareUrl: `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/read?id=${bookId}`,
+    shareUrl: absoluteUrl(link.url),
     timestamp: new Date().toISOString()
   };
 
   return NextResponse.json({
     success: true,
     shareData,
-    shareImageUrl: `/api/generate-share-image?bookId=${bookId}`,
+    shareImageUrl: `/api/generate-share-image?token=${link.token}`,
     socialText: `Check out this amazing story "${shareData.title}" created for ${shareData.childName} about ${shareData.city}! Created with StoryVoyage ✨`
   });
 }
@@ -102,18 +113,23 @@ async function generateAudioExport(bookId: string, bookData: { title: string; su
     return NextResponse.json({ error: "Book data required for audio export" }, { status: 400 });
   }
 
-  // This would integrate with a text-to-speech service
+  // Audio is made by POST /api/generate-audio; report it if the book already has some
+  const book = await getBook(bookId);
+  if (!book) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
   const audioData = {
     bookId,
     title: bookData.title,
-    audioUrl: `/api/generate-audio?bookId=${bookId}`,
-    duration: bookData.pages.length * 30, // Estimate 30 seconds per page
-    format: "MP3",
-    quality: "High",
-    voice: "Child-friendly narrator",
+    audioUrl: book.audio?.bookUrl ?? null,
+    manifestUrl: `/api/generate-audio?bookId=${bookId}`,
+    duration: book.audio?.duration ?? null,
+    format: "WAV",
+    voice: book.audio?.voice ?? null,
+    current: isAudioCurrent(book),
     features: {
-      backgroundMusic: true,
-      soundEffects: true,
+      backgroundMusic: false,
+      soundEffects: false,
       pageTurns: true,
       highlighting: true
     }
@@ -128,12 +144,22 @@ async function generateAudioExport(bookId: string, bookData: { title: string; su
 }
 
 async function generateQRCode(bookId: string) {
+  // Printed codes get their own expiring link, so it can be revoked without breaking
+  // other shares. One with a week or more left is handed out again rather than adding another.
+  const reusable = (await listShareLinks(bookId)).find(link =>
+    isShareLinkActive(link, new Date(Date.now() + QR_LINK_MIN_DAYS_LEFT * DAY_MS)) && !!link.expiresAt && !link.hasPasscode
+  );
+  const link = reusable ?? await createShareLink(bookId, { expiresInDays: QR_LINK_DAYS });
+  if (!link) {
+    return NextResponse.json({ error: "Book not found" }, { status: 404 });
+  }
   const qrData = {
     bookId,
-    qrUrl: `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/read?id=${bookId}`,
-    qrImageUrl: `/api/generate-qr?bookId=${bookId}`,
-    shortUrl: `storyvoyage.app/${bookId}`,
-    expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days
+    qrUrl: absoluteUrl(link.url),
+    qrImageUrl: `/api/generate-qr?bookId=${bookId}&token=${link.token}`,
+    shortUrl: absoluteUrl(link.url),
+    shareLinkId: link.id,
+    expiresAt: link.expiresAt
   };
 
   return NextResponse.json({
@@ -147,6 +173,10 @@ async function generateQRCode(bookId: string) {
   });
 }
 
+function absoluteUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}${path}`;
+}
+
 function extractThemes(pages: { text: string }[]): string[] {
   // Simple theme extraction - in a real app, this would use AI
   const themes = new Set<string>();
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
-import { supabase } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
 
 export async function GET() {
   try {
     // Test Supabase connection
+    const supabase = await getServerSupabase();
     const { data, error } = await supabase
       .from('books')
       .select('count')
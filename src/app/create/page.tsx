@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,26 +8,51 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { BookOpen, Sparkles, ArrowRight, ArrowLeft, Wand2 } from "lucide-react";
+import { BookOpen, Sparkles, ArrowRight, ArrowLeft, Wand2, Plus, Trash2 } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { Book } from "@/lib/supabase";
+import { journeyTitle, type BookPage, type JourneyStop, type Transport } from "@/lib/book-schema";
+import type { GenerationEvent } from "@/lib/book-generation";
+import type { Series } from "@/lib/series";
+import type { Child } from "@/lib/children";
+import { ageOn } from "@/lib/utils";
+import { useSessionUser } from "@/hooks/use-session";
+import { saveLocalBooks } from "@/lib/library-sync";
 
-const STORAGE_KEY = "nano_travel_books_v1";
-
-type Book = {
-  id: string;
-  title: string;
-  subtitle: string;
-  city: string;
-  dedication: string;
-  readingLevel: string;
-  narratorPersona: string;
-  child: { name: string; age: number; interests: string[] };
-  pages: Array<{ text: string; activity?: string; prompt?: string; imageUrl?: string }>;
-  glossary: Record<string, string>;
-  funFacts: string[];
+const MAX_JOURNEY_STOPS = 5;
+const MAX_JOURNEY_PAGES = 12;
+const TRANSPORTS: Transport[] = ["train", "plane", "boat", "car", "bus"];
+
+type GenerationOutline = Extract<GenerationEvent, { type: "outline" }>["outline"];
+
+// Book as it streams in from /api/generate/stream
+type DraftBook = {
+  outline: GenerationOutline | null;
+  pages: Array<BookPage | undefined>;
+  illustrationsDone: number;
 };
 
+async function* readGenerationEvents(res: Response): AsyncGenerator<GenerationEvent> {
+  if (!res.body) throw new Error("Empty response from server");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as GenerationEvent;
+    }
+  }
+  if (buffered.trim()) yield JSON.parse(buffered) as GenerationEvent;
+}
+
 export default function CreatePage() {
   const [city, setCity] = useState("");
   const [name, setName] = useState("");
@@ -36,10 +61,66 @@ export default function CreatePage() {
   const [readingLevel, setReadingLevel] = useState("middle");
   const [narrator, setNarrator] = useState("A friendly world traveler who loves discovering hidden wonders");
   const [pages, setPages] = useState(3);
+  const [journeyMode, setJourneyMode] = useState(false);
+  const [stops, setStops] = useState<JourneyStop[]>([
+    { city: "", pages: 2 },
+    { city: "", pages: 2, arriveBy: "train" },
+  ]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState(1);
   const [generatedBook, setGeneratedBook] = useState<Book | null>(null);
+  const [draft, setDraft] = useState<DraftBook | null>(null);
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  // "none" for a standalone book, "new" to start a series, otherwise the series id to continue
+  const [seriesChoice, setSeriesChoice] = useState("none");
+  const [newSeriesTitle, setNewSeriesTitle] = useState("");
+  const [children, setChildren] = useState<Child[]>([]);
+  // "new" for a child without a profile yet, otherwise the selected profile's id
+  const [childId, setChildId] = useState("new");
+  const [birthday, setBirthday] = useState("");
+
+  const router = useRouter();
+  const user = useSessionUser();
+
+  const continuedSeries = seriesList.find(series => series.id === seriesChoice);
+  const profile = children.find(child => child.id === childId);
+
+  // Books are saved to the signed-in account, so creating one needs a session
+  useEffect(() => {
+    if (user === null) router.replace("/login?next=/create");
+  }, [user, router]);
+
+  useEffect(() => {
+    fetch("/api/children")
+      .then(res => (res.ok ? res.json() : { children: [] }))
+      .then(data => setChildren(data.children || []))
+      .catch(error => console.warn("Failed to load child profiles:", error));
+  }, []);
+
+  function selectChild(id: string) {
+    setChildId(id);
+    const selected = children.find(child => child.id === id);
+    if (!selected) return;
+    setName(selected.name);
+    setAge(selected.age);
+    setInterests(selected.interests.join(", "));
+    setReadingLevel(selected.readingLevel);
+  }
+
+  function updateBirthday(value: string) {
+    setBirthday(value);
+    if (value) setAge(ageOn(value));
+  }
+
+  // The child's series, offered on the storyteller step
+  useEffect(() => {
+    if (currentStep !== 3 || !name.trim()) return;
+    fetch(`/api/series?childName=${encodeURIComponent(name.trim())}`)
+      .then(res => (res.ok ? res.json() : { series: [] }))
+      .then(data => setSeriesList(data.series || []))
+      .catch(error => console.warn("Failed to load series:", error));
+  }, [currentStep, name]);
 
   const steps = [
     { id: 1, title: "Basic Info", description: "Tell us about your child" },
@@ -48,9 +129,55 @@ export default function CreatePage() {
     { id: 4, title: "Generate", description: "Create your magical story" }
   ];
 
+  const journeyPageCount = stops.reduce((total, stop) => total + stop.pages, 0);
+
+  function updateStop(index: number, patch: Partial<JourneyStop>) {
+    setStops(prev => prev.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+  }
+
+  function addStop() {
+    setStops(prev => [...prev, { city: "", pages: 1, arriveBy: "train" }]);
+  }
+
+  function removeStop(index: number) {
+    // The first stop has no way of arriving
+    setStops(prev => prev.filter((_, i) => i !== index).map((stop, i) => (i === 0 ? { city: stop.city, pages: stop.pages } : stop)));
+  }
+
+  // Creates a profile for a new child with a birthday, or records changed preferences on
+  // the selected one; returns the profile id to link the book to, if any
+  async function saveChildProfile(interestList: string[]): Promise<string | undefined> {
+    if (profile) {
+      const changed = profile.readingLevel !== readingLevel || profile.interests.join(",") !== interestList.join(",");
+      if (!changed) return profile.id;
+      const res = await fetch(`/api/children/${profile.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ readingLevel, interests: interestList }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to update the child's profile");
+      setChildren(prev => prev.map(child => (child.id === data.child.id ? data.child : child)));
+      return profile.id;
+    }
+    if (!birthday) return undefined;
+
+    const res = await fetch("/api/children", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, birthday, readingLevel, interests: interestList }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data?.error || "Failed to save the child's profile");
+    setChildren(prev => [...prev, data.child]);
+    setChildId(data.child.id);
+    return data.child.id;
+  }
+
   async function generate() {
     setError(null);
     setLoading(true);
+    setDraft(null);
     setCurrentStep(4);
     try {
       console.log("Starting story generation...");
@@ -64,37 +191,84 @@ export default function CreatePage() {
         throw new Error(`Database connection failed: ${testData.error}`);
       }
       
-      const res = await fetch("/api/generate", {
+      const interestList = interests.split(",").map(s => s.trim()).filter(Boolean);
+      const profileId = await saveChildProfile(interestList);
+
+      let seriesId = continuedSeries?.id;
+      if (seriesChoice === "new") {
+        const seriesRes = await fetch("/api/series", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title: newSeriesTitle.trim() || `${name}'s Travels`,
+            childName: name,
+            narratorPersona: narrator,
+          }),
+        });
+        const seriesData = await seriesRes.json();
+        if (!seriesRes.ok) throw new Error(seriesData?.error || "Failed to start the series");
+        seriesId = seriesData.series.id;
+        setSeriesList(prev => [seriesData.series, ...prev]);
+        setSeriesChoice(seriesData.series.id);
+      }
+      
+      const res = await fetch("/api/generate/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          city,
+          ...(journeyMode
+            ? { journey: stops.map(stop => ({ ...stop, city: stop.city.trim() })) }
+            : { city, pages }),
           childName: name,
           childAge: age,
-          interests: interests.split(",").map(s => s.trim()).filter(Boolean),
+          interests: interestList,
           narratorPersona: narrator,
           readingLevel,
-          pages,
+          ...(seriesId && { seriesId }),
+          ...(profileId && { childId: profileId }),
         }),
       });
       
       console.log("Generate API response status:", res.status);
-      const data = await res.json();
-      console.log("Generate API response data:", data);
-      
-      if (!res.ok) throw new Error(data?.error || "Failed to generate");
-      const book = data.book as Book;
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data?.error || "Failed to generate");
+      }
+
+      let book: Book | null = null;
+      for await (const event of readGenerationEvents(res)) {
+        switch (event.type) {
+          case "outline":
+            setDraft({ outline: event.outline, pages: Array(event.outline.pageCount).fill(undefined), illustrationsDone: 0 });
+            break;
+          case "page":
+            setDraft(prev => prev && { ...prev, pages: prev.pages.map((p, i) => (i === event.index ? event.page : p)) });
+            break;
+          case "illustration":
+            setDraft(prev => prev && {
+              ...prev,
+              illustrationsDone: prev.illustrationsDone + 1,
+              pages: prev.pages.map((p, i) => (i === event.index && p ? { ...p, imageUrl: event.imageUrl || undefined } : p)),
+            });
+            break;
+          case "complete":
+            book = event.book;
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      }
+      if (!book) throw new Error("Story generation ended unexpectedly");
       
       console.log("Generated book structure:", book);
       console.log("Book child object:", book.child);
       
-      // Try to save to localStorage as backup
+      // Keep it in the library on this device; a book the server could not save yet
+      // (temp_ id) is uploaded by the library sync
       try {
-        const existingBooks = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{"books":[]}');
-        const updatedBooks = [book, ...existingBooks.books].slice(0, 10); // Keep only 10 most recent
-        localStorage.setItem(STORAGE_KEY, JSON.stringify({ books: updatedBooks }));
+        await saveLocalBooks([book], user?.id ?? null);
       } catch (localError) {
-        console.warn('Failed to save to localStorage:', localError);
+        console.warn('Failed to save book on this device:', localError);
       }
       
       // Ensure book has required structure
@@ -102,7 +276,7 @@ export default function CreatePage() {
         ...book,
         child: book.child || { name: name, age: age, interests: interests.split(",").map(s => s.trim()).filter(Boolean) },
         title: book.title || "Untitled Story",
-        subtitle: book.subtitle || `A magical adventure in ${city}`
+        subtitle: book.subtitle || `A magical adventure in ${book.city || city}`
       };
       
       setGeneratedBook(safeBook);
@@ -130,7 +304,9 @@ export default function CreatePage() {
 
   function canProceed() {
     switch (currentStep) {
-      case 1: return city && name;
+      case 1: return name && (journeyMode
+        ? stops.every(stop => stop.city.trim().length >= 2) && journeyPageCount <= MAX_JOURNEY_PAGES
+        : city);
       case 2: return true;
       case 3: return true;
       case 4: return true; // Allow proceeding on step 4
@@ -241,16 +417,113 @@ export default function CreatePage() {
             <CardContent className="space-y-4 sm:space-y-6">
               {currentStep === 1 && (
                 <div className="space-y-3 sm:space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="city" className="text-base sm:text-lg font-medium text-gray-900">Destination City</Label>
-                    <Input 
-                      id="city" 
-                      value={city} 
-                      onChange={e => setCity(e.target.value)} 
-                      placeholder="Where will your story take place?" 
-                      className="h-12 sm:h-14 text-base sm:text-lg placeholder:text-gray-500"
-                    />
+                  {children.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="child" className="text-base sm:text-lg font-medium text-gray-900">Who is this story for?</Label>
+                      <div className="flex items-center gap-3">
+                        {profile?.avatarUrl && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={profile.avatarUrl} alt={profile.name} className="w-12 h-12 rounded-full object-cover" />
+                        )}
+                        <Select value={childId} onValueChange={selectChild}>
+                          <SelectTrigger id="child" className="h-12 sm:h-14 text-base sm:text-lg flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {children.map(child => (
+                              <SelectItem key={child.id} value={child.id}>{child.name} ({child.age})</SelectItem>
+                            ))}
+                            <SelectItem value="new">Someone new</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      type="button"
+                      variant={journeyMode ? "outline" : "default"}
+                      onClick={() => setJourneyMode(false)}
+                    >
+                      One City
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={journeyMode ? "default" : "outline"}
+                      onClick={() => setJourneyMode(true)}
+                    >
+                      Multi-City Journey
+                    </Button>
                   </div>
+                  {journeyMode ? (
+                    <div className="space-y-2">
+                      <Label className="text-base sm:text-lg font-medium text-gray-900">Journey Stops</Label>
+                      {stops.map((stop, i) => (
+                        <div key={i} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                          <span className="w-6 text-center font-semibold text-gray-700">{i + 1}</span>
+                          <Input
+                            value={stop.city}
+                            onChange={e => updateStop(i, { city: e.target.value })}
+                            placeholder={i === 0 ? "Starting city" : "Next city"}
+                            aria-label={`Stop ${i + 1} city`}
+                            className="h-12 flex-1 min-w-[10rem] text-base placeholder:text-gray-500"
+                          />
+                          {i > 0 && (
+                            <Select value={stop.arriveBy} onValueChange={value => updateStop(i, { arriveBy: value as Transport })}>
+                              <SelectTrigger className="h-12 w-28" aria-label={`How to get to stop ${i + 1}`}>
+                                <SelectValue placeholder="By..." />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {TRANSPORTS.map(transport => (
+                                  <SelectItem key={transport} value={transport}>by {transport}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Select value={String(stop.pages)} onValueChange={value => updateStop(i, { pages: parseInt(value, 10) })}>
+                            <SelectTrigger className="h-12 w-28" aria-label={`Pages in stop ${i + 1}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {[1, 2, 3, 4].map(count => (
+                                <SelectItem key={count} value={String(count)}>{count} page{count === 1 ? "" : "s"}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeStop(i)}
+                            disabled={stops.length <= 2}
+                            title="Remove stop"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <div className="flex items-center justify-between">
+                        <Button type="button" variant="outline" size="sm" onClick={addStop} disabled={stops.length >= MAX_JOURNEY_STOPS}>
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add Stop
+                        </Button>
+                        <span className={`text-sm ${journeyPageCount > MAX_JOURNEY_PAGES ? "text-red-600" : "text-gray-600"}`}>
+                          {journeyPageCount} of {MAX_JOURNEY_PAGES} pages
+                        </span>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="city" className="text-base sm:text-lg font-medium text-gray-900">Destination City</Label>
+                      <Input 
+                        id="city" 
+                        value={city} 
+                        onChange={e => setCity(e.target.value)} 
+                        placeholder="Where will your story take place?" 
+                        className="h-12 sm:h-14 text-base sm:text-lg placeholder:text-gray-500"
+                      />
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 gap-3 sm:gap-6">
                     <div className="space-y-2">
                       <Label htmlFor="name" className="text-base sm:text-lg font-medium text-gray-900">Child&apos;s Name</Label>
@@ -258,6 +531,7 @@ export default function CreatePage() {
                         id="name" 
                         value={name} 
                         onChange={e => setName(e.target.value)} 
+                        disabled={!!profile}
                         placeholder="Ava" 
                         className="h-12 sm:h-14 text-base sm:text-lg placeholder:text-gray-500"
                       />
@@ -271,10 +545,24 @@ export default function CreatePage() {
                         max={12} 
                         value={age} 
                         onChange={e => setAge(parseInt(e.target.value || "8", 10))} 
+                        disabled={!!profile || !!birthday}
                         className="h-12 sm:h-14 text-base sm:text-lg placeholder:text-gray-500"
                       />
                     </div>
                   </div>
+                  {!profile && (
+                    <div className="space-y-2">
+                      <Label htmlFor="birthday" className="text-base sm:text-lg font-medium text-gray-900">Birthday (optional)</Label>
+                      <Input
+                        id="birthday"
+                        type="date"
+                        value={birthday}
+                        onChange={e => updateBirthday(e.target.value)}
+                        className="h-12 sm:h-14 text-base sm:text-lg"
+                      />
+                      <p className="text-sm text-gray-600">Add a birthday to save {name || "this child"}&apos;s profile, so next time everything is filled in and the age keeps up by itself.</p>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -303,6 +591,7 @@ export default function CreatePage() {
                       </SelectContent>
                     </Select>
                   </div>
+                  {!journeyMode && (
                   <div className="space-y-2">
                     <Label htmlFor="pages" className="text-base sm:text-lg font-medium text-gray-900">Number of Pages</Label>
                     <Input 
@@ -315,34 +604,111 @@ export default function CreatePage() {
                       className="h-12 sm:h-14 text-base sm:text-lg placeholder:text-gray-500"
                     />
                   </div>
+                  )}
                 </div>
               )}
 
               {currentStep === 3 && (
                 <div className="space-y-3 sm:space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="series" className="text-base sm:text-lg font-medium text-gray-900">Series</Label>
+                    <Select value={seriesChoice} onValueChange={setSeriesChoice}>
+                      <SelectTrigger id="series" className="h-12 sm:h-14 text-base sm:text-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Standalone story</SelectItem>
+                        <SelectItem value="new">Start a new series</SelectItem>
+                        {seriesList.map(series => (
+                          <SelectItem key={series.id} value={series.id}>Continue &quot;{series.title}&quot;</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {seriesChoice === "new" && (
+                      <Input
+                        value={newSeriesTitle}
+                        onChange={e => setNewSeriesTitle(e.target.value)}
+                        placeholder={`${name || "Ava"}'s Travels`}
+                        aria-label="Series title"
+                        className="h-12 text-base placeholder:text-gray-500"
+                      />
+                    )}
+                    {continuedSeries && (
+                      <p className="text-sm text-gray-600">
+                        The new book remembers the earlier adventures and {continuedSeries.sideCharacters.length > 0
+                          ? `can bring back ${continuedSeries.sideCharacters.map(character => character.name).join(", ")}`
+                          : "the friends made along the way"}.
+                      </p>
+                    )}
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="narrator" className="text-base sm:text-lg font-medium text-gray-900">Storyteller Persona</Label>
                     <Textarea 
                       id="narrator" 
-                      value={narrator} 
+                      value={continuedSeries ? continuedSeries.narratorPersona : narrator} 
                       onChange={e => setNarrator(e.target.value)} 
+                      disabled={!!continuedSeries}
                       placeholder="Describe the voice and personality of your storyteller..."
                       className="min-h-[100px] sm:min-h-[120px] text-base sm:text-lg placeholder:text-gray-500"
                     />
+                    {continuedSeries && (
+                      <p className="text-sm text-gray-600">Every book in a series is told by the same storyteller.</p>
+                    )}
                   </div>
                 </div>
               )}
 
               {currentStep === 4 && (
                 <div className="space-y-4">
-                  {loading && (
+                  {loading && !draft && (
                     <div className="space-y-6 text-center">
                       <div className="w-16 h-16 mx-auto border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
                       <div>
                         <h3 className="text-2xl font-bold mb-2 text-gray-900">Crafting Your Magical Story...</h3>
                         <p className="text-gray-600">This may take a moment while we create something special</p>
                       </div>
-                      <Progress value={75} className="h-3" />
+                      <Progress value={15} className="h-3" />
+                    </div>
+                  )}
+
+                  {loading && draft?.outline && (
+                    <div className="space-y-6">
+                      <div className="text-center">
+                        <h3 className="text-2xl font-bold mb-1 text-gray-900">{draft.outline.title}</h3>
+                        <p className="text-gray-600">{draft.outline.subtitle}</p>
+                      </div>
+                      <Progress
+                        value={25 + (draft.illustrationsDone / Math.max(draft.outline.pageCount, 1)) * 75}
+                        className="h-3"
+                      />
+                      <p className="text-center text-sm text-gray-600">
+                        Illustrating page {Math.min(draft.illustrationsDone + 1, draft.outline.pageCount)} of {draft.outline.pageCount}...
+                      </p>
+                      <div className="space-y-4">
+                        {draft.pages.map((page, index) => (
+                          <div key={index} className="flex gap-4 rounded-xl bg-gray-100 p-4 animate-in fade-in duration-500">
+                            <div className="w-24 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-gray-200">
+                              {page?.imageUrl ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={page.imageUrl} alt={`Illustration for page ${index + 1}`} className="w-full h-full object-cover" />
+                              ) : (
+                                <Skeleton className="w-full h-full" />
+                              )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <div className="text-xs font-semibold text-gray-500 mb-1">Page {index + 1}</div>
+                              {page ? (
+                                <p className="text-sm text-gray-800 line-clamp-4">{page.text}</p>
+                              ) : (
+                                <div className="space-y-2">
+                                  <Skeleton className="h-3 w-full" />
+                                  <Skeleton className="h-3 w-4/5" />
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   )}
                   
@@ -351,12 +717,17 @@ export default function CreatePage() {
                       <h3 className="text-2xl font-bold text-gray-900">Ready to Create?</h3>
                       <div className="bg-gray-100 rounded-xl p-6 space-y-4">
                         <div className="grid grid-cols-2 gap-4 text-sm text-gray-700">
-                          <div><strong>City:</strong> {city}</div>
+                          <div><strong>{journeyMode ? "Journey" : "City"}:</strong> {journeyMode ? journeyTitle(stops) : city}</div>
                           <div><strong>Child:</strong> {name} ({age})</div>
                           <div><strong>Level:</strong> {readingLevel}</div>
-                          <div><strong>Pages:</strong> {pages}</div>
+                          <div><strong>Pages:</strong> {journeyMode ? journeyPageCount : pages}</div>
                         </div>
                         {interests && <div className="text-gray-700"><strong>Interests:</strong> {interests}</div>}
+                        {seriesChoice !== "none" && (
+                          <div className="text-gray-700">
+                            <strong>Series:</strong> {continuedSeries ? continuedSeries.title : `${newSeriesTitle.trim() || `${name}'s Travels`} (new)`}
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
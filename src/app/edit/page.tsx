@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowDown, ArrowUp, BookOpen, Plus, Save, Trash2, Wand2 } from "lucide-react";
+import Link from "next/link";
+import type { Book } from "@/lib/supabase";
+import type { BookPage } from "@/lib/book-schema";
+
+// A page in the editor; sourceIndex is its position in the saved book, absent for new pages
+type EditorPage = BookPage & { key: string; sourceIndex?: number };
+
+type Draft = {
+  title: string;
+  subtitle: string;
+  dedication: string;
+  glossary: Array<{ key: string; term: string; definition: string }>;
+  pages: EditorPage[];
+};
+
+let nextKey = 0;
+const newKey = () => `k${nextKey++}`;
+
+function draftFromBook(book: Book): Draft {
+  return {
+    title: book.title,
+    subtitle: book.subtitle,
+    dedication: book.dedication,
+    glossary: Object.entries(book.glossary || {}).map(([term, definition]) => ({ key: newKey(), term, definition })),
+    pages: book.pages.map((page, index) => ({ ...page, key: newKey(), sourceIndex: index })),
+  };
+}
+
+function EditPageContent() {
+  const [book, setBook] = useState<Book | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [guidance, setGuidance] = useState<Record<string, string>>({});
+  const searchParams = useSearchParams();
+  const bookId = searchParams.get("id");
+
+  useEffect(() => {
+    async function loadBook() {
+      if (!bookId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const res = await fetch(`/api/books/${bookId}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to load story");
+        setBook(data.book);
+        setDraft(draftFromBook(data.book));
+      } catch (err: unknown) {
+        console.error("Error loading book:", err);
+        toast.error("Failed to load story", { description: err instanceof Error ? err.message : "Unknown error" });
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadBook();
+  }, [bookId]);
+
+  function update(patch: Partial<Draft>) {
+    setDraft(prev => prev && { ...prev, ...patch });
+    setDirty(true);
+  }
+
+  function updatePage(index: number, patch: Partial<BookPage>) {
+    if (!draft) return;
+    update({ pages: draft.pages.map((page, i) => i === index ? { ...page, ...patch } : page) });
+  }
+
+  function movePage(index: number, offset: number) {
+    if (!draft) return;
+    const target = index + offset;
+    if (target < 0 || target >= draft.pages.length) return;
+    const pages = [...draft.pages];
+    [pages[index], pages[target]] = [pages[target], pages[index]];
+    update({ pages });
+  }
+
+  function insertPageAfter(index: number) {
+    if (!draft) return;
+    const pages = [...draft.pages];
+    // On a journey the new page stays in the same city as the page before it
+    pages.splice(index + 1, 0, { key: newKey(), text: "", prompt: "", ...(pages[index].city && { city: pages[index].city }) });
+    update({ pages });
+  }
+
+  function deletePage(index: number) {
+    if (!draft || draft.pages.length <= 1) return;
+    update({ pages: draft.pages.filter((_, i) => i !== index) });
+  }
+
+  function updateGlossary(index: number, patch: { term?: string; definition?: string }) {
+    if (!draft) return;
+    update({ glossary: draft.glossary.map((entry, i) => i === index ? { ...entry, ...patch } : entry) });
+  }
+
+  async function regeneratePage(index: number) {
+    const page = draft?.pages[index];
+    if (!book || !page || page.sourceIndex === undefined) return;
+
+    setRegenerating(page.key);
+    try {
+      const res = await fetch(`/api/books/${book.id}/pages/${page.sourceIndex}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guidance: guidance[page.key]?.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to regenerate page");
+      // The illustration and its history stay with the page; re-illustrate it from the reader
+      updatePage(index, { text: data.page.text, activity: data.page.activity, prompt: data.page.prompt });
+      setGuidance(prev => ({ ...prev, [page.key]: "" }));
+      toast.success(`Page ${index + 1} rewritten`, { description: "Review it, then save your changes." });
+    } catch (e: unknown) {
+      toast.error("Could not regenerate page", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setRegenerating(null);
+    }
+  }
+
+  async function save() {
+    if (!book || !draft) return;
+    const emptyPage = draft.pages.findIndex(page => !page.text.trim());
+    if (emptyPage !== -1) {
+      toast.error(`Page ${emptyPage + 1} has no text`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/books/${book.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: draft.title,
+          subtitle: draft.subtitle,
+          dedication: draft.dedication,
+          glossary: Object.fromEntries(
+            draft.glossary
+              .filter(entry => entry.term.trim())
+              .map(entry => [entry.term.trim(), entry.definition.trim()])
+          ),
+          pages: draft.pages.map(({ key, ...page }) => ({ // eslint-disable-line @typescript-eslint/no-unused-vars
+            ...page,
+            activity: page.activity?.trim() || undefined,
+            prompt: page.prompt?.trim() || undefined,
+          })),
+          expectedUpdatedAt: book.updated_at,
+        }),
+      });
+      const data = await res.json();
+      if (res.status === 409) {
+        toast.error("This story was changed elsewhere", { description: "Reload the page to get the latest version before editing." });
+        return;
+      }
+      if (!res.ok) throw new Error(data?.error || "Failed to save story");
+
+      setBook(data.book);
+      setDraft(draftFromBook(data.book));
+      setDirty(false);
+      toast.success("Story saved");
+    } catch (e: unknown) {
+      toast.error("Save failed", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-white/90">Loading story...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!book || !draft) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-white/90">Story not found</p>
+          <Button asChild>
+            <Link href="/">Back to Library</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="border-b border-border/50 flex-shrink-0">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="flex items-center gap-2 text-2xl font-bold text-white">
+              <BookOpen className="w-8 h-8" />
+              🚀 StoryVoyage
+            </Link>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" asChild>
+                <Link href="/">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Library
+                </Link>
+              </Button>
+              <Button onClick={save} disabled={saving || !dirty}>
+                {saving ? (
+                  <div className="w-4 h-4 mr-2 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Changes
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 container mx-auto px-3 sm:px-6 py-3 sm:py-6 overflow-y-auto">
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+          {/* Book details */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl sm:text-2xl font-bold text-gray-900">Story Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="title" className="text-base font-medium text-gray-900">Title</Label>
+                <Input id="title" value={draft.title} onChange={e => update({ title: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subtitle" className="text-base font-medium text-gray-900">Subtitle</Label>
+                <Input id="subtitle" value={draft.subtitle} onChange={e => update({ subtitle: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dedication" className="text-base font-medium text-gray-900">Dedication</Label>
+                <Textarea id="dedication" value={draft.dedication} onChange={e => update({ dedication: e.target.value })} rows={2} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Pages */}
+          {draft.pages.map((page, index) => (
+            <Card key={page.key}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg font-semibold text-gray-900">Page {index + 1}</CardTitle>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => movePage(index, -1)} disabled={index === 0} title="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => movePage(index, 1)} disabled={index === draft.pages.length - 1} title="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deletePage(index)} disabled={draft.pages.length <= 1} title="Delete page">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-4">
+                  {page.imageUrl && (
+                    <div className="w-24 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-gray-200">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={page.imageUrl} alt={page.altText || `Illustration for page ${index + 1}`} className="w-full h-full object-cover" />
+                    </div>
+                  )}
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor={`text-${page.key}`} className="text-sm font-medium text-gray-900">Text</Label>
+                    <Textarea
+                      id={`text-${page.key}`}
+                      value={page.text}
+                      onChange={e => updatePage(index, { text: e.target.value })}
+                      rows={5}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`activity-${page.key}`} className="text-sm font-medium text-gray-900">Activity</Label>
+                  <Input
+                    id={`activity-${page.key}`}
+                    value={page.activity || ""}
+                    onChange={e => updatePage(index, { activity: e.target.value })}
+                    placeholder="Optional interactive prompt for the child"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`prompt-${page.key}`} className="text-sm font-medium text-gray-900">Illustration Prompt</Label>
+                  <Textarea
+                    id={`prompt-${page.key}`}
+                    value={page.prompt || ""}
+                    onChange={e => updatePage(index, { prompt: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={guidance[page.key] || ""}
+                    onChange={e => setGuidance(prev => ({ ...prev, [page.key]: e.target.value }))}
+                    placeholder='Optional guidance, e.g. "more about the food market"'
+                    className="flex-1"
+                    disabled={page.sourceIndex === undefined}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => regeneratePage(index)}
+                    disabled={page.sourceIndex === undefined || regenerating !== null}
+                    title={page.sourceIndex === undefined ? "Save the story before rewriting a new page" : "Rewrite this page with AI"}
+                  >
+                    {regenerating === page.key ? (
+                      <div className="w-4 h-4 mr-2 animate-spin rounded-full border-2 border-gray-500 border-t-transparent" />
+                    ) : (
+                      <Wand2 className="w-4 h-4 mr-2" />
+                    )}
+                    Rewrite Page
+                  </Button>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => insertPageAfter(index)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Insert Page After
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+
+          {/* Glossary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl sm:text-2xl font-bold text-gray-900">Glossary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {draft.glossary.map((entry, index) => (
+                <div key={entry.key} className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={entry.term}
+                    onChange={e => updateGlossary(index, { term: e.target.value })}
+                    placeholder="Word"
+                    className="sm:w-48"
+                  />
+                  <Input
+                    value={entry.definition}
+                    onChange={e => updateGlossary(index, { definition: e.target.value })}
+                    placeholder="Kid-friendly definition"
+                    className="flex-1"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ glossary: draft.glossary.filter((_, i) => i !== index) })}
+                    title="Remove word"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ glossary: [...draft.glossary, { key: newKey(), term: "", definition: "" }] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Word
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function EditPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-white/90">Loading story...</p>
+        </div>
+      </div>
+    }>
+      <EditPageContent />
+    </Suspense>
+  );
+}
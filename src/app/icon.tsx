@@ -0,0 +1,37 @@
+import { ImageResponse } from "next/og";
+
+// App icon in the sizes the web app manifest lists: an open book on the library's
+// blue-to-purple badge. Drawn inside the middle 80% so it also works as a maskable icon.
+
+export function generateImageMetadata() {
+  return [192, 512].map(size => ({
+    id: String(size),
+    size: { width: size, height: size },
+    contentType: "image/png",
+  }));
+}
+
+export default function Icon({ id }: { id: string }) {
+  const size = Number(id);
+  const page = { width: size * 0.24, height: size * 0.34, background: "white" };
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: size * 0.02,
+          background: "linear-gradient(135deg, #3b82f6, #9333ea)",
+        }}
+      >
+        <div style={{ ...page, borderRadius: `${size * 0.04}px ${size * 0.01}px ${size * 0.01}px ${size * 0.04}px` }} />
+        <div style={{ ...page, borderRadius: `${size * 0.01}px ${size * 0.04}px ${size * 0.04}px ${size * 0.01}px` }} />
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
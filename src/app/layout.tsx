@@ -1,7 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
+import { ServiceWorkerRegistration } from "@/components/service-worker";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -18,6 +19,12 @@ export const metadata: Metadata = {
   description: "Create personalized, illustrated stories for children with AI-powered illustrations and educational features. Perfect for bedtime stories and learning adventures.",
   keywords: ["children stories", "AI stories", "bedtime stories", "educational stories", "kids books", "story creation"],
   authors: [{ name: "StoryVoyage" }],
+  applicationName: "StoryVoyage",
+  appleWebApp: {
+    capable: true,
+    title: "StoryVoyage",
+    statusBarStyle: "black-translucent",
+  },
   openGraph: {
     title: "StoryVoyage - Create Magical Stories for Kids",
     description: "Create personalized, illustrated stories for children with AI-powered illustrations and educational features.",
@@ -30,6 +37,10 @@ export const metadata: Metadata = {
   },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#0f172a",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -42,6 +53,7 @@ export default function RootLayout({
       >
         {children}
         <Toaster richColors />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
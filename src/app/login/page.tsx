@@ -0,0 +1,131 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { BookOpen, ArrowLeft, LogIn } from "lucide-react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+function LoginContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const next = searchParams.get("next") || "/";
+  const [mode, setMode] = useState<"signIn" | "signUp">("signIn");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (mode === "signUp") {
+        const { data, error } = await supabase.auth.signUp({ email, password });
+        if (error) throw error;
+        if (!data.session) {
+          // Projects with email confirmation on only sign the user in after they confirm
+          toast.success("Check your email to confirm your account");
+          setMode("signIn");
+          return;
+        }
+      } else {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      }
+      toast.success("Signed in");
+      router.push(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not sign in");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
+      <div className="border-b border-border/50">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <Link href="/" className="flex items-center gap-2 text-2xl font-bold text-white">
+              <BookOpen className="w-8 h-8" />
+              🚀 StoryVoyage
+            </Link>
+            <Button variant="ghost" asChild>
+              <Link href="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Library
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-4 py-10">
+        <Card className="coloring-book-page w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-bold text-gray-900">
+              {mode === "signIn" ? "Welcome back" : "Create your account"}
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Your stories are private to your account; share a book with a link whenever you like.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={submit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-gray-900">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-gray-900">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+                  minLength={6}
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="kid-button w-full" disabled={isSubmitting}>
+                <LogIn className="w-4 h-4 mr-2" />
+                {isSubmitting ? "Please wait..." : mode === "signIn" ? "Sign In" : "Sign Up"}
+              </Button>
+            </form>
+            <p className="mt-4 text-center text-sm text-gray-600">
+              {mode === "signIn" ? "New to StoryVoyage?" : "Already have an account?"}{" "}
+              <button
+                type="button"
+                className="font-medium text-blue-600 hover:underline"
+                onClick={() => setMode(mode === "signIn" ? "signUp" : "signIn")}
+              >
+                {mode === "signIn" ? "Create an account" : "Sign in"}
+              </button>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <LoginContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+
+// Lets families install StoryVoyage; books downloaded for offline reading open from the
+// home screen without a connection (see public/sw.js)
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "StoryVoyage",
+    short_name: "StoryVoyage",
+    description: "Personalized, illustrated travel stories for kids, readable offline.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    orientation: "any",
+    background_color: "#0f172a",
+    theme_color: "#0f172a",
+    categories: ["books", "education", "kids"],
+    icons: [
+      { src: "/icon/192", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/icon/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -1,13 +1,36 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { SidebarProvider } from "@/components/ui/sidebar";
+import { Input } from "@/components/ui/input";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { toast } from "sonner";
-import { BookOpen, Sparkles, Share2, Wand2, Library, Maximize, X } from "lucide-react";
+import { BookOpen, Sparkles, Share2, Wand2, Library, Maximize, X, History, Pencil, Route, LogIn, LogOut, Printer, Download, Upload, HardDriveDownload, CheckCircle, BookmarkPlus } from "lucide-react";
 import Link from "next/link";
 import { supabase, Book } from "@/lib/supabase";
+import { JourneyDetails, JourneyRoute } from "@/components/journey-route";
+import { ReadAloudControls, ReadAloudText, useReadAloud } from "@/components/read-aloud";
+import { useSessionUser } from "@/hooks/use-session";
+import { useLibrarySync } from "@/hooks/use-library-sync";
+import { BookSyncBadge, LibrarySyncIndicator } from "@/components/sync-status";
+import { OfflineDownloadsDialog, useOfflineBooks } from "@/components/offline-downloads";
+import { LibrarySearchBar, useLibrarySearch } from "@/components/library-search";
+import { CollectionsSidebar, ShelfPickerDialog, ShelfView, useCollections } from "@/components/collections-sidebar";
+import { sortBooks } from "@/lib/book-search";
+import type { Series } from "@/lib/series";
+
+interface IllustrationVersion {
+  id: string;
+  image_url: string;
+  parent_id: string | null;
+  prompt: string | null;
+  edit_instruction: string | null;
+  style: string | null;
+  model: string | null;
+  seed: number | null;
+  created_at: string;
+}
 
 // Content type interfaces
 interface EducationalContent {
@@ -125,9 +148,6 @@ interface ReadabilityContent {
 }
 
 
-const STORAGE_KEY = "nano_travel_books_v1";
-
-
 function renderColorCodedText(text: string, colorCoding: Record<string, string>) {
   // Enhanced word classification for better color coding
   const words = text.split(/(\s+)/);
@@ -243,88 +263,94 @@ export default function Home() {
   const [readabilityProgress, setReadabilityProgress] = useState<{ [key: string]: boolean }>({});
   const [readabilityChunks, setReadabilityChunks] = useState<{ [key: string]: any }>({}); // eslint-disable-line @typescript-eslint/no-explicit-any
   const [isGeneratingShare, setIsGeneratingShare] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const [isImportingBundles, setIsImportingBundles] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [showOfflineBooks, setShowOfflineBooks] = useState(false);
+  const [showShelfPicker, setShowShelfPicker] = useState(false);
+  const offlineBooks = useOfflineBooks();
   const [consistencyMode] = useState(true);
   const [showShareModal, setShowShareModal] = useState(false);
   const [shareContent, setShareContent] = useState("");
+  // Token of the link the share modal's QR code points at
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
+  const [illustrationVersions, setIllustrationVersions] = useState<IllustrationVersion[]>([]);
+  const [isLoadingVersions, setIsLoadingVersions] = useState(false);
+  const [editInstruction, setEditInstruction] = useState("");
+  const [isEditingImage, setIsEditingImage] = useState(false);
+  const [showJourney, setShowJourney] = useState(false);
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const user = useSessionUser();
+  const userId = user?.id;
 
-  // Load books from Supabase
+  // Series titles for grouping the library; books without one are listed on their own
   useEffect(() => {
-    async function loadBooks() {
-      try {
-        const { data, error } = await supabase
-          .from('books')
-          .select('*')
-          .order('created_at', { ascending: false })
-          .limit(50);
-        
-        if (error) {
-          console.warn('Supabase error, loading from localStorage:', error);
-          // Fallback to localStorage
-          try {
-            const raw = localStorage.getItem(STORAGE_KEY);
-            if (raw) {
-              const parsed = JSON.parse(raw);
-              setBooks(parsed.books || []);
-            }
-          } catch (localError) {
-            console.error('localStorage error:', localError);
-          }
-          setLoading(false);
-          return;
-        }
+    if (user === undefined) return;
+    fetch('/api/series')
+      .then(res => (res.ok ? res.json() : { series: [] }))
+      .then(data => setSeriesList(data.series || []))
+      .catch(error => console.warn('Failed to load series:', error));
+  }, [user, userId]);
 
-        // Convert database structure to expected format
-        const formattedBooks = data.map(book => ({
-          id: book.id,
-          title: book.title,
-          subtitle: book.subtitle,
-          city: book.city,
-          dedication: book.dedication,
-          readingLevel: book.reading_level,
-          narratorPersona: book.narrator_persona,
-          child: {
-            name: book.child_name,
-            age: book.child_age,
-            interests: book.child_interests || []
-          },
-          pages: book.pages || [],
-          glossary: book.glossary || {},
-          funFacts: book.fun_facts || []
-        }));
+  // Illustrate in the child's preferred style when the book is linked to a profile
+  const activeChildId = active?.childId;
+  useEffect(() => {
+    if (!activeChildId) return;
+    fetch(`/api/children/${activeChildId}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data?.child?.preferredStyle) setIllustrationStyle(data.child.preferredStyle); })
+      .catch(error => console.warn('Failed to load child profile:', error));
+  }, [activeChildId]);
 
-        setBooks(formattedBooks);
-      } catch (error) {
-        console.error('Error loading books:', error);
-        // Fallback to localStorage
-        try {
-          const raw = localStorage.getItem(STORAGE_KEY);
-          if (raw) {
-            const parsed = JSON.parse(raw);
-            setBooks(parsed.books || []);
-          }
-        } catch (localError) {
-          console.error('localStorage error:', localError);
-        }
-        toast.error('Failed to load books from database, using local storage');
-      } finally {
-        setLoading(false);
-      }
-    }
-    
-    loadBooks();
-  }, []);
+  // The library lives on this device and syncs with Supabase; it reloads when the user
+  // signs in or out, and books made offline swap their temp_ id for the saved one
+  const librarySync = useLibrarySync(user, {
+    onBooks: library => {
+      setBooks(library);
+      setLoading(false);
+    },
+    onPromote: (tempId, saved) => {
+      setActive(prev => (prev?.id === tempId ? saved : prev));
+      setActiveId(prev => (prev === tempId ? saved.id : prev));
+    },
+  });
+  const { saveBooks } = librarySync;
+  const librarySearch = useLibrarySearch(books, { remote: !!user && librarySync.online });
+  // Shelves are kept in the account, so only signed-in users have them
+  const shelves = useCollections(!!user);
 
-  // Save books to localStorage when they change
+  // Record changes to books on this device, to be uploaded by the sync
   useEffect(() => {
-    try {
-      const payload = { books };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
-    } catch (error) {
-      console.warn('Failed to save to localStorage:', error);
-    }
-  }, [books]);
+    saveBooks(books);
+  }, [books, saveBooks]);
+
+  // Books that were never saved have a temp_ id and no versions to keep
+  function pageRef(idx: number) {
+    return active && !active.id.startsWith('temp_') ? { bookId: active.id, pageIndex: idx } : {};
+  }
 
+  function showPageImage(idx: number, url: string) {
+    if (!active) return;
+    const updatedPages = active.pages.map((p, i) => i === idx ? { ...p, imageUrl: url } : p);
+    setBooks(prev => prev.map(b => {
+      if (b.id !== active.id) return b;
+      return { ...b, pages: updatedPages };
+    }));
+    setActive({ ...active, pages: updatedPages });
+  }
 
+  async function savePageImage(idx: number, url: string) {
+    if (!active) return;
+    const updatedPages = active.pages.map((p, i) => i === idx ? { ...p, imageUrl: url } : p);
+    const { error } = await supabase
+      .from('books')
+      .update({ pages: updatedPages })
+      .eq('id', active.id);
+    
+    if (error) throw error;
+    showPageImage(idx, url);
+  }
 
   async function illustrateCurrentPage(style: string = "realistic", _consistencyMode: boolean = true) { // eslint-disable-line @typescript-eslint/no-unused-vars
     if (!active || !active.pages[pageIdx]?.prompt) return;
@@ -339,28 +365,16 @@ export default function Home() {
           style,
           consistencyMode: true, // Always enable character consistency
           characterDescription: active.child?.name ? `A ${active.child.age}-year-old child named ${active.child.name}` : undefined,
+          characterId: active.characterId ?? undefined,
           previousImageUrl: pageIdx > 0 ? active.pages[pageIdx - 1]?.imageUrl : undefined,
-          editMode: pageIdx > 0
+          editMode: pageIdx > 0,
+          ...pageRef(pageIdx)
         }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data?.error || "Failed to illustrate");
-      const url: string = data.imageUrl;
-      
-      // Update in Supabase
-      const updatedPages = active.pages.map((p, i) => i === pageIdx ? { ...p, imageUrl: url } : p);
-      const { error } = await supabase
-        .from('books')
-        .update({ pages: updatedPages })
-        .eq('id', active.id);
       
-      if (error) throw error;
-      
-      setBooks(prev => prev.map(b => {
-        if (b.id !== active.id) return b;
-        return { ...b, pages: updatedPages };
-      }));
-      setActive({ ...active, pages: updatedPages });
+      await savePageImage(pageIdx, data.imageUrl);
       toast.success("Advanced illustration added");
     } catch (e: unknown) {
       toast.error("Illustration failed", { description: e instanceof Error ? e.message : "Unknown error" });
@@ -369,6 +383,79 @@ export default function Home() {
     }
   }
 
+  async function editCurrentIllustration() {
+    const page = active?.pages[pageIdx];
+    if (!active || !page?.imageUrl || editInstruction.trim().length < 3) return;
+    
+    setIsEditingImage(true);
+    try {
+      const res = await fetch('/api/advanced-illustrate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt: page.prompt || page.text,
+          style: illustrationStyle,
+          characterId: active.characterId ?? undefined,
+          previousImageUrl: page.imageUrl,
+          editMode: true,
+          editInstruction: editInstruction.trim(),
+          ...pageRef(pageIdx)
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to edit illustration");
+      
+      await savePageImage(pageIdx, data.imageUrl);
+      setEditInstruction("");
+      await loadIllustrationVersions();
+      toast.success("Illustration edited");
+    } catch (e: unknown) {
+      toast.error("Edit failed", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setIsEditingImage(false);
+    }
+  }
+
+  async function loadIllustrationVersions() {
+    if (!active) return;
+    
+    setShowVersions(true);
+    if (active.id.startsWith('temp_')) {
+      setIllustrationVersions([]);
+      return;
+    }
+    setIsLoadingVersions(true);
+    try {
+      const res = await fetch(`/api/books/${active.id}/pages/${pageIdx}/illustrations`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to load gallery");
+      setIllustrationVersions(data.versions);
+    } catch (e: unknown) {
+      toast.error("Could not load the gallery", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setIsLoadingVersions(false);
+    }
+  }
+
+  async function restoreIllustrationVersion(version: IllustrationVersion) {
+    if (!active) return;
+    
+    try {
+      const res = await fetch(`/api/books/${active.id}/pages/${pageIdx}/illustrations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId: version.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to update page illustration");
+      
+      showPageImage(pageIdx, data.imageUrl);
+      toast.success("Page illustration updated");
+    } catch (e: unknown) {
+      toast.error("Could not use this image", { description: e instanceof Error ? e.message : "Unknown error" });
+    }
+  }
+
   async function loadEducationalFeatures() {
     if (!active || !active.pages[pageIdx]) return;
     
@@ -450,8 +537,12 @@ export default function Home() {
       const data = await res.json();
       if (!res.ok) throw new Error(data?.error || "Failed to generate share content");
       
-      // Generate shareable link
-      const shareableLink = `${window.location.origin}/read?id=${active.id}`;
+      // Books are private, so readers get a share link rather than the book's id
+      const linkRes = await fetch(`/api/books/${active.id}/share`, { method: 'POST' });
+      const linkData = await linkRes.json();
+      if (!linkRes.ok) throw new Error(linkData?.error || "Failed to create share link");
+      setShareToken(linkData.link.token);
+      const shareableLink = `${window.location.origin}${linkData.url}`;
       
       // Combine share text and link
       const shareContent = `${data.socialText}\n\nRead the full story: ${shareableLink}`;
@@ -484,6 +575,74 @@ export default function Home() {
     }
   }
 
+  // Downloads the open book as a .storyvoyage bundle, with any educational content loaded for it
+  async function exportBundle() {
+    if (!active) return;
+
+    setIsExportingBundle(true);
+    try {
+      const local = active.id.startsWith('temp_');
+      const res = await fetch('/api/bundles/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(local ? { book: active } : { bookId: active.id }),
+          educational: educationalContent,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Failed to export book");
+      }
+
+      const blob = await res.blob();
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'story.storyvoyage';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success("Book exported");
+    } catch (e: unknown) {
+      toast.error("Failed to export book", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setIsExportingBundle(false);
+    }
+  }
+
+  // Adds books from .storyvoyage bundles; they are saved to the account when signed in,
+  // otherwise they join the library on this device
+  async function importBundles(files: FileList | null) {
+    if (!files || files.length === 0) return;
+
+    setIsImportingBundles(true);
+    const imported: Book[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const form = new FormData();
+        form.append('file', file);
+        const res = await fetch('/api/bundles/import', { method: 'POST', body: form });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to import book");
+        if (data.shelf) {
+          imported.push(...data.books.map((result: { book: Book }) => result.book));
+          if (data.collection) await shelves.refresh();
+        } else {
+          imported.push(data.book);
+        }
+      } catch (e: unknown) {
+        toast.error(`Could not import ${file.name}`, { description: e instanceof Error ? e.message : "Unknown error" });
+      }
+    }
+    if (imported.length > 0) {
+      setBooks(prev => [...imported, ...prev]);
+      toast.success(imported.length === 1 ? `Imported "${imported[0].title}"` : `Imported ${imported.length} books`);
+    }
+    setIsImportingBundles(false);
+    if (bundleInputRef.current) bundleInputRef.current.value = '';
+  }
+
   // Function to copy text from modal
   async function copyFromModal() {
     try {
@@ -617,6 +776,7 @@ export default function Home() {
           bookId: active.id,
           pages: pagesWithPrompts,
           characterDescription: active.child?.name ? `A ${active.child.age}-year-old child named ${active.child.name}` : undefined,
+          characterId: active.characterId ?? undefined,
           style: illustrationStyle,
           consistencyMode: true, // Always enable character consistency
           fusionMode: true,
@@ -760,6 +920,59 @@ export default function Home() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [active, pageIdx, isFullscreen]);
 
+  const readAloud = useReadAloud(active, pageIdx, setPageIdx);
+
+  // Library shelves: each series' books in reading order, then everything else
+  const seriesShelves = seriesList
+    .map(series => ({
+      series,
+      books: books
+        .filter(book => book.seriesId === series.id)
+        .sort((a, b) => (a.seriesPosition ?? 0) - (b.seriesPosition ?? 0)),
+    }))
+    .filter(shelf => shelf.books.length > 0);
+  const standaloneBooks = sortBooks(
+    books.filter(book => !seriesShelves.some(shelf => shelf.series.id === book.seriesId)),
+    librarySearch.filters.sort
+  );
+
+  const renderBookCard = (book: Book) => (
+    <Card 
+      key={book.id} 
+      className={`cursor-pointer transition-all duration-200 hover:shadow-lg hover:scale-105 bounce-in crayon-border ${
+        activeId === book.id ? 'ring-2 ring-primary/50 bg-primary/5 coloring-book-page' : 'hover:bg-muted/50 coloring-book-page'
+      }`}
+      onClick={() => {
+        setActive(book);
+        setActiveId(book.id);
+        setPageIdx(0); // Reset to first page
+      }}
+    >
+      <CardContent className="p-4 sm:p-6">
+        <div className="space-y-3">
+          {book.seriesId && book.seriesPosition && (
+            <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-white/20 text-white">Book {book.seriesPosition}</span>
+          )}
+          <h3 className="font-bold text-lg sm:text-xl text-white line-clamp-2 leading-tight">{book.title}</h3>
+          <p className="text-white/80 text-sm sm:text-base line-clamp-3 leading-relaxed">{book.subtitle}</p>
+          <div className="flex items-center justify-between text-xs sm:text-sm text-white/70">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 bg-blue-400 rounded-full"></span>
+              {book.city}
+            </span>
+            <span>{book.pages.length} pages</span>
+          </div>
+          <div className="flex items-center justify-between text-xs text-white/60">
+            <span>Reading Level: {book.readingLevel}</span>
+            <span className="flex items-center gap-2">
+              Age {book.child.age}
+              <BookSyncBadge state={librarySync.syncState[book.id]} />
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
 
   if (loading) {
     return (
@@ -798,6 +1011,7 @@ export default function Home() {
               <div className="text-white/70 text-xs sm:text-sm hidden sm:block">
                 Page {pageIdx + 1} of {active.pages.length}
               </div>
+              <ReadAloudControls readAloud={readAloud} />
               <Button
                 variant="ghost"
                 size="sm"
@@ -873,7 +1087,7 @@ export default function Home() {
                             Page {index + 1}
                           </h3>
                           <p className="text-gray-600 leading-relaxed text-sm sm:text-base">
-                            {page.text}
+                            {isActive ? <ReadAloudText text={page.text} pageIndex={index} readAloud={readAloud} /> : page.text}
                           </p>
                           {page.activity && (
                             <div className="mt-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl p-3 sm:p-4">
@@ -960,12 +1174,14 @@ export default function Home() {
   return (
     <div className="w-full h-screen overflow-hidden">
       <SidebarProvider>
-        <div className="h-screen w-full bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
+        {user && !active && <CollectionsSidebar shelves={shelves} bookCount={books.length} />}
+        <div className="h-screen w-full min-w-0 bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col overflow-hidden">
           {/* Header - Only show when no story is active */}
           {!active && (
             <div className="border-b border-border/50 p-3 sm:p-6 w-full">
               <div className="flex items-center justify-between w-full">
                 <div className="flex items-center gap-2 sm:gap-4 min-w-0 flex-1">
+                  {user && <SidebarTrigger className="text-white hover:bg-white/20 flex-shrink-0" title="Shelves" />}
                   <div className="w-8 h-8 sm:w-12 sm:h-12 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center flex-shrink-0">
                     <Library className="w-4 h-4 sm:w-7 sm:h-7 text-white" />
                   </div>
@@ -975,6 +1191,66 @@ export default function Home() {
                   </div>
                 </div>
                 <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0">
+                  <LibrarySyncIndicator
+                    online={librarySync.online}
+                    syncing={librarySync.syncing}
+                    waiting={Object.values(librarySync.syncState).filter(state => state.status === 'pending' || state.status === 'error').length}
+                    onSync={librarySync.syncNow}
+                  />
+                  {offlineBooks.supported && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowOfflineBooks(true)}
+                      className="text-white hover:bg-white/20"
+                      title="Books downloaded for offline reading"
+                    >
+                      <HardDriveDownload className="w-4 h-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Offline</span>
+                    </Button>
+                  )}
+                  <input
+                    ref={bundleInputRef}
+                    type="file"
+                    accept=".storyvoyage,.zip"
+                    multiple
+                    className="hidden"
+                    onChange={e => importBundles(e.target.files)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => bundleInputRef.current?.click()}
+                    disabled={isImportingBundles}
+                    className="text-white hover:bg-white/20"
+                    title="Import .storyvoyage books"
+                  >
+                    {isImportingBundles ? (
+                      <div className="w-4 h-4 sm:mr-2 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                    ) : (
+                      <Upload className="w-4 h-4 sm:mr-2" />
+                    )}
+                    <span className="hidden sm:inline">Import</span>
+                  </Button>
+                  {user ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => supabase.auth.signOut()}
+                      className="text-white hover:bg-white/20"
+                      title={user.email}
+                    >
+                      <LogOut className="w-4 h-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Sign Out</span>
+                    </Button>
+                  ) : user === null && (
+                    <Button asChild variant="ghost" size="sm" className="text-white hover:bg-white/20">
+                      <Link href="/login">
+                        <LogIn className="w-4 h-4 sm:mr-2" />
+                        <span className="hidden sm:inline">Sign In</span>
+                      </Link>
+                    </Button>
+                  )}
                   <Button asChild size="sm" className="kid-button text-xs sm:text-base px-2 sm:px-4 py-2">
                     <Link href="/create">
                       <Wand2 className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
@@ -1006,7 +1282,13 @@ export default function Home() {
                   </Button>
                   <div className="min-w-0 flex-1">
                     <h1 className="text-lg sm:text-2xl font-bold text-white truncate">{active.title}</h1>
-                    <p className="text-white/70 text-sm truncate">{active.city}</p>
+                    {active.journey ? (
+                      <div className="mt-1">
+                        <JourneyRoute journey={active.journey} pages={active.pages} pageIndex={pageIdx} onSelectPage={setPageIdx} />
+                      </div>
+                    ) : (
+                      <p className="text-white/70 text-sm truncate">{active.city}</p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0">
@@ -1029,13 +1311,22 @@ export default function Home() {
                 </div>
                 <h2 className="text-2xl sm:text-4xl font-bold mb-4 sm:mb-6 text-white">No Stories Yet</h2>
                 <p className="text-white/80 text-base sm:text-xl mb-6 sm:mb-8 max-w-2xl mx-auto px-4">
-                  Create your first magical story and watch it come to life with beautiful illustrations.
+                  {user === null
+                    ? 'Sign in to see your stories. Your library is private to your account.'
+                    : 'Create your first magical story and watch it come to life with beautiful illustrations.'}
                 </p>
                 <Button asChild size="lg" className="kid-button text-sm sm:text-lg px-6 sm:px-8 py-3 sm:py-4">
-                  <Link href="/create">
-                    <Wand2 className="w-5 h-5 sm:w-6 sm:h-6 mr-2 sm:mr-3" />
-                    ✨ Create Your First Story
-                  </Link>
+                  {user === null ? (
+                    <Link href="/login">
+                      <LogIn className="w-5 h-5 sm:w-6 sm:h-6 mr-2 sm:mr-3" />
+                      Sign In
+                    </Link>
+                  ) : (
+                    <Link href="/create">
+                      <Wand2 className="w-5 h-5 sm:w-6 sm:h-6 mr-2 sm:mr-3" />
+                      ✨ Create Your First Story
+                    </Link>
+                  )}
                 </Button>
               </div>
             ) : !active ? (
@@ -1045,40 +1336,65 @@ export default function Home() {
                   <h2 className="text-2xl sm:text-3xl font-bold text-white">Your Story Library</h2>
                 </div>
                 
-                {/* Story Cards Grid */}
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 pb-4">
-                  {books.map((book: Book) => (
-                    <Card 
-                      key={book.id} 
-                      className={`cursor-pointer transition-all duration-200 hover:shadow-lg hover:scale-105 bounce-in crayon-border ${
-                        activeId === book.id ? 'ring-2 ring-primary/50 bg-primary/5 coloring-book-page' : 'hover:bg-muted/50 coloring-book-page'
-                      }`}
-                      onClick={() => {
-                        setActive(book);
-                        setActiveId(book.id);
-                        setPageIdx(0); // Reset to first page
-                      }}
-                    >
-                      <CardContent className="p-4 sm:p-6">
-                        <div className="space-y-3">
-                          <h3 className="font-bold text-lg sm:text-xl text-white line-clamp-2 leading-tight">{book.title}</h3>
-                          <p className="text-white/80 text-sm sm:text-base line-clamp-3 leading-relaxed">{book.subtitle}</p>
-                          <div className="flex items-center justify-between text-xs sm:text-sm text-white/70">
-                            <span className="flex items-center gap-1">
-                              <span className="w-2 h-2 bg-blue-400 rounded-full"></span>
-                              {book.city}
-                            </span>
-                            <span>{book.pages.length} pages</span>
-                          </div>
-                          <div className="flex items-center justify-between text-xs text-white/60">
-                            <span>Reading Level: {book.readingLevel}</span>
-                            <span>Age {book.child.age}</span>
-                          </div>
+                {!shelves.selected && <LibrarySearchBar search={librarySearch} books={books} />}
+                
+                {shelves.selected ? (
+                  <ShelfView shelves={shelves} shelf={shelves.selected} books={books} renderBookCard={renderBookCard} />
+                ) : librarySearch.active ? (
+                  <div>
+                    <p className="text-white/70 text-sm mb-3">
+                      {librarySearch.loading && librarySearch.results.length === 0
+                        ? 'Searching…'
+                        : `${librarySearch.total} ${librarySearch.total === 1 ? 'story' : 'stories'} found`}
+                    </p>
+                    {librarySearch.results.length === 0 && !librarySearch.loading ? (
+                      <div className="text-center py-10 text-white/80">
+                        <p className="mb-4">No stories match these filters.</p>
+                        <Button variant="ghost" onClick={librarySearch.reset} className="text-white hover:bg-white/20">
+                          Show all stories
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 pb-4">
+                        {librarySearch.results.map(renderBookCard)}
+                      </div>
+                    )}
+                    {librarySearch.hasMore && (
+                      <div className="flex justify-center mt-4">
+                        <Button
+                          variant="ghost"
+                          onClick={librarySearch.loadMore}
+                          disabled={librarySearch.loading}
+                          className="text-white hover:bg-white/20"
+                        >
+                          {librarySearch.loading ? 'Loading…' : 'Load more'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    {seriesShelves.map(({ series, books: seriesBooks }) => (
+                      <div key={series.id} className="mb-8">
+                        <div className="flex items-baseline gap-3 mb-3">
+                          <h3 className="text-xl sm:text-2xl font-bold text-white">📚 {series.title}</h3>
+                          <span className="text-white/60 text-sm">{seriesBooks.length} {seriesBooks.length === 1 ? 'book' : 'books'} · {series.childName}</span>
                         </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 pb-4">
+                          {seriesBooks.map(renderBookCard)}
+                        </div>
+                      </div>
+                    ))}
+                
+                    {/* Story Cards Grid */}
+                    {seriesShelves.length > 0 && standaloneBooks.length > 0 && (
+                      <h3 className="text-xl sm:text-2xl font-bold text-white mb-3">Standalone Stories</h3>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 pb-4">
+                      {standaloneBooks.map(renderBookCard)}
+                    </div>
+                  </>
+                )}
                 
                 {/* Help Text */}
                 <div className="mt-8 text-center">
@@ -1151,7 +1467,7 @@ export default function Home() {
                               <div className="flex-1 p-3 sm:p-4 flex flex-col justify-start overflow-y-auto min-h-0">
                                 <div className="prose prose-sm max-w-none text-center">
                                   <p className="text-sm sm:text-base leading-relaxed text-gray-900 font-medium whitespace-pre-wrap">
-                                    {page.text}
+                                    {isActive ? <ReadAloudText text={page.text} pageIndex={index} readAloud={readAloud} /> : page.text}
                                   </p>
                                 </div>
                                 
@@ -1225,6 +1541,44 @@ export default function Home() {
                         )}
                       </Button>
                       
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={loadIllustrationVersions}
+                        className="text-white/70 hover:text-white disabled:opacity-50 p-1.5"
+                        title="Illustration Gallery"
+                      >
+                        <History className="w-3 h-3" />
+                      </Button>
+                      
+                      {active.journey && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowJourney(true)}
+                          className="text-white/70 hover:text-white p-1.5"
+                          title="Journey Map"
+                        >
+                          <Route className="w-3 h-3" />
+                        </Button>
+                      )}
+                      
+                      {!active.id.startsWith('temp_') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          asChild
+                          className="text-white/70 hover:text-white p-1.5"
+                          title="Edit Story"
+                        >
+                          <Link href={`/edit?id=${active.id}`}>
+                            <Pencil className="w-3 h-3" />
+                          </Link>
+                        </Button>
+                      )}
+                      
+                      <ReadAloudControls readAloud={readAloud} compact />
+                      
                       <Button
                         variant="ghost"
                         size="sm"
@@ -1270,6 +1624,80 @@ export default function Home() {
                         )}
                       </Button>
                       
+                      {!active.id.startsWith('temp_') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          asChild
+                          className="text-white/70 hover:text-white p-1.5"
+                          title="Download Print-Ready PDF"
+                        >
+                          <a href={`/api/books/${active.id}/export.pdf?bleed=true&cropMarks=true`} download>
+                            <Printer className="w-3 h-3" />
+                          </a>
+                        </Button>
+                      )}
+                      
+                      {!active.id.startsWith('temp_') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          asChild
+                          className="text-white/70 hover:text-white p-1.5"
+                          title="Download EPUB"
+                        >
+                          <a href={`/api/books/${active.id}/export.epub`} download>
+                            <BookOpen className="w-3 h-3" />
+                          </a>
+                        </Button>
+                      )}
+                      
+                      {offlineBooks.supported && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => offlineBooks.isDownloaded(active.id) ? offlineBooks.remove(active.id) : offlineBooks.download(active)}
+                          disabled={!!offlineBooks.downloading[active.id]}
+                          className="text-white/70 hover:text-white disabled:opacity-50 p-1.5"
+                          title={offlineBooks.isDownloaded(active.id) ? "Downloaded for offline reading (click to remove)" : "Download for Offline Reading"}
+                        >
+                          {offlineBooks.downloading[active.id] ? (
+                            <div className="w-3 h-3 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                          ) : offlineBooks.isDownloaded(active.id) ? (
+                            <CheckCircle className="w-3 h-3 text-green-400" />
+                          ) : (
+                            <HardDriveDownload className="w-3 h-3" />
+                          )}
+                        </Button>
+                      )}
+                      
+                      {user && !active.id.startsWith('temp_') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowShelfPicker(true)}
+                          className="text-white/70 hover:text-white disabled:opacity-50 p-1.5"
+                          title="Put on a Shelf"
+                        >
+                          <BookmarkPlus className="w-3 h-3" />
+                        </Button>
+                      )}
+                      
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={exportBundle}
+                        disabled={isExportingBundle}
+                        className="text-white/70 hover:text-white disabled:opacity-50 p-1.5"
+                        title="Export .storyvoyage Backup"
+                      >
+                        {isExportingBundle ? (
+                          <div className="w-3 h-3 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                        ) : (
+                          <Download className="w-3 h-3" />
+                        )}
+                      </Button>
+                      
                       <Button
                         variant="ghost"
                         size="sm"
@@ -1963,7 +2391,116 @@ export default function Home() {
           </div>
         )}
         
+        {/* Illustration Gallery Modal */}
+        {showVersions && active && (
+          <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-2 sm:p-4">
+            <div className="bg-white rounded-xl max-w-4xl max-h-[90vh] sm:max-h-[80vh] overflow-y-auto p-4 sm:p-6 w-full">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Page {pageIdx + 1} Gallery</h2>
+                <Button
+                  variant="ghost"
+                  onClick={() => setShowVersions(false)}
+                  className="text-gray-500 hover:text-gray-700 p-2"
+                >
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
+              
+              {/* Edit the current illustration */}
+              {active.pages[pageIdx]?.imageUrl ? (
+                <div className="flex flex-col sm:flex-row gap-2 mb-6">
+                  <Input
+                    value={editInstruction}
+                    onChange={(e) => setEditInstruction(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') editCurrentIllustration(); }}
+                    placeholder='Describe a change, e.g. "make it nighttime" or "add a red umbrella"'
+                    className="flex-1 text-gray-900"
+                    disabled={isEditingImage}
+                  />
+                  <Button
+                    onClick={editCurrentIllustration}
+                    disabled={isEditingImage || editInstruction.trim().length < 3}
+                  >
+                    {isEditingImage ? (
+                      <div className="w-4 h-4 mr-2 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                    ) : (
+                      <Wand2 className="w-4 h-4 mr-2" />
+                    )}
+                    Edit Illustration
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600 mb-6">Generate an illustration for this page before editing it.</p>
+              )}
+              
+              {isLoadingVersions ? (
+                <div className="flex items-center gap-2 text-gray-600">
+                  <div className="w-4 h-4 border-2 border-gray-500 border-t-transparent rounded-full animate-spin"></div>
+                  <span>Loading versions...</span>
+                </div>
+              ) : illustrationVersions.length === 0 ? (
+                <p className="text-sm text-gray-500">No illustrations recorded for this page yet.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {[...illustrationVersions].reverse().map((version) => {
+                    const isCurrent = version.image_url === active.pages[pageIdx]?.imageUrl;
+                    return (
+                      <div
+                        key={version.id}
+                        className={`rounded-lg border overflow-hidden ${isCurrent ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'}`}
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={version.image_url} alt={version.edit_instruction || 'Illustration version'} className="w-full aspect-square object-cover" />
+                        <div className="p-2 space-y-2">
+                          <p className="text-xs text-gray-700 line-clamp-2">
+                            {version.edit_instruction ? `Edit: ${version.edit_instruction}` : version.prompt ? 'Generated' : 'Original'}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {[version.style, version.model, version.seed !== null && `seed ${version.seed}`].filter(Boolean).join(' · ')}
+                          </p>
+                          <p className="text-xs text-gray-400">{new Date(version.created_at).toLocaleString()}</p>
+                          {isCurrent ? (
+                            <span className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">Current</span>
+                          ) : (
+                            <Button size="sm" variant="outline" className="w-full" onClick={() => restoreIllustrationVersion(version)}>
+                              Use This Image
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {/* Journey Modal */}
+        {showJourney && active?.journey && (
+          <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-2 sm:p-4">
+            <div className="bg-white rounded-xl max-w-2xl max-h-[90vh] sm:max-h-[80vh] overflow-y-auto p-4 sm:p-6 w-full">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{active.city}</h2>
+                <Button
+                  variant="ghost"
+                  onClick={() => setShowJourney(false)}
+                  className="text-gray-500 hover:text-gray-700 p-2"
+                >
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
+              <JourneyDetails journey={active.journey} />
+            </div>
+          </div>
+        )}
+        
         {/* Share Modal */}
+        <OfflineDownloadsDialog offline={offlineBooks} open={showOfflineBooks} onOpenChange={setShowOfflineBooks} />
+        {active && (
+          <ShelfPickerDialog shelves={shelves} book={active} open={showShelfPicker} onOpenChange={setShowShelfPicker} />
+        )}
+
         {showShareModal && (
           <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
             <div className="bg-white rounded-xl max-w-2xl w-full max-h-[80vh] overflow-hidden">
@@ -1988,6 +2525,27 @@ export default function Home() {
                     {shareContent}
                   </pre>
                 </div>
+
+                {active && shareToken && (
+                  <div className="flex items-center gap-4 mb-4">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={`/api/generate-qr?bookId=${active.id}&token=${shareToken}&size=240`}
+                      alt="QR code linking to this story"
+                      className="w-28 h-28 rounded border"
+                    />
+                    <div className="text-sm text-gray-600">
+                      <p className="mb-2">Scan to read on another device.</p>
+                      <a
+                        href={`/api/generate-qr?bookId=${active.id}&token=${shareToken}&format=svg&size=1024&cover=true`}
+                        download={`${active.title} QR.svg`}
+                        className="font-medium text-blue-600 hover:underline"
+                      >
+                        Download print QR code with cover
+                      </a>
+                    </div>
+                  </div>
+                )}
                 
                 <div className="flex items-center gap-3">
                   <Button
@@ -0,0 +1,7 @@
+import { redirect } from "next/navigation";
+
+// Short share links resolve to the reader, which opens the book through the link
+export default async function ShareLinkPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  redirect(`/read?share=${encodeURIComponent(token)}`);
+}
@@ -0,0 +1,418 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Download, GripVertical, Library, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import type { Collection } from "@/lib/collections";
+import type { Book } from "@/lib/supabase";
+
+export type Collections = {
+  collections: Collection[];
+  // The shelf the library shows, or null for the whole library
+  selected: Collection | null;
+  select: (id: string | null) => void;
+  refresh: () => Promise<void>;
+  // Starts a shelf, optionally holding the given books; null when it failed
+  create: (title: string, bookIds?: string[]) => Promise<Collection | null>;
+  remove: (id: string) => Promise<void>;
+  // Puts the book on the shelf, or takes it off when it is already there
+  toggleBook: (id: string, bookId: string) => Promise<void>;
+  reorder: (id: string, bookIds: string[]) => Promise<void>;
+  exportShelf: (id: string) => Promise<void>;
+  exporting: string | null;
+};
+
+async function request(url: string, init?: RequestInit): Promise<{ collection?: Collection; collections?: Collection[] }> {
+  const res = await fetch(url, init?.body ? { ...init, headers: { "Content-Type": "application/json" } } : init);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Request failed");
+  return data;
+}
+
+/**
+ * The signed-in user's shelves, with the shelf being viewed and actions that update the
+ * list as soon as the server confirms them. Reordering shows the new order right away.
+ */
+export function useCollections(enabled: boolean): Collections {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) {
+      setCollections([]);
+      return;
+    }
+    const data = await request("/api/collections");
+    setCollections(data.collections || []);
+  }, [enabled]);
+
+  useEffect(() => {
+    refresh().catch(error => console.warn("Failed to load shelves:", error));
+  }, [refresh]);
+
+  const replace = (collection: Collection) =>
+    setCollections(prev => prev.map(other => (other.id === collection.id ? collection : other)));
+
+  async function run(action: () => Promise<void>, failure: string) {
+    try {
+      await action();
+    } catch (e: unknown) {
+      toast.error(failure, { description: e instanceof Error ? e.message : "Unknown error" });
+    }
+  }
+
+  async function create(title: string, bookIds: string[] = []): Promise<Collection | null> {
+    let created: Collection | null = null;
+    await run(async () => {
+      const { collection } = await request("/api/collections", { method: "POST", body: JSON.stringify({ title, bookIds }) });
+      created = collection!;
+      setCollections(prev => [...prev, collection!].sort((a, b) => a.title.localeCompare(b.title)));
+    }, "Could not create shelf");
+    return created;
+  }
+
+  const remove = (id: string) => run(async () => {
+    await request(`/api/collections/${id}`, { method: "DELETE" });
+    setCollections(prev => prev.filter(collection => collection.id !== id));
+    setSelectedId(prev => (prev === id ? null : prev));
+  }, "Could not delete shelf");
+
+  const toggleBook = (id: string, bookId: string) => run(async () => {
+    const onShelf = collections.find(collection => collection.id === id)?.bookIds.includes(bookId);
+    const { collection } = onShelf
+      ? await request(`/api/collections/${id}/books?bookId=${encodeURIComponent(bookId)}`, { method: "DELETE" })
+      : await request(`/api/collections/${id}/books`, { method: "POST", body: JSON.stringify({ bookIds: [bookId] }) });
+    replace(collection!);
+  }, "Could not update shelf");
+
+  const reorder = (id: string, bookIds: string[]) => {
+    const previous = collections.find(collection => collection.id === id);
+    if (previous) replace({ ...previous, bookIds });
+    return run(async () => {
+      try {
+        const { collection } = await request(`/api/collections/${id}`, { method: "PATCH", body: JSON.stringify({ bookIds }) });
+        replace(collection!);
+      } catch (error) {
+        if (previous) replace(previous);
+        throw error;
+      }
+    }, "Could not save the shelf order");
+  };
+
+  const exportShelf = (id: string) => run(async () => {
+    setExporting(id);
+    try {
+      const res = await fetch(`/api/collections/${id}/export`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Failed to export shelf");
+      }
+      const blob = await res.blob();
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || "shelf.storyvoyage";
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success("Shelf exported");
+    } finally {
+      setExporting(null);
+    }
+  }, "Could not export shelf");
+
+  return {
+    collections,
+    selected: collections.find(collection => collection.id === selectedId) ?? null,
+    select: setSelectedId,
+    refresh,
+    create,
+    remove,
+    toggleBook,
+    reorder,
+    exportShelf,
+    exporting,
+  };
+}
+
+/**
+ * The library sidebar: the whole library and each of the user's shelves, with a form
+ * to start a new shelf.
+ */
+export function CollectionsSidebar({ shelves, bookCount }: { shelves: Collections; bookCount: number }) {
+  const [adding, setAdding] = useState(false);
+  const [title, setTitle] = useState("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    const created = await shelves.create(title.trim());
+    if (!created) return;
+    shelves.select(created.id);
+    setTitle("");
+    setAdding(false);
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={!shelves.selected} onClick={() => shelves.select(null)}>
+              <Library />
+              <span>All stories</span>
+            </SidebarMenuButton>
+            <SidebarMenuBadge>{bookCount}</SidebarMenuBadge>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Shelves</SidebarGroupLabel>
+          <SidebarGroupAction title="New shelf" onClick={() => setAdding(open => !open)}>
+            <Plus />
+            <span className="sr-only">New shelf</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            {adding && (
+              <form onSubmit={submit} className="px-2 pb-2">
+                <SidebarInput
+                  autoFocus
+                  value={title}
+                  onChange={e => setTitle(e.target.value)}
+                  onKeyDown={e => { if (e.key === "Escape") setAdding(false); }}
+                  placeholder="e.g. Bedtime favorites"
+                  aria-label="Shelf name"
+                  maxLength={100}
+                />
+              </form>
+            )}
+            <SidebarMenu>
+              {shelves.collections.map(collection => (
+                <SidebarMenuItem key={collection.id}>
+                  <SidebarMenuButton isActive={shelves.selected?.id === collection.id} onClick={() => shelves.select(collection.id)}>
+                    <span>📚</span>
+                    <span>{collection.title}</span>
+                  </SidebarMenuButton>
+                  <SidebarMenuBadge>{collection.bookIds.length}</SidebarMenuBadge>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+            {shelves.collections.length === 0 && !adding && (
+              <p className="px-2 text-xs text-sidebar-foreground/60">
+                Group stories into shelves like &quot;Japan trip&quot; or &quot;Bedtime favorites&quot;.
+              </p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
+
+/**
+ * One shelf's books in shelf order. Cards are dragged to rearrange them; the new order
+ * is saved when the card is dropped.
+ */
+export function ShelfView({
+  shelves,
+  shelf,
+  books,
+  renderBookCard,
+}: {
+  shelves: Collections;
+  shelf: Collection;
+  books: Book[];
+  renderBookCard: (book: Book) => React.ReactNode;
+}) {
+  const [order, setOrder] = useState(shelf.bookIds);
+  const [dragging, setDragging] = useState<string | null>(null);
+  useEffect(() => setOrder(shelf.bookIds), [shelf.bookIds]);
+
+  // Books removed from the library since the shelf was loaded are skipped
+  const shelfBooks = order
+    .map(id => books.find(book => book.id === id))
+    .filter((book): book is Book => !!book);
+
+  function moveOver(targetId: string) {
+    if (!dragging || dragging === targetId) return;
+    setOrder(prev => {
+      const next = prev.filter(id => id !== dragging);
+      next.splice(prev.indexOf(targetId), 0, dragging);
+      return next;
+    });
+  }
+
+  function finishDrag() {
+    setDragging(null);
+    if (order.some((id, i) => id !== shelf.bookIds[i])) shelves.reorder(shelf.id, order);
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl sm:text-2xl font-bold text-white">📚 {shelf.title}</h3>
+          <p className="text-white/60 text-sm">
+            {shelfBooks.length} {shelfBooks.length === 1 ? "book" : "books"}
+            {shelfBooks.length > 1 && " · drag the cards to rearrange them"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => shelves.exportShelf(shelf.id)}
+            disabled={shelfBooks.length === 0 || shelves.exporting === shelf.id}
+            className="text-white hover:bg-white/20"
+            title="Download every book on this shelf as one .storyvoyage bundle"
+          >
+            {shelves.exporting === shelf.id ? (
+              <div className="w-4 h-4 sm:mr-2 animate-spin rounded-full border-2 border-white border-t-transparent" />
+            ) : (
+              <Download className="w-4 h-4 sm:mr-2" />
+            )}
+            <span className="hidden sm:inline">Export shelf</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              if (window.confirm(`Delete the shelf "${shelf.title}"? Its books stay in your library.`)) shelves.remove(shelf.id);
+            }}
+            className="text-white hover:bg-white/20"
+            title="Delete shelf"
+          >
+            <Trash2 className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Delete</span>
+          </Button>
+        </div>
+      </div>
+
+      {shelfBooks.length === 0 ? (
+        <p className="text-center py-10 text-white/80">
+          This shelf is empty. Open a story and use the shelf button to put it here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6 pb-4">
+          {shelfBooks.map(book => (
+            <div
+              key={book.id}
+              draggable
+              onDragStart={e => {
+                e.dataTransfer.effectAllowed = "move";
+                e.dataTransfer.setData("text/plain", book.id);
+                setDragging(book.id);
+              }}
+              onDragOver={e => {
+                e.preventDefault();
+                moveOver(book.id);
+              }}
+              onDrop={e => e.preventDefault()}
+              onDragEnd={finishDrag}
+              className={`relative group ${dragging === book.id ? "opacity-50" : ""}`}
+            >
+              {renderBookCard(book)}
+              <GripVertical className="absolute top-2 left-2 w-4 h-4 text-white/40 cursor-grab" aria-hidden />
+              <button
+                type="button"
+                onClick={() => shelves.toggleBook(shelf.id, book.id)}
+                title="Take off this shelf"
+                className="absolute top-2 right-2 p-1 rounded-full bg-black/40 text-white/80 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-black/60"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Lists the user's shelves with a tick on those holding the book; picking a shelf puts
+ * the book on it or takes it off.
+ */
+export function ShelfPickerDialog({
+  shelves,
+  book,
+  open,
+  onOpenChange,
+}: {
+  shelves: Collections;
+  book: Book;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [title, setTitle] = useState("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    if (await shelves.create(title.trim(), [book.id])) setTitle("");
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Shelves</DialogTitle>
+          <DialogDescription>Choose the shelves &quot;{book.title}&quot; sits on.</DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-border max-h-72 overflow-y-auto">
+          {shelves.collections.map(collection => {
+            const onShelf = collection.bookIds.includes(book.id);
+            return (
+              <li key={collection.id}>
+                <button
+                  type="button"
+                  onClick={() => shelves.toggleBook(collection.id, book.id)}
+                  aria-pressed={onShelf}
+                  className="flex w-full items-center justify-between gap-3 py-2 text-left hover:bg-muted/50"
+                >
+                  <span className="truncate">📚 {collection.title}</span>
+                  {onShelf && <Check className="w-4 h-4 flex-shrink-0 text-primary" />}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="New shelf"
+            aria-label="New shelf name"
+            maxLength={100}
+            className="flex-1"
+          />
+          <Button type="submit" size="sm" disabled={!title.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { Fragment } from "react";
+import type { BookPage, Journey, Transport } from "@/lib/book-schema";
+
+const TRANSPORT_ICONS: Record<Transport, string> = {
+  train: "🚆",
+  plane: "✈️",
+  boat: "⛵",
+  car: "🚗",
+  bus: "🚌",
+};
+
+/**
+ * Map-style strip of a journey's stops joined by how the travellers got between them.
+ * The stop the current page takes place in is highlighted; selecting a stop jumps to
+ * its first page.
+ */
+export function JourneyRoute({
+  journey,
+  pages,
+  pageIndex,
+  onSelectPage,
+}: {
+  journey: Journey;
+  pages: BookPage[];
+  pageIndex?: number;
+  onSelectPage?: (pageIndex: number) => void;
+}) {
+  const activeCity = pageIndex === undefined ? undefined : pages[pageIndex]?.city;
+  const firstPages = journey.legs.map(leg => pages.findIndex(page => page.city === leg.city));
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto text-xs" aria-label={journey.routeSummary}>
+      {journey.legs.map((leg, i) => (
+        <Fragment key={`${leg.city}-${i}`}>
+          {i > 0 && (
+            <span className="flex items-center gap-1 text-white/60 flex-shrink-0" title={leg.transition}>
+              <span className="w-3 border-t border-dashed border-white/40" />
+              {leg.arriveBy ? TRANSPORT_ICONS[leg.arriveBy] : "➜"}
+              <span className="w-3 border-t border-dashed border-white/40" />
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => onSelectPage?.(firstPages[i])}
+            disabled={!onSelectPage || firstPages[i] === -1}
+            className={`px-2 py-0.5 rounded-full flex-shrink-0 transition-colors ${
+              leg.city === activeCity ? "bg-white text-gray-900 font-semibold" : "bg-white/15 text-white/80 hover:bg-white/25"
+            }`}
+          >
+            📍 {leg.city}
+          </button>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+// The route summary followed by each stop's travel scene, fun facts and glossary
+export function JourneyDetails({ journey }: { journey: Journey }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-gray-700">{journey.routeSummary}</p>
+      {journey.legs.map((leg, i) => (
+        <div key={`${leg.city}-${i}`} className="rounded-lg border border-gray-200 p-4">
+          <h3 className="font-semibold text-gray-900 mb-1">
+            {i + 1}. {leg.city}
+            {leg.arriveBy && <span className="ml-2 text-sm font-normal text-gray-500">{TRANSPORT_ICONS[leg.arriveBy]} by {leg.arriveBy}</span>}
+          </h3>
+          {leg.transition && <p className="text-sm text-gray-600 italic mb-3">{leg.transition}</p>}
+          {leg.funFacts.length > 0 && (
+            <div className="mb-3">
+              <h4 className="text-sm font-medium text-gray-800 mb-1">Fun Facts</h4>
+              <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                {leg.funFacts.map((fact, j) => <li key={j}>{fact}</li>)}
+              </ul>
+            </div>
+          )}
+          {Object.keys(leg.glossary).length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-800 mb-1">Glossary</h4>
+              <dl className="text-sm text-gray-700 space-y-1">
+                {Object.entries(leg.glossary).map(([word, meaning]) => (
+                  <div key={word}>
+                    <dt className="inline font-medium">{word}:</dt> <dd className="inline">{meaning}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  bookSearchParams,
+  EMPTY_BOOK_FILTERS,
+  hasBookFilters,
+  searchLocalBooks,
+  type BookFilters,
+  type BookSort,
+} from "@/lib/book-search";
+import type { Book } from "@/lib/supabase";
+
+const PAGE_SIZE = 24;
+const SEARCH_DELAY_MS = 300;
+// Chips beyond these are reachable by typing in the search box
+const MAX_CITY_CHIPS = 12;
+const MAX_CHILD_CHIPS = 8;
+
+const READING_LEVELS: Array<{ value: NonNullable<BookFilters["readingLevel"]>; label: string }> = [
+  { value: "early", label: "Early reader" },
+  { value: "middle", label: "Middle" },
+  { value: "advanced", label: "Advanced" },
+];
+
+const SORTS: Array<{ value: BookSort; label: string }> = [
+  { value: "recent", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "title", label: "Title A–Z" },
+];
+
+export type LibrarySearch = {
+  filters: BookFilters;
+  setFilters: (update: (filters: BookFilters) => BookFilters) => void;
+  reset: () => void;
+  // False while the library is shown unfiltered, by shelf
+  active: boolean;
+  results: Book[];
+  total: number;
+  loading: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+};
+
+/**
+ * Searches the library: through GET /api/books when signed in and online, otherwise
+ * over the books on this device. `books` is the whole library, used offline and for
+ * the filter chips.
+ */
+export function useLibrarySearch(books: Book[], { remote }: { remote: boolean }): LibrarySearch {
+  const [filters, setFilterState] = useState<BookFilters>(EMPTY_BOOK_FILTERS);
+  const [remoteResults, setRemoteResults] = useState<{ books: Book[]; total: number; page: number; hasMore: boolean } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const active = hasBookFilters(filters);
+
+  async function fetchPage(page: number, signal?: AbortSignal) {
+    const res = await fetch(`/api/books?${bookSearchParams(filters, page, PAGE_SIZE)}`, { signal });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data?.error || "Search failed");
+    return data as { books: Book[]; total: number; page: number; hasMore: boolean };
+  }
+
+  // New filters start again from the first page; typing is debounced
+  useEffect(() => {
+    setRemoteResults(null);
+    if (!active || !remote) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        setRemoteResults(await fetchPage(1, controller.signal));
+      } catch (error) {
+        // Offline search over the device's books takes over
+        if (!controller.signal.aborted) console.warn("Library search failed, searching this device:", error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [filters, remote]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const localResults = useMemo(
+    () => (active && !remoteResults ? searchLocalBooks(books, filters) : []),
+    [active, remoteResults, books, filters]
+  );
+
+  async function loadMore() {
+    if (!remoteResults?.hasMore || loading) return;
+    setLoading(true);
+    try {
+      const next = await fetchPage(remoteResults.page + 1);
+      setRemoteResults(prev => prev && { ...next, books: [...prev.books, ...next.books] });
+    } catch (error) {
+      console.warn("Failed to load more books:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return {
+    filters,
+    setFilters: update => setFilterState(prev => update(prev)),
+    reset: () => setFilterState(EMPTY_BOOK_FILTERS),
+    active,
+    results: remoteResults ? remoteResults.books : localResults,
+    total: remoteResults ? remoteResults.total : localResults.length,
+    loading,
+    hasMore: !!remoteResults?.hasMore,
+    loadMore,
+  };
+}
+
+function Chip({ selected, onClick, children }: { selected: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`px-3 py-1 rounded-full text-xs sm:text-sm font-medium transition-colors ${
+        selected ? "bg-white text-slate-900" : "bg-white/10 text-white/80 hover:bg-white/20"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// The most common values first
+function topValues(values: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, limit).map(([value]) => value);
+}
+
+/**
+ * Search box, sort order and filter chips for the library. Chips offer the cities and
+ * children that appear in the library; picking a selected chip again clears it.
+ */
+export function LibrarySearchBar({ search, books }: { search: LibrarySearch; books: Book[] }) {
+  const { filters, setFilters, reset, active } = search;
+  const cities = useMemo(
+    () => topValues(books.flatMap(book => (book.journey ? book.journey.legs.map(leg => leg.city) : [book.city])), MAX_CITY_CHIPS),
+    [books]
+  );
+  const children = useMemo(() => topValues(books.map(book => book.child.name), MAX_CHILD_CHIPS), [books]);
+
+  const toggle = <K extends keyof BookFilters>(key: K, value: BookFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? undefined : value }));
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/60" />
+          <Input
+            type="search"
+            value={filters.q || ""}
+            onChange={e => setFilters(prev => ({ ...prev, q: e.target.value || undefined }))}
+            placeholder="Search titles, stories and glossary…"
+            aria-label="Search your library"
+            className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-white/50"
+          />
+        </div>
+        <select
+          value={filters.sort}
+          onChange={e => setFilters(prev => ({ ...prev, sort: e.target.value as BookSort }))}
+          aria-label="Sort books"
+          className="h-9 rounded-md border border-white/20 bg-white/10 px-3 text-sm text-white [&>option]:text-slate-900"
+        >
+          {SORTS.map(sort => (
+            <option key={sort.value} value={sort.value}>{sort.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {cities.length > 1 && cities.map(city => (
+          <Chip key={`city-${city}`} selected={filters.city === city} onClick={() => toggle("city", city)}>
+            📍 {city}
+          </Chip>
+        ))}
+        {children.length > 1 && children.map(name => (
+          <Chip key={`child-${name}`} selected={filters.child === name} onClick={() => toggle("child", name)}>
+            🧒 {name}
+          </Chip>
+        ))}
+        {READING_LEVELS.map(level => (
+          <Chip key={level.value} selected={filters.readingLevel === level.value} onClick={() => toggle("readingLevel", level.value)}>
+            {level.label}
+          </Chip>
+        ))}
+        <Chip selected={filters.hasAudio} onClick={() => setFilters(prev => ({ ...prev, hasAudio: !prev.hasAudio }))}>
+          🔊 Has audio
+        </Chip>
+        <Chip selected={filters.hasIllustrations} onClick={() => setFilters(prev => ({ ...prev, hasIllustrations: !prev.hasIllustrations }))}>
+          🎨 Illustrated
+        </Chip>
+        <label className="flex items-center gap-1 text-xs sm:text-sm text-white/70">
+          From
+          <Input
+            type="date"
+            value={filters.from || ""}
+            max={filters.to}
+            onChange={e => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+            className="h-8 w-auto bg-white/10 border-white/20 text-white"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs sm:text-sm text-white/70">
+          to
+          <Input
+            type="date"
+            value={filters.to || ""}
+            min={filters.from}
+            onChange={e => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+            className="h-8 w-auto bg-white/10 border-white/20 text-white"
+          />
+        </label>
+        {active && (
+          <Button variant="ghost" size="sm" onClick={reset} className="text-white/80 hover:text-white hover:bg-white/20">
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { HardDriveDownload, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import {
+  downloadBookForOffline,
+  getOfflineStorage,
+  isOfflineSupported,
+  listOfflineBooks,
+  removeOfflineBook,
+  type OfflineBook,
+  type OfflineStorage,
+} from "@/lib/offline-books";
+import type { Book } from "@/lib/supabase";
+
+export type OfflineBooks = {
+  supported: boolean;
+  books: OfflineBook[];
+  storage: OfflineStorage | null;
+  // Download progress by book id
+  downloading: Record<string, { done: number; total: number }>;
+  isDownloaded: (bookId: string) => boolean;
+  download: (book: Book) => Promise<void>;
+  remove: (bookId: string) => Promise<void>;
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/**
+ * Books downloaded for offline reading on this device, with actions to download and
+ * remove them and the storage they use.
+ */
+export function useOfflineBooks(): OfflineBooks {
+  const [supported, setSupported] = useState(false);
+  const [books, setBooks] = useState<OfflineBook[]>([]);
+  const [storage, setStorage] = useState<OfflineStorage | null>(null);
+  const [downloading, setDownloading] = useState<Record<string, { done: number; total: number }>>({});
+
+  const refresh = useCallback(async () => {
+    setBooks(await listOfflineBooks());
+    setStorage(await getOfflineStorage().catch(() => null));
+  }, []);
+
+  useEffect(() => {
+    setSupported(isOfflineSupported());
+    refresh().catch(error => console.warn("Failed to list offline books:", error));
+  }, [refresh]);
+
+  const download = useCallback(async (book: Book) => {
+    setDownloading(prev => ({ ...prev, [book.id]: { done: 0, total: 0 } }));
+    try {
+      await downloadBookForOffline(book, (done, total) => {
+        setDownloading(prev => ({ ...prev, [book.id]: { done, total } }));
+      });
+      toast.success("Ready to read offline", { description: book.title });
+    } catch (e: unknown) {
+      toast.error("Failed to download book", { description: e instanceof Error ? e.message : "Unknown error" });
+    } finally {
+      setDownloading(({ [book.id]: _finished, ...rest }) => rest); // eslint-disable-line @typescript-eslint/no-unused-vars
+      await refresh();
+    }
+  }, [refresh]);
+
+  const remove = useCallback(async (bookId: string) => {
+    try {
+      await removeOfflineBook(bookId);
+    } catch (e: unknown) {
+      toast.error("Failed to remove download", { description: e instanceof Error ? e.message : "Unknown error" });
+    }
+    await refresh();
+  }, [refresh]);
+
+  const isDownloaded = useCallback((bookId: string) => books.some(book => book.id === bookId), [books]);
+
+  return { supported, books, storage, downloading, isDownloaded, download, remove };
+}
+
+/**
+ * Lists the downloaded books with their sizes and how much of the browser's storage the
+ * site uses, so space can be freed by removing books.
+ */
+export function OfflineDownloadsDialog({
+  offline,
+  open,
+  onOpenChange,
+}: {
+  offline: OfflineBooks;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { books, storage, remove } = offline;
+  const usedPercent = storage?.quota ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HardDriveDownload className="w-5 h-5" />
+            Offline Books
+          </DialogTitle>
+          <DialogDescription>
+            Downloaded books open without a connection, pictures and narration included. When the device runs
+            short of space, the books read longest ago are removed first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {storage && storage.quota > 0 && (
+          <div className="space-y-1">
+            <Progress value={usedPercent} />
+            <p className="text-xs text-muted-foreground">
+              {formatBytes(storage.books)} in downloaded books · {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+            </p>
+          </div>
+        )}
+
+        {books.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No books downloaded yet. Open a book and use the download button to keep it for the car or the plane.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border max-h-80 overflow-y-auto">
+            {books.map(book => (
+              <li key={book.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{book.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {book.city} · {formatBytes(book.bytes)} · last read {new Date(book.lastReadAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(book.id)}
+                  title="Remove download"
+                  className="flex-shrink-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Pause, Volume2, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { narratedTextHash } from "@/lib/audio-text";
+import type { Book } from "@/lib/supabase";
+import type { WordTiming } from "@/lib/tts";
+
+// Read-aloud mode: narrates the current page, highlights each word as it is spoken and
+// turns the page when the narration ends. Books with exported audio (/api/generate-audio)
+// play their stored clips and word timings; other books fall back to the browser's own
+// voice, which reports word boundaries as it speaks. Tapping a word says it again.
+
+const PAGE_TURN_DELAY_MS = 700;
+
+type ActiveWord = { pageIndex: number; wordIndex: number };
+
+export type ReadAloud = {
+  // False when neither stored audio nor browser speech is available
+  supported: boolean;
+  playing: boolean;
+  activeWord: ActiveWord | null;
+  autoTurn: boolean;
+  setAutoTurn: (autoTurn: boolean) => void;
+  toggle: () => void;
+  stop: () => void;
+  speakWord: (pageIndex: number, wordIndex: number) => void;
+};
+
+// Same split the audio export uses, so word indexes line up with the manifest
+export function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function browserSpeech(): SpeechSynthesis | null {
+  return typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+}
+
+export function useReadAloud(book: Book | null, pageIndex: number, onPageChange: (pageIndex: number) => void): ReadAloud {
+  const [playing, setPlaying] = useState(false);
+  const [activeWord, setActiveWord] = useState<ActiveWord | null>(null);
+  const [autoTurn, setAutoTurn] = useState(true);
+  const [supported, setSupported] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const turnTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Which page is being narrated; null while stopped
+  const narratingRef = useRef<number | null>(null);
+  const latest = useRef({ book, autoTurn, onPageChange });
+  latest.current = { book, autoTurn, onPageChange };
+
+  useEffect(() => {
+    setSupported(!!book?.audio || !!browserSpeech());
+  }, [book]);
+
+  // The stored audio, once its hash shows it still reads the book's current text
+  const [narration, setNarration] = useState<Book["audio"]>(null);
+  useEffect(() => {
+    setNarration(null);
+    const audio = book?.audio;
+    if (!book || !audio) return;
+    let cancelled = false;
+    narratedTextHash(book)
+      .then(hash => { if (!cancelled && hash === audio.textHash) setNarration(audio); })
+      .catch(error => console.warn("Could not check stored narration:", error));
+    return () => { cancelled = true; };
+  }, [book]);
+
+  // Stored timings for a page, unless the book was edited after the audio was made
+  const pageTimings = useCallback((index: number) => {
+    return narration?.pages.find(audioPage => audioPage.pageIndex === index) ?? null;
+  }, [narration]);
+
+  const halt = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    if (turnTimerRef.current) clearTimeout(turnTimerRef.current);
+    frameRef.current = null;
+    turnTimerRef.current = null;
+    audioRef.current?.pause();
+    browserSpeech()?.cancel();
+  }, []);
+
+  const stop = useCallback(() => {
+    halt();
+    narratingRef.current = null;
+    setPlaying(false);
+    setActiveWord(null);
+  }, [halt]);
+
+  const pageFinished = useCallback((index: number) => {
+    const { book: current, autoTurn: turn, onPageChange: turnTo } = latest.current;
+    setActiveWord(null);
+    if (!turn || !current || index >= current.pages.length - 1) {
+      narratingRef.current = null;
+      setPlaying(false);
+      return;
+    }
+    // Narration continues once the reader shows the next page (see the effect below)
+    turnTimerRef.current = setTimeout(() => turnTo(index + 1), PAGE_TURN_DELAY_MS);
+  }, []);
+
+  // Highlights words from the audio clock until `until`, or the clip's end
+  const follow = useCallback((index: number, words: WordTiming[], until?: number, onDone?: () => void) => {
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      const time = audio.currentTime;
+      if (until !== undefined && time >= until) {
+        audio.pause();
+        onDone?.();
+        return;
+      }
+      const wordIndex = words.findIndex((word, i) => time >= word.start && time < (words[i + 1]?.start ?? Infinity));
+      setActiveWord(wordIndex === -1 ? null : { pageIndex: index, wordIndex });
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }, []);
+
+  const narrate = useCallback((index: number) => {
+    halt();
+    const page = latest.current.book?.pages[index];
+    if (!page) return;
+    narratingRef.current = index;
+    setPlaying(true);
+
+    const clip = pageTimings(index);
+    if (clip) {
+      const audio = audioRef.current ?? new Audio();
+      audioRef.current = audio;
+      audio.src = clip.url;
+      audio.onended = () => {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        pageFinished(index);
+      };
+      audio.play().catch(() => stop());
+      follow(index, clip.words);
+      return;
+    }
+
+    const speech = browserSpeech();
+    if (!speech) {
+      stop();
+      return;
+    }
+    const words = splitWords(page.text);
+    const offsets: number[] = [];
+    let searchFrom = 0;
+    for (const word of words) {
+      offsets.push(page.text.indexOf(word, searchFrom));
+      searchFrom = offsets[offsets.length - 1] + word.length;
+    }
+    const utterance = new SpeechSynthesisUtterance(page.text);
+    utterance.rate = 0.9;
+    utterance.onboundary = event => {
+      if (event.name !== "word") return;
+      const wordIndex = offsets.findLastIndex(offset => offset <= event.charIndex);
+      setActiveWord({ pageIndex: index, wordIndex });
+    };
+    utterance.onend = () => {
+      if (narratingRef.current === index) pageFinished(index);
+    };
+    speech.speak(utterance);
+  }, [halt, pageTimings, follow, pageFinished, stop]);
+
+  // Keep narrating whichever page is shown: after an automatic turn, or when the child
+  // swipes to another page mid-sentence
+  useEffect(() => {
+    if (narratingRef.current !== null && narratingRef.current !== pageIndex) narrate(pageIndex);
+  }, [pageIndex, narrate]);
+
+  // Stop talking when the reader closes or switches books
+  useEffect(() => stop, [book?.id, stop]);
+
+  const toggle = useCallback(() => {
+    if (narratingRef.current !== null) stop();
+    else narrate(pageIndex);
+  }, [narrate, pageIndex, stop]);
+
+  const speakWord = useCallback((index: number, wordIndex: number) => {
+    halt();
+    narratingRef.current = null;
+    setPlaying(false);
+    setActiveWord({ pageIndex: index, wordIndex });
+    const done = () => setActiveWord(null);
+
+    const clip = pageTimings(index);
+    const word = clip?.words[wordIndex];
+    if (clip && word) {
+      const audio = audioRef.current ?? new Audio();
+      audioRef.current = audio;
+      audio.onended = done;
+      if (!audio.src.endsWith(clip.url)) audio.src = clip.url;
+      audio.currentTime = word.start;
+      audio.play().catch(done);
+      follow(index, [word], word.end, done);
+      return;
+    }
+
+    const text = splitWords(latest.current.book?.pages[index]?.text ?? "")[wordIndex];
+    const speech = browserSpeech();
+    if (!text || !speech) {
+      done();
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text.replace(/[^\p{L}\p{N}'-]/gu, ""));
+    utterance.rate = 0.8;
+    utterance.onend = done;
+    speech.speak(utterance);
+  }, [halt, pageTimings, follow]);
+
+  return { supported, playing, activeWord, autoTurn, setAutoTurn, toggle, stop, speakWord };
+}
+
+/**
+ * A page's text as tappable words, with the word being read highlighted.
+ */
+export function ReadAloudText({
+  text,
+  pageIndex,
+  readAloud,
+}: {
+  text: string;
+  pageIndex: number;
+  readAloud: ReadAloud;
+}) {
+  let wordIndex = -1;
+  return (
+    <>
+      {text.split(/(\s+)/).map((part, i) => {
+        if (!part || /^\s+$/.test(part)) return part;
+        const index = ++wordIndex;
+        const active = readAloud.activeWord?.pageIndex === pageIndex && readAloud.activeWord.wordIndex === index;
+        return (
+          <span
+            key={i}
+            role={readAloud.supported ? "button" : undefined}
+            onClick={readAloud.supported ? event => {
+              // Tapping a word must not also turn the page
+              event.stopPropagation();
+              readAloud.speakWord(pageIndex, index);
+            } : undefined}
+            className={`rounded transition-colors ${readAloud.supported ? "cursor-pointer" : ""} ${
+              active ? "bg-yellow-300 text-gray-900" : ""
+            }`}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// Play/stop and auto page-turn toggle for the reader toolbars; `compact` matches the
+// small icon-only toolbar under the library reader
+export function ReadAloudControls({ readAloud, compact = false }: { readAloud: ReadAloud; compact?: boolean }) {
+  if (!readAloud.supported) return null;
+  const icon = compact ? "w-3 h-3" : "w-4 h-4";
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={readAloud.toggle}
+        className={compact ? "text-white/70 hover:text-white p-1.5" : "text-white hover:bg-white/20 p-2 sm:px-3 sm:py-2"}
+        title={readAloud.playing ? "Stop reading" : "Read aloud"}
+      >
+        {readAloud.playing ? <Pause className={`${icon} ${compact ? "" : "sm:mr-2"}`} /> : <Volume2 className={`${icon} ${compact ? "" : "sm:mr-2"}`} />}
+        {!compact && <span className="hidden sm:inline">{readAloud.playing ? "Stop" : "Read Aloud"}</span>}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => readAloud.setAutoTurn(!readAloud.autoTurn)}
+        className={`${compact ? "p-1.5" : "hover:bg-white/20 p-2"} ${readAloud.autoTurn ? "text-white" : "text-white/40"}`}
+        title={readAloud.autoTurn ? "Turning pages automatically" : "Staying on this page"}
+        aria-pressed={readAloud.autoTurn}
+      >
+        <Repeat className={icon} />
+      </Button>
+    </div>
+  );
+}
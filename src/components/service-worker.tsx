@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers the service worker (public/sw.js) that makes the app installable and serves
+ * downloaded books offline. Development builds skip it so hot reloading keeps working.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(error => console.warn("Service worker registration failed:", error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,74 @@
+import { CloudAlert, CloudCheck, CloudOff, CloudUpload, HardDrive } from "lucide-react";
+import type { BookSyncState } from "@/hooks/use-library-sync";
+import type { SyncStatus } from "@/lib/local-library";
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  synced: "Saved to your account",
+  pending: "Waiting to upload",
+  syncing: "Uploading…",
+  local: "On this device only — sign in to save it",
+  error: "Upload failed, will retry",
+};
+
+/**
+ * Small icon on a library card showing whether the book is saved to the account yet.
+ */
+export function BookSyncBadge({ state }: { state?: BookSyncState }) {
+  if (!state) return null;
+  const Icon = {
+    synced: CloudCheck,
+    pending: CloudUpload,
+    syncing: CloudUpload,
+    local: HardDrive,
+    error: CloudAlert,
+  }[state.status];
+  const label = state.error ? `${STATUS_LABELS[state.status]}: ${state.error}` : STATUS_LABELS[state.status];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ${state.status === "error" ? "text-red-300" : "text-white/60"}`}
+      title={label}
+    >
+      <Icon className={`w-3.5 h-3.5 ${state.status === "syncing" ? "animate-pulse" : ""}`} />
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+}
+
+/**
+ * Library header summary: offline, uploading, or how many books are still to upload.
+ */
+export function LibrarySyncIndicator({
+  online,
+  syncing,
+  waiting,
+  onSync,
+}: {
+  online: boolean;
+  syncing: boolean;
+  waiting: number;
+  onSync: () => void;
+}) {
+  if (!online) {
+    return (
+      <span className="flex items-center gap-1 text-xs sm:text-sm text-white/80" title="Changes are kept on this device until you are back online">
+        <CloudOff className="w-4 h-4" />
+        <span className="hidden sm:inline">Offline</span>
+      </span>
+    );
+  }
+  if (!syncing && waiting === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={onSync}
+      disabled={syncing}
+      className="flex items-center gap-1 text-xs sm:text-sm text-white/80 hover:text-white disabled:hover:text-white/80"
+      title={syncing ? "Syncing your library" : "Upload now"}
+    >
+      <CloudUpload className={`w-4 h-4 ${syncing ? "animate-pulse" : ""}`} />
+      <span className="hidden sm:inline">{syncing ? "Syncing…" : `${waiting} to upload`}</span>
+    </button>
+  );
+}
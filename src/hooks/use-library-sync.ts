@@ -0,0 +1,106 @@
+import * as React from "react"
+import type { User } from "@supabase/supabase-js"
+import { supabase, bookFromRow, type Book, type BookRow } from "@/lib/supabase"
+import { listLocalBooks, type SyncStatus } from "@/lib/local-library"
+import { onLocalLibraryChange, saveLocalBooks, syncLibrary } from "@/lib/library-sync"
+
+const SYNC_INTERVAL_MS = 60 * 1000
+
+export type BookSyncState = {
+  status: SyncStatus
+  error?: string
+}
+
+/**
+ * The library kept on this device for the signed-in user (or the signed-out library),
+ * synced with Supabase on sign-in, on reconnecting and every minute while online.
+ * `onBooks` gets the library whenever it changes; `onPromote` gets a book made offline
+ * once it has been uploaded and has its server id.
+ */
+export function useLibrarySync(
+  user: User | null | undefined,
+  { onBooks, onPromote }: { onBooks: (books: Book[]) => void; onPromote: (tempId: string, book: Book) => void }
+) {
+  const [syncState, setSyncState] = React.useState<Record<string, BookSyncState>>({})
+  const [syncing, setSyncing] = React.useState(false)
+  const [online, setOnline] = React.useState(true)
+  const ownerId = user === undefined ? undefined : user?.id ?? null
+
+  const callbacks = React.useRef({ onBooks, onPromote })
+  React.useEffect(() => {
+    callbacks.current = { onBooks, onPromote }
+  })
+
+  const reload = React.useCallback(async () => {
+    if (ownerId === undefined) return
+    try {
+      const records = await listLocalBooks(ownerId)
+      setSyncState(Object.fromEntries(records.map(record => [record.id, { status: record.status, error: record.error }])))
+      callbacks.current.onBooks(records.map(record => record.book))
+    } catch (error) {
+      // Without IndexedDB (some private browsing modes) the library comes straight from Supabase
+      console.warn("Local library unavailable, loading from Supabase:", error)
+      const { data, error: loadError } = await supabase
+        .from("books")
+        .select("*")
+        .order("created_at", { ascending: false })
+      if (loadError) throw loadError
+      callbacks.current.onBooks((data || []).map(row => bookFromRow(row as BookRow)))
+    }
+  }, [ownerId])
+
+  const syncNow = React.useCallback(async () => {
+    if (!ownerId || !navigator.onLine) return
+    setSyncing(true)
+    try {
+      const { promoted } = await syncLibrary(ownerId)
+      promoted.forEach((book, tempId) => callbacks.current.onPromote(tempId, book))
+    } catch (error) {
+      console.warn("Library sync failed:", error)
+    } finally {
+      setSyncing(false)
+    }
+  }, [ownerId])
+
+  React.useEffect(() => {
+    if (ownerId === undefined) return
+    setOnline(navigator.onLine)
+    const unsubscribe = onLocalLibraryChange(() => {
+      reload().catch(error => console.warn("Failed to reload library:", error))
+    })
+    reload()
+      .catch(error => {
+        console.error("Error loading books:", error)
+        callbacks.current.onBooks([])
+      })
+      .finally(() => syncNow())
+
+    const goOnline = () => {
+      setOnline(true)
+      syncNow()
+    }
+    const goOffline = () => setOnline(false)
+    window.addEventListener("online", goOnline)
+    window.addEventListener("offline", goOffline)
+    const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS)
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", goOnline)
+      window.removeEventListener("offline", goOffline)
+      window.clearInterval(interval)
+    }
+  }, [ownerId, reload, syncNow])
+
+  // Records the library as the app shows it; changed books are uploaded in the background
+  const saveBooks = React.useCallback(async (books: Book[]) => {
+    if (ownerId === undefined) return
+    try {
+      const changed = await saveLocalBooks(books, ownerId)
+      if (changed > 0) syncNow()
+    } catch (error) {
+      console.warn("Failed to save library on this device:", error)
+    }
+  }, [ownerId, syncNow])
+
+  return { syncState, syncing, online, syncNow, saveBooks }
+}
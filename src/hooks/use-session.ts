@@ -0,0 +1,17 @@
+import * as React from "react"
+import type { User } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+
+// The signed-in user, kept up to date as they sign in or out. undefined until known.
+export function useSessionUser() {
+  const [user, setUser] = React.useState<User | null | undefined>(undefined)
+
+  React.useEffect(() => {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null)
+    })
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  return user
+}
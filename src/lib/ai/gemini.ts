@@ -0,0 +1,65 @@
+import { GoogleGenAI, type Part } from "@google/genai";
+import type { AIProvider, GeneratedImage, ImageRequest, TextRequest } from "./types";
+
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini" as const;
+  readonly textModel = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
+  readonly imageModel = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image-preview";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    const response = await this.ai.models.generateContent(this.textParams(request));
+    return response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    for await (const chunk of await this.ai.models.generateContentStream(this.textParams(request))) {
+      const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) yield text;
+    }
+  }
+
+  async generateImage({ prompt, images, seed }: ImageRequest): Promise<GeneratedImage | null> {
+    const response = await this.ai.models.generateContent({
+      model: this.imageModel,
+      contents: toContents(prompt, images),
+      ...(seed !== undefined && { config: { seed } }),
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png" };
+      }
+      // Some model versions return the image as a data URL in a text part
+      if (part.text && part.text.includes("data:image")) {
+        const base64Data = part.text.split(",")[1];
+        if (base64Data) {
+          return { data: base64Data, mimeType: "image/png" };
+        }
+      }
+    }
+    return null;
+  }
+
+  private textParams({ prompt, images, responseSchema }: TextRequest) {
+    return {
+      model: this.textModel,
+      contents: toContents(prompt, images),
+      config: responseSchema
+        ? { responseMimeType: "application/json", responseJsonSchema: responseSchema }
+        : undefined,
+    };
+  }
+}
+
+function toContents(prompt: string, images?: TextRequest["images"]): string | Part[] {
+  if (!images?.length) return prompt;
+  return [
+    ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+    { text: prompt },
+  ];
+}
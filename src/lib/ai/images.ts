@@ -0,0 +1,34 @@
+import { isInlineImage, isStorageUrl } from "@/lib/image-urls";
+import type { InlineImage } from "./types";
+
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Downloads an image from Supabase storage (or decodes a data: URL) so it can be sent to
+ * a model as an image part. Other URLs are refused rather than fetched.
+ */
+export async function fetchInlineImage(url: string): Promise<InlineImage> {
+  if (isInlineImage(url)) {
+    const [header, data] = url.split(",", 2);
+    if (Buffer.byteLength(data, "base64") > MAX_INLINE_IMAGE_BYTES) {
+      throw new Error("Image is too large to send to the model");
+    }
+    return { data, mimeType: header.slice("data:".length, header.indexOf(";")) };
+  }
+  if (!isStorageUrl(url)) {
+    throw new Error("Only images in storage can be loaded");
+  }
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch image ${url}: ${res.status}`);
+  }
+  const mimeType = res.headers.get("content-type")?.split(";")[0] || "image/png";
+  if (!mimeType.startsWith("image/")) {
+    throw new Error(`URL did not return an image: ${url}`);
+  }
+  const buffer = Buffer.from(await res.arrayBuffer());
+  if (buffer.length > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error(`Image is too large to send to the model: ${url}`);
+  }
+  return { data: buffer.toString("base64"), mimeType };
+}
@@ -0,0 +1,50 @@
+import { GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import type { AIProvider } from "./types";
+
+export type { AIProvider, GeneratedImage, ImageRequest, InlineImage, TextRequest } from "./types";
+export { fetchInlineImage } from "./images";
+export {
+  extractJsonCandidate,
+  generateStructured,
+  readCompletedItems,
+  readCompletedString,
+  StructuredOutputError,
+  type StructuredResult,
+} from "./structured";
+
+let cachedProvider: AIProvider | null = null;
+
+/**
+ * Returns the configured text/image backend. AI_PROVIDER selects it:
+ * - "gemini" (default): GOOGLE_GENAI_API_KEY or GOOGLE_API_KEY
+ * - "mock": deterministic offline fixtures, optional MOCK_AI_FIXTURES_DIR
+ * - "openai": any OpenAI-compatible server at OPENAI_BASE_URL, optional OPENAI_API_KEY
+ * Throws when the selected backend is missing its configuration.
+ */
+export function getAIProvider(): AIProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = process.env.AI_PROVIDER || "gemini";
+  switch (providerName) {
+    case "mock":
+      cachedProvider = new MockProvider(process.env.MOCK_AI_FIXTURES_DIR);
+      break;
+    case "openai": {
+      const baseUrl = process.env.OPENAI_BASE_URL;
+      if (!baseUrl) throw new Error("Missing OPENAI_BASE_URL");
+      cachedProvider = new OpenAICompatibleProvider(baseUrl, process.env.OPENAI_API_KEY);
+      break;
+    }
+    case "gemini": {
+      const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
+      if (!apiKey) throw new Error("Missing GOOGLE_GENAI_API_KEY");
+      cachedProvider = new GeminiProvider(apiKey);
+      break;
+    }
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}"`);
+  }
+  return cachedProvider;
+}
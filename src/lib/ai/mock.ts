@@ -0,0 +1,152 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { encodePng } from "@/lib/png";
+import type { AIProvider, GeneratedImage, ImageRequest, TextRequest } from "./types";
+
+const MOCK_IMAGE_SIZE = 256;
+// Streamed responses arrive in pieces this long
+const MOCK_CHUNK_SIZE = 64;
+
+// Built-in fixtures for prompts that do not carry an example response of their own
+const FIXTURES: Array<{ match: RegExp; respond: (prompt: string) => unknown }> = [
+  {
+    match: /master children's travel storyteller/,
+    respond: prompt => {
+      const city = readConstraint(prompt, "City") || "Lisbon";
+      const [childName = "Ava", ageText = ""] = (readConstraint(prompt, "Child") || "").split(/, age /);
+      const age = parseInt(ageText, 10) || 7;
+      const interests = (prompt.match(/interests: (.*)/)?.[1] || "")
+        .split(",")
+        .map(s => s.trim())
+        .filter(s => s && s !== "none specified");
+      const pageCount = parseInt(readConstraint(prompt, "Pages") || "3", 10);
+      // Journey prompts list their stops as "  1. Paris: 2 pages, arriving by train"
+      const stops = [...prompt.matchAll(/^ {2}\d+\. ([^:\n]+): (\d+) pages?/gm)]
+        .map(match => ({ city: match[1], pages: parseInt(match[2], 10) }));
+      const pageCities = stops.length > 0
+        ? stops.flatMap(stop => Array<string>(stop.pages).fill(stop.city))
+        : Array<string>(pageCount).fill(city);
+      const book = {
+        id: `mock_${hash(prompt).slice(0, 8)}`,
+        title: `${childName}'s Day in ${city}`,
+        subtitle: `A mock adventure through ${city}`,
+        city,
+        dedication: `For ${childName}, who is always ready to explore.`,
+        readingLevel: readConstraint(prompt, "Reading level") || "middle",
+        narratorPersona: readConstraint(prompt, "Narrator") || "A friendly world traveler",
+        child: { name: childName, age, interests },
+        pages: pageCities.map((pageCity, i) => ({
+          text: `Page ${i + 1}. ${childName} walked through the busy streets of ${pageCity}, listening to the bells and smelling warm bread from a corner bakery. Every turn revealed something new to wonder about.`,
+          activity: `Can you find something on this page that starts with the letter ${String.fromCharCode(65 + i)}?`,
+          prompt: `${childName} exploring a sunny square in ${pageCity}, scene ${i + 1}`,
+        })),
+        recap: {
+          summary: `${childName} explored ${city} and made a new friend along the way.`,
+          sideCharacters: [{ name: "Pip", description: "A cheerful grey pigeon with a tiny red scarf" }],
+        },
+      };
+      if (stops.length === 0) {
+        return {
+          ...book,
+          glossary: { plaza: "An open square in a town where people meet" },
+          funFacts: [`${city} has streets full of stories waiting to be found.`],
+        };
+      }
+      return {
+        ...book,
+        routeSummary: `${childName} travels from ${stops.map(stop => stop.city).join(" to ")}.`,
+        stops: stops.map((stop, i) => ({
+          city: stop.city,
+          transition: i === 0 ? "" : `${childName} rides a train from ${stops[i - 1].city} to ${stop.city}.`,
+          funFacts: [`${stop.city} has streets full of stories waiting to be found.`],
+          glossary: { [`${stop.city.toLowerCase()} square`]: "An open square in a town where people meet" },
+        })),
+      };
+    },
+  },
+];
+
+/**
+ * Deterministic offline backend. Text requests resolve, in order, to a fixture file
+ * in MOCK_AI_FIXTURES_DIR named after the prompt hash, a built-in fixture, or the
+ * example JSON embedded in the prompt. Images are solid-colour PNGs derived from the
+ * prompt and seed.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = "mock" as const;
+  readonly textModel = "mock-text";
+  readonly imageModel = "mock-image";
+
+  constructor(private fixturesDir?: string) {}
+
+  async generateText({ prompt }: TextRequest): Promise<string> {
+    const fromFile = await this.readFixtureFile(prompt);
+    if (fromFile !== null) return fromFile;
+
+    const fixture = FIXTURES.find(f => f.match.test(prompt));
+    if (fixture) return JSON.stringify(fixture.respond(prompt));
+
+    const example = extractExampleJson(prompt);
+    if (example) return example;
+
+    return "This is a mock response.";
+  }
+
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    const text = await this.generateText(request);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) yield text.slice(i, i + MOCK_CHUNK_SIZE);
+  }
+
+  async generateImage({ prompt, seed }: ImageRequest): Promise<GeneratedImage | null> {
+    const digest = createHash("sha256").update(seed === undefined ? prompt : `${seed}:${prompt}`).digest();
+    const pixels = new Uint8Array(MOCK_IMAGE_SIZE * MOCK_IMAGE_SIZE * 4);
+    for (let i = 0; i < pixels.length; i += 4) {
+      pixels[i] = digest[0];
+      pixels[i + 1] = digest[1];
+      pixels[i + 2] = digest[2];
+      pixels[i + 3] = 255;
+    }
+    return { data: encodePng(MOCK_IMAGE_SIZE, MOCK_IMAGE_SIZE, pixels).toString("base64"), mimeType: "image/png" };
+  }
+
+  private async readFixtureFile(prompt: string): Promise<string | null> {
+    if (!this.fixturesDir) return null;
+    try {
+      return await readFile(join(this.fixturesDir, `${hash(prompt).slice(0, 16)}.txt`), "utf8");
+    } catch {
+      return null;
+    }
+  }
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function readConstraint(prompt: string, label: string): string | undefined {
+  return prompt.match(new RegExp(`- ${label}: ([^\\n]*)`))?.[1]?.trim();
+}
+
+// Most feature prompts end with "Return ... JSON ... { example }"; echo that example back
+function extractExampleJson(prompt: string): string | null {
+  const marker = prompt.lastIndexOf("JSON");
+  const start = prompt.indexOf("{", marker >= 0 ? marker : 0);
+  if (start < 0) return null;
+
+  let depth = 0;
+  for (let i = start; i < prompt.length; i++) {
+    if (prompt[i] === "{") depth++;
+    if (prompt[i] === "}") depth--;
+    if (depth === 0) {
+      const candidate = prompt.slice(start, i + 1);
+      try {
+        JSON.parse(candidate);
+        return candidate;
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
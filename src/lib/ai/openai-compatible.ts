@@ -0,0 +1,130 @@
+import type { AIProvider, GeneratedImage, ImageRequest, TextRequest } from "./types";
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+};
+
+type ImagesResponse = {
+  data?: Array<{ b64_json?: string; url?: string }>;
+};
+
+// Talks to any server exposing the OpenAI REST shape (llama.cpp, Ollama, LocalAI, vLLM...)
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai" as const;
+  readonly textModel = process.env.OPENAI_TEXT_MODEL || "llama3.1";
+  readonly imageModel = process.env.OPENAI_IMAGE_MODEL || "stable-diffusion";
+
+  constructor(private baseUrl: string, private apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    const res = await this.chatCompletion(request, false);
+    const data = (await res.json()) as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  // Reads the server-sent events of a streamed chat completion
+  async *streamText(request: TextRequest): AsyncIterable<string> {
+    const res = await this.chatCompletion(request, true);
+    if (!res.body) return;
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+        if (!data) continue;
+        if (data === "[DONE]") return;
+        const text = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+
+  private async chatCompletion({ prompt, images, responseSchema }: TextRequest, stream: boolean): Promise<Response> {
+    const content = images?.length
+      ? [
+          { type: "text", text: prompt },
+          ...images.map(image => ({
+            type: "image_url",
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+        ]
+      : prompt;
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.textModel,
+        messages: [{ role: "user", content }],
+        ...(responseSchema && {
+          response_format: { type: "json_schema", json_schema: { name: "response", schema: responseSchema } },
+        }),
+        ...(stream && { stream: true }),
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(`Text provider request failed: ${res.status} ${await res.text()}`);
+    }
+    return res;
+  }
+
+  async generateImage({ prompt, images, seed }: ImageRequest): Promise<GeneratedImage | null> {
+    let res: Response;
+    if (images?.length) {
+      const form = new FormData();
+      form.append("model", this.imageModel);
+      form.append("prompt", prompt);
+      form.append("response_format", "b64_json");
+      if (seed !== undefined) form.append("seed", String(seed));
+      images.forEach((image, index) => {
+        form.append("image[]", new Blob([Buffer.from(image.data, "base64")], { type: image.mimeType }), `image_${index}.png`);
+      });
+      res = await fetch(`${this.baseUrl}/images/edits`, {
+        method: "POST",
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        body: form,
+      });
+    } else {
+      res = await fetch(`${this.baseUrl}/images/generations`, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({ model: this.imageModel, prompt, response_format: "b64_json", seed }),
+      });
+    }
+    if (!res.ok) {
+      throw new Error(`Image provider request failed: ${res.status} ${await res.text()}`);
+    }
+
+    const data = (await res.json()) as ImagesResponse;
+    const image = data.data?.[0];
+    if (image?.b64_json) {
+      return { data: image.b64_json, mimeType: "image/png" };
+    }
+    if (image?.url) {
+      const imageRes = await fetch(image.url);
+      if (!imageRes.ok) return null;
+      const buffer = Buffer.from(await imageRes.arrayBuffer());
+      return { data: buffer.toString("base64"), mimeType: imageRes.headers.get("content-type") || "image/png" };
+    }
+    return null;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+}
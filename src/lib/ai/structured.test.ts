@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { extractJsonCandidate, generateStructured, readCompletedItems, readCompletedString, StructuredOutputError } from "./structured";
+import type { TextProvider, TextRequest } from "./types";
+
+// Answers each request with the next scripted response and keeps the prompts it was sent
+function scripted(...responses: string[]): TextProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    textModel: "scripted",
+    prompts,
+    async generateText({ prompt }: TextRequest) {
+      prompts.push(prompt);
+      const response = responses.shift();
+      if (response === undefined) throw new Error("No more scripted responses");
+      return response;
+    },
+  };
+}
+
+const Story = z.object({
+  title: z.string().min(1),
+  pages: z.array(z.object({ text: z.string().min(1) })).min(1),
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("extractJsonCandidate", () => {
+  it("finds JSON in fences or surrounding prose", () => {
+    expect(extractJsonCandidate('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJsonCandidate('Here you go:\n```json\n{"a":2}\n```')).toEqual({ a: 2 });
+    expect(extractJsonCandidate('Sure! {"a":3} Enjoy.')).toEqual({ a: 3 });
+    expect(extractJsonCandidate("no json here")).toBeUndefined();
+  });
+});
+
+describe("generateStructured", () => {
+  it("returns the first valid response without repairs", async () => {
+    const ai = scripted('{"title":"Lisbon","pages":[{"text":"Ava rode the tram."}]}');
+    const result = await generateStructured(ai, { prompt: "Write a story", schema: Story });
+    expect(result).toEqual({
+      data: { title: "Lisbon", pages: [{ text: "Ava rode the tram." }] },
+      repairedFields: [],
+      attempts: 1,
+    });
+  });
+
+  it("feeds validation errors back and reports the fields it repaired", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const ai = scripted(
+      '{"title":"","pages":[{"text":"Ava rode the tram."},{"text":""}]}',
+      '{"title":"Lisbon","pages":[{"text":"Ava rode the tram."},{"text":"She waved at a cat."}]}',
+    );
+    const result = await generateStructured(ai, { prompt: "Write a story", schema: Story });
+
+    expect(result.attempts).toBe(2);
+    expect(result.repairedFields).toEqual(["title", "pages.1.text"]);
+    expect(result.data.pages[1].text).toBe("She waved at a cat.");
+    // The repair round repeats the request with the bad response and what was wrong with it
+    expect(ai.prompts[1]).toContain("Write a story");
+    expect(ai.prompts[1]).toContain('{"title":"","pages"');
+    expect(ai.prompts[1]).toContain("- pages.1.text:");
+  });
+
+  it("treats a response that is not JSON as a repairable failure", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const ai = scripted("Once upon a time...", '{"title":"Lisbon","pages":[{"text":"Ava rode the tram."}]}');
+    const result = await generateStructured(ai, { prompt: "Write a story", schema: Story });
+    expect(result.repairedFields).toEqual(["$"]);
+    expect(ai.prompts[1]).toContain("- Response was not valid JSON");
+  });
+
+  it("gives up after maxRepairs extra rounds with the last issues", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const ai = scripted('{"title":""}', '{"title":""}', '{"title":"", "pages":[]}', "never asked for");
+    const attempt = generateStructured(ai, { prompt: "Write a story", schema: Story, maxRepairs: 2 });
+
+    await expect(attempt).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(attempt).rejects.toMatchObject({ issues: ["title: Too small: expected string to have >=1 characters", expect.stringMatching(/^pages:/)] });
+    expect(ai.prompts).toHaveLength(3);
+  });
+
+  it("streams each round through onText when the provider can", async () => {
+    const chunks = ['{"title":"Lis', 'bon","pages":[{"text":"Hi."}]}'];
+    const ai: TextProvider = {
+      textModel: "streaming",
+      generateText: () => Promise.reject(new Error("should stream")),
+      async *streamText() {
+        yield* chunks;
+      },
+    };
+    const seen: string[] = [];
+    const result = await generateStructured(ai, { prompt: "Write a story", schema: Story, onText: text => seen.push(text) });
+    expect(result.data.title).toBe("Lisbon");
+    expect(seen).toEqual(['{"title":"Lis', '{"title":"Lisbon","pages":[{"text":"Hi."}]}']);
+  });
+});
+
+describe("readCompletedItems", () => {
+  // A book cut off part way through its second page, as it arrives while streaming
+  const partial = '{"title":"Ava\'s Day","pages":[{"text":"She said \\"hi\\" {and} [waved]","tags":["a","b"]},{"text":"Then the tr';
+
+  it("returns only the items the model has finished", () => {
+    expect(readCompletedItems(partial, "pages")).toEqual([{ text: 'She said "hi" {and} [waved]', tags: ["a", "b"] }]);
+  });
+
+  it("stops at the end of the array", () => {
+    const text = '{"pages":[{"text":"One"},{"text":"Two"}],"glossary":[{"text":"Not a page"}]}';
+    expect(readCompletedItems(text, "pages")).toEqual([{ text: "One" }, { text: "Two" }]);
+  });
+
+  it("returns nothing until the array starts", () => {
+    expect(readCompletedItems('{"title":"Ava', "pages")).toEqual([]);
+  });
+});
+
+describe("readCompletedString", () => {
+  it("reads a finished string field, unescaped", () => {
+    expect(readCompletedString('{"title":"Ava\'s \\"Day\\"","pages":[', "title")).toBe('Ava\'s "Day"');
+  });
+
+  it("waits for the closing quote", () => {
+    expect(readCompletedString('{"title":"Ava\'s Da', "title")).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import type { TextProvider, TextRequest } from "./types";
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export type StructuredResult<T> = {
+  data: T;
+  // Paths (e.g. "glossary", "pages.2.text") that failed validation and were fixed by a repair round
+  repairedFields: string[];
+  attempts: number;
+};
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, readonly issues: string[]) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+// Models sometimes wrap JSON in fences or prose even when asked not to
+export function extractJsonCandidate(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {}
+  const match = text.match(/```json[\s\S]*?```/i) || text.match(/```[\s\S]*?```/);
+  if (match) {
+    const inner = match[0].replace(/```json|```/g, "").trim();
+    try { return JSON.parse(inner); } catch {}
+  }
+  const firstBrace = text.indexOf("{");
+  const lastBrace = text.lastIndexOf("}");
+  if (firstBrace >= 0 && lastBrace > firstBrace) {
+    try { return JSON.parse(text.slice(firstBrace, lastBrace + 1)); } catch {}
+  }
+  return undefined;
+}
+
+/**
+ * Reads the items of the array under `key` that the model has finished writing, from
+ * JSON that may still be cut off part way through. Only object items are returned.
+ */
+export function readCompletedItems(text: string, key: string): unknown[] {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!match) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      if (depth++ === 0) start = i;
+    } else if (char === "}" || char === "]") {
+      if (depth === 0) break; // end of the array
+      if (--depth === 0 && text[start] === "{") {
+        try { items.push(JSON.parse(text.slice(start, i + 1))); } catch {}
+      }
+    }
+  }
+  return items;
+}
+
+// A string field the model has finished writing, e.g. the title at the top of a book
+export function readCompletedString(text: string, key: string): string | undefined {
+  const match = new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`).exec(text);
+  if (!match) return undefined;
+  try { return JSON.parse(match[1]) as string; } catch { return undefined; }
+}
+
+/**
+ * Asks the model for JSON matching `schema`, passing it as a response schema, and
+ * feeds validation errors back for up to `maxRepairs` extra rounds. Throws
+ * StructuredOutputError when the output is still invalid after the last round.
+ * With `onText`, providers that can stream report each round's response so far as it grows.
+ */
+export async function generateStructured<S extends z.ZodType>(
+  ai: TextProvider,
+  { prompt, schema, maxRepairs = DEFAULT_MAX_REPAIRS, onText }: {
+    prompt: string;
+    schema: S;
+    maxRepairs?: number;
+    onText?: (text: string) => void;
+  }
+): Promise<StructuredResult<z.infer<S>>> {
+  const responseSchema = z.toJSONSchema(schema, { unrepresentable: "any" }) as Record<string, unknown>;
+  const repairedFields = new Set<string>();
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const text = await requestText(ai, { prompt: currentPrompt, responseSchema }, onText);
+    const candidate = extractJsonCandidate(text);
+
+    let issuePaths: string[];
+    if (candidate === undefined) {
+      issues = ["Response was not valid JSON"];
+      issuePaths = ["$"];
+    } else {
+      const parsed = schema.safeParse(candidate);
+      if (parsed.success) {
+        return { data: parsed.data, repairedFields: Array.from(repairedFields), attempts: attempt };
+      }
+      issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "$"}: ${issue.message}`);
+      issuePaths = parsed.error.issues.map(issue => issue.path.join(".") || "$");
+    }
+
+    console.warn(`Structured output attempt ${attempt} failed validation:`, issues);
+    issuePaths.forEach(path => repairedFields.add(path));
+    currentPrompt = `${prompt}
+
+Your previous response was:
+${text}
+
+It failed validation with these errors:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Return the complete corrected JSON only, fixing every error above.`;
+  }
+
+  throw new StructuredOutputError("Model output failed validation after repair attempts", issues);
+}
+
+async function requestText(ai: TextProvider, request: TextRequest, onText?: (text: string) => void): Promise<string> {
+  if (!onText || !ai.streamText) return ai.generateText(request);
+  let text = "";
+  for await (const chunk of ai.streamText(request)) {
+    text += chunk;
+    onText(text);
+  }
+  return text;
+}
@@ -0,0 +1,39 @@
+// Shared contract for text and image generation backends
+
+export type InlineImage = {
+  data: string; // base64-encoded bytes
+  mimeType: string;
+};
+
+export type TextRequest = {
+  prompt: string;
+  images?: InlineImage[];
+  // JSON Schema the response must follow; backends that support structured output enforce it
+  responseSchema?: Record<string, unknown>;
+};
+
+export type ImageRequest = {
+  prompt: string;
+  // Reference or source images sent alongside the prompt (character sheets, edits)
+  images?: InlineImage[];
+  // Reproducibility hint; backends that cannot seed generation ignore it
+  seed?: number;
+};
+
+export type GeneratedImage = InlineImage;
+
+export interface TextProvider {
+  readonly textModel: string;
+  generateText(request: TextRequest): Promise<string>;
+  // Yields the response in pieces as the model writes it; backends without streaming leave it out
+  streamText?(request: TextRequest): AsyncIterable<string>;
+}
+
+export interface ImageProvider {
+  readonly imageModel: string;
+  generateImage(request: ImageRequest): Promise<GeneratedImage | null>;
+}
+
+export interface AIProvider extends TextProvider, ImageProvider {
+  readonly name: "gemini" | "mock" | "openai";
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { isAudioCurrent, type AudioManifest } from "@/lib/audio";
+import { narratedTextHash, TEXT_HASH_LENGTH } from "@/lib/audio-text";
+import { testBook } from "@/test/fixtures";
+
+describe("narratedTextHash", () => {
+  it("matches the hash the audio export stores, so the browser and server agree", async () => {
+    const book = testBook();
+    const textHash = await narratedTextHash(book);
+    expect(textHash).toMatch(new RegExp(`^[0-9a-f]{${TEXT_HASH_LENGTH}}$`));
+    expect(isAudioCurrent({ ...book, audio: { textHash } as AudioManifest })).toBe(true);
+  });
+
+  it("changes when a page is edited, even if its word count stays the same", async () => {
+    const book = testBook();
+    const edited = { ...book, pages: book.pages.map((page, i) => (i === 1 ? { ...page, text: page.text.replace("yellow", "green") } : page)) };
+    expect(await narratedTextHash(edited)).not.toBe(await narratedTextHash(book));
+  });
+});
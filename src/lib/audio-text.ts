@@ -0,0 +1,17 @@
+import type { Book } from "@/lib/supabase";
+
+// Fingerprint of the text a narration reads, stored with the audio as textHash so the app
+// can tell when a book was edited after it was narrated. Kept apart from audio.ts so the
+// browser's read-aloud player can check it too.
+
+export const TEXT_HASH_LENGTH = 16;
+
+export function narratedText(book: Pick<Book, "pages">): string {
+  return book.pages.map(page => page.text).join("\n");
+}
+
+// SHA-256 of the narrated text in hex, through Web Crypto so it runs in the browser
+export async function narratedTextHash(book: Pick<Book, "pages">): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(narratedText(book)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("").slice(0, TEXT_HASH_LENGTH);
+}
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { narratedText, TEXT_HASH_LENGTH } from "@/lib/audio-text";
+import { getBook } from "@/lib/books";
+import { uploadImageToStorage, type Book } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+import { getTTSProvider, type WordTiming } from "@/lib/tts";
+import { concatPcm, encodeWav, pcmDuration, silence, tones, type Pcm } from "@/lib/wav";
+
+// Read-aloud audio for whole books: every page is spoken by the offline TTS engine and
+// stored on its own, then joined into one book file with a chime at each page turn. The
+// manifest records where each page and word falls, for players that follow along.
+
+export const AUDIO_BUCKET = "story-audio";
+
+export const AudioOptionsSchema = z.object({
+  // A bare voice name (espeak "en-us" or "en+f3", piper "en_US-lessac-medium"), never a path
+  voice: z.string().regex(/^[\w+-]+$/, "Must be a voice name").max(100).optional(),
+  rate: z.number().min(0.5).max(2).default(0.9),
+});
+
+export type AudioOptions = z.infer<typeof AudioOptionsSchema>;
+
+export type PageAudio = {
+  pageIndex: number;
+  // This page's own clip
+  url: string;
+  duration: number;
+  // Where the page starts in the book file, in seconds
+  start: number;
+  // Relative to the page clip; add `start` for the book file
+  words: WordTiming[];
+  // Whether the engine reported the word timings or they were estimated
+  timing: "engine" | "estimated";
+};
+
+export type AudioChapter = {
+  title: string;
+  start: number;
+  end: number;
+  pageIndexes: number[];
+};
+
+export type AudioManifest = {
+  version: 1;
+  provider: string;
+  voice: string;
+  rate: number;
+  format: "audio/wav";
+  sampleRate: number;
+  // The whole book: title, then every page with a chime between pages
+  bookUrl: string;
+  duration: number;
+  pages: PageAudio[];
+  chapters: AudioChapter[];
+  // The pages' text when this was made; audio is stale once the text changes
+  textHash: string;
+  created_at: string;
+};
+
+const PAUSE_SECONDS = 0.4;
+const CHIME_NOTES = [
+  { frequency: 1318.5, seconds: 0.18 },
+  { frequency: 1046.5, seconds: 0.32 },
+];
+
+/**
+ * Speaks every page of the book, stores the page clips, the book file and its manifest,
+ * and records the manifest on the book. Returns null when the caller cannot see the book.
+ */
+export async function generateBookAudio(bookId: string, options: AudioOptions): Promise<AudioManifest | null> {
+  const book = await getBook(bookId);
+  if (!book) return null;
+
+  const tts = getTTSProvider();
+  const voice = options.voice || tts.voice;
+  const folder = `${book.id}/${Date.now()}`;
+
+  const intro = await tts.synthesize({ text: [book.title, book.subtitle].filter(Boolean).join(". "), voice, rate: options.rate });
+  const sampleRate = intro.audio.sampleRate;
+  const pause = silence(PAUSE_SECONDS, sampleRate);
+  const chime = tones(CHIME_NOTES, sampleRate);
+
+  const parts: Pcm[] = [intro.audio];
+  let cursor = pcmDuration(intro.audio);
+  const pages: PageAudio[] = [];
+  for (const [pageIndex, page] of book.pages.entries()) {
+    const speech = await tts.synthesize({ text: page.text, voice, rate: options.rate });
+    const duration = pcmDuration(speech.audio);
+    parts.push(pause, chime, pause);
+    cursor += PAUSE_SECONDS * 2 + pcmDuration(chime);
+
+    const url = await storeAudio(speech.audio, `${folder}/page-${String(pageIndex + 1).padStart(2, "0")}.wav`);
+    pages.push({
+      pageIndex,
+      url,
+      duration,
+      start: cursor,
+      words: speech.words ?? estimateWordTimings(page.text, duration),
+      timing: speech.words ? "engine" : "estimated",
+    });
+    parts.push(speech.audio);
+    cursor += duration;
+  }
+
+  const manifest: AudioManifest = {
+    version: 1,
+    provider: tts.name,
+    voice,
+    rate: options.rate,
+    format: "audio/wav",
+    sampleRate,
+    bookUrl: await storeAudio(concatPcm(parts), `${folder}/book.wav`),
+    duration: cursor,
+    pages,
+    chapters: audioChapters(book, pages, cursor),
+    textHash: pagesTextHash(book),
+    created_at: new Date().toISOString(),
+  };
+
+  const manifestUrl = await uploadImageToStorage(
+    Buffer.from(JSON.stringify(manifest, null, 2)),
+    `${folder}/manifest.json`,
+    AUDIO_BUCKET,
+    "application/json",
+  );
+  if (!manifestUrl) throw new Error("Could not store the audio manifest");
+
+  const supabase = await getServerSupabase();
+  const { error } = await supabase.from("books").update({ audio: manifest }).eq("id", book.id);
+  if (error) throw error;
+  return manifest;
+}
+
+// Whether the stored audio still reads the book's current text
+export function isAudioCurrent(book: Book): boolean {
+  return !!book.audio && book.audio.textHash === pagesTextHash(book);
+}
+
+/**
+ * Spreads the words over the clip by length, with a little extra for punctuation where
+ * the voice pauses. Good enough to highlight along when the engine gives no timings.
+ */
+export function estimateWordTimings(text: string, duration: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const weight = (word: string) => word.length + 2 + (/[.!?]$/.test(word) ? 4 : /[,;:]$/.test(word) ? 2 : 0);
+  const total = words.reduce((sum, word) => sum + weight(word), 0);
+  let time = 0;
+  return words.map(word => {
+    const span = total > 0 ? (weight(word) / total) * duration : 0;
+    const timing = { word, start: time, end: time + span * (word.length + 2) / weight(word) };
+    time += span;
+    return timing;
+  });
+}
+
+// Journey books get a chapter per stop; other books a chapter per page
+function audioChapters(book: Book, pages: PageAudio[], duration: number): AudioChapter[] {
+  const chapters: AudioChapter[] = [{ title: book.title, start: 0, end: pages[0]?.start ?? duration, pageIndexes: [] }];
+  for (const page of pages) {
+    const city = book.pages[page.pageIndex].city;
+    const previous = chapters[chapters.length - 1];
+    if (book.journey && city && previous.pageIndexes.length > 0 && book.pages[previous.pageIndexes[0]].city === city) {
+      previous.pageIndexes.push(page.pageIndex);
+      continue;
+    }
+    chapters.push({
+      title: book.journey && city ? city : `Page ${page.pageIndex + 1}`,
+      start: page.start,
+      end: page.start,
+      pageIndexes: [page.pageIndex],
+    });
+  }
+  chapters.forEach((chapter, i) => {
+    if (chapter.pageIndexes.length > 0) chapter.end = chapters[i + 1]?.start ?? duration;
+  });
+  return chapters;
+}
+
+async function storeAudio(pcm: Pcm, path: string): Promise<string> {
+  const url = await uploadImageToStorage(encodeWav(pcm), path, AUDIO_BUCKET, "audio/wav");
+  if (!url) throw new Error(`Could not store ${path}`);
+  return url;
+}
+
+// Same hash as narratedTextHash, computed synchronously for the server
+function pagesTextHash(book: Book): string {
+  return createHash("sha256").update(narratedText(book)).digest("hex").slice(0, TEXT_HASH_LENGTH);
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+
+export const ReadingLevelSchema = z.enum(["early", "middle", "advanced"]);
+
+export const TransportSchema = z.enum(["train", "plane", "boat", "car", "bus"]);
+
+export const QuizSchema = z.object({
+  questions: z.array(z.object({
+    question: z.string().min(1),
+    options: z.array(z.string()).min(2),
+    correct: z.string(),
+    explanation: z.string(),
+  })).min(1),
+});
+
+export const PageSchema = z.object({
+  text: z.string().min(1),
+  activity: z.string().optional(),
+  prompt: z.string().optional(),
+  imageUrl: z.string().optional(),
+  altText: z.string().optional(),
+  quiz: QuizSchema.optional(),
+  // Journey books: the stop this page takes place in
+  city: z.string().optional(),
+});
+
+// One stop of a multi-city journey book, with its share of the pages and what the child learns there
+export const JourneyLegSchema = z.object({
+  city: z.string().min(1),
+  pageCount: z.number().int().min(1),
+  // How the travellers arrived from the previous stop; absent on the first leg
+  arriveBy: TransportSchema.optional(),
+  transition: z.string().optional(),
+  funFacts: z.array(z.string()),
+  glossary: z.record(z.string(), z.string()),
+});
+
+export const JourneySchema = z.object({
+  // Map-style overview of the whole trip, e.g. "From Paris by train to Rome, then by boat to Venice"
+  routeSummary: z.string().min(1),
+  legs: z.array(JourneyLegSchema).min(2),
+});
+
+// Someone the child met in a book, remembered so later books in a series can bring them back
+export const SideCharacterSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+});
+
+// What a sequel needs to know about a book without reading all of it
+export const RecapSchema = z.object({
+  summary: z.string().min(1),
+  sideCharacters: z.array(SideCharacterSchema),
+});
+
+// The story content every book has, whether it came from the model, the database or localStorage
+export const BookSchema = z.object({
+  title: z.string().min(1),
+  subtitle: z.string(),
+  city: z.string().min(1),
+  dedication: z.string(),
+  readingLevel: ReadingLevelSchema,
+  narratorPersona: z.string(),
+  child: z.object({
+    name: z.string().min(1),
+    age: z.number().int(),
+    interests: z.array(z.string()),
+  }),
+  pages: z.array(PageSchema).min(1),
+  glossary: z.record(z.string(), z.string())
+    .refine(glossary => Object.keys(glossary).length > 0, "Glossary must have at least one entry"),
+  funFacts: z.array(z.string()).min(1),
+  // Journey books only; glossary and funFacts above then hold every stop's entries combined
+  journey: JourneySchema.optional(),
+  // Written with every new book; older books have none
+  recap: RecapSchema.optional(),
+});
+
+export type BookContent = z.infer<typeof BookSchema>;
+export type BookPage = z.infer<typeof PageSchema>;
+export type Quiz = z.infer<typeof QuizSchema>;
+export type Journey = z.infer<typeof JourneySchema>;
+export type JourneyLeg = z.infer<typeof JourneyLegSchema>;
+export type Transport = z.infer<typeof TransportSchema>;
+export type SideCharacter = z.infer<typeof SideCharacterSchema>;
+export type Recap = z.infer<typeof RecapSchema>;
+
+// A stop as requested by the user, before the story is written
+export type JourneyStop = {
+  city: string;
+  pages: number;
+  arriveBy?: Transport;
+};
+
+export type BookRequest = {
+  city: string;
+  childName: string;
+  childAge: number;
+  interests: string[];
+  narratorPersona: string;
+  readingLevel: z.infer<typeof ReadingLevelSchema>;
+  pages: number;
+  journey?: JourneyStop[];
+};
+
+/**
+ * Narrows BookSchema to what a specific request asked for, so a book with
+ * the wrong page count or reading level fails validation like any other defect.
+ */
+export function createBookSchema(request: BookRequest) {
+  return BookSchema.extend({
+    readingLevel: z.literal(request.readingLevel),
+    pages: z.array(PageSchema.pick({ text: true, activity: true, prompt: true })).length(request.pages),
+    child: z.object({
+      name: z.literal(request.childName),
+      age: z.literal(request.childAge),
+      interests: z.array(z.string()),
+    }),
+    recap: RecapSchema,
+  });
+}
+
+/**
+ * What the model returns for a journey book: pages in travel order plus one entry per
+ * stop, in the requested order, holding the stop's travel scene, facts and glossary.
+ */
+export function createJourneyBookSchema(request: BookRequest & { journey: JourneyStop[] }) {
+  const stops = request.journey;
+  return BookSchema.omit({ glossary: true, funFacts: true, journey: true }).extend({
+    recap: RecapSchema,
+    readingLevel: z.literal(request.readingLevel),
+    pages: z.array(PageSchema.pick({ text: true, activity: true, prompt: true }))
+      .length(stops.reduce((total, stop) => total + stop.pages, 0)),
+    child: z.object({
+      name: z.literal(request.childName),
+      age: z.literal(request.childAge),
+      interests: z.array(z.string()),
+    }),
+    routeSummary: z.string().min(1),
+    stops: z.array(z.object({
+      city: z.string(),
+      // How the child travels here from the previous stop; empty for the first stop
+      transition: z.string(),
+      funFacts: z.array(z.string()).min(1),
+      glossary: z.record(z.string(), z.string())
+        .refine(glossary => Object.keys(glossary).length > 0, "Glossary must have at least one entry"),
+    }))
+      .length(stops.length)
+      .refine(
+        output => output.every((stop, i) => stop.city === stops[i].city),
+        `Stops must be ${stops.map(stop => stop.city).join(", ")} in that order`
+      ),
+  });
+}
+
+// Turns the model's journey output into book content, assigning each page to its stop
+export function journeyBookFromOutput(
+  stops: JourneyStop[],
+  output: z.infer<ReturnType<typeof createJourneyBookSchema>>
+): BookContent {
+  const { routeSummary, stops: details, ...book } = output;
+  const pageCities = stops.flatMap(stop => Array<string>(stop.pages).fill(stop.city));
+  const legs: JourneyLeg[] = stops.map((stop, i) => ({
+    city: stop.city,
+    pageCount: stop.pages,
+    ...(i > 0 && { arriveBy: stop.arriveBy, transition: details[i].transition || undefined }),
+    funFacts: details[i].funFacts,
+    glossary: details[i].glossary,
+  }));
+
+  return {
+    ...book,
+    city: journeyTitle(stops),
+    pages: book.pages.map((page, i) => ({ ...page, city: pageCities[i] })),
+    glossary: Object.assign({}, ...legs.map(leg => leg.glossary)),
+    funFacts: legs.flatMap(leg => leg.funFacts),
+    journey: { routeSummary, legs },
+  };
+}
+
+// Display name of a journey, stored as the book's city
+export function journeyTitle(stops: Array<{ city: string }>): string {
+  return stops.map(stop => stop.city).join(" → ");
+}
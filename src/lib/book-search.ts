@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { ReadingLevelSchema } from "@/lib/book-schema";
+import type { Book } from "@/lib/supabase";
+
+// Library search: the query GET /api/books accepts, and the same search run over the
+// books on this device when the library is offline or signed out.
+
+const FlagSchema = z.enum(["true", "false", "1", "0"]).default("false").transform(v => v === "true" || v === "1");
+
+export const BookSortSchema = z.enum(["recent", "oldest", "title"]);
+
+export const BookSearchSchema = z.object({
+  // Words to find in the title, subtitle, page text and glossary
+  q: z.string().trim().max(200).optional(),
+  // Any stop of the book's journey
+  city: z.string().trim().min(1).optional(),
+  // The child the book was written for, by name
+  child: z.string().trim().min(1).optional(),
+  readingLevel: ReadingLevelSchema.optional(),
+  // Created on or after `from` and on or before `to`
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  hasAudio: FlagSchema,
+  hasIllustrations: FlagSchema,
+  sort: BookSortSchema.default("recent"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+export type BookSearch = z.infer<typeof BookSearchSchema>;
+export type BookSort = z.infer<typeof BookSortSchema>;
+
+// Filters without paging, as the library UI keeps them
+export type BookFilters = Omit<BookSearch, "page" | "pageSize">;
+
+export const EMPTY_BOOK_FILTERS: BookFilters = {
+  hasAudio: false,
+  hasIllustrations: false,
+  sort: "recent",
+};
+
+export function hasBookFilters(filters: BookFilters): boolean {
+  return !!(filters.q || filters.city || filters.child || filters.readingLevel || filters.from || filters.to
+    || filters.hasAudio || filters.hasIllustrations);
+}
+
+// Query string for GET /api/books; unset filters are left out
+export function bookSearchParams(filters: BookFilters, page: number, pageSize: number): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries({ ...filters, page, pageSize }).forEach(([key, value]) => {
+    if (value !== undefined && value !== "" && value !== false) params.set(key, String(value));
+  });
+  return params;
+}
+
+export function hasIllustrations(book: Book): boolean {
+  return book.pages.some(page => !!page.imageUrl);
+}
+
+function bookCities(book: Book): string[] {
+  return book.journey ? book.journey.legs.map(leg => leg.city) : [book.city];
+}
+
+/**
+ * The search run over books already on the device. Every word has to appear somewhere
+ * in the book, which is close to what the server's full-text search finds.
+ */
+export function searchLocalBooks(books: Book[], filters: BookFilters): Book[] {
+  const words = (filters.q || "").toLowerCase().split(/\s+/).filter(Boolean);
+  const fromTime = filters.from ? new Date(filters.from).getTime() : null;
+  const toTime = filters.to ? new Date(filters.to).getTime() + 24 * 60 * 60 * 1000 : null;
+
+  const matches = books.filter(book => {
+    if (filters.city && !bookCities(book).some(city => city.toLowerCase() === filters.city!.toLowerCase())) return false;
+    if (filters.child && book.child.name.toLowerCase() !== filters.child.toLowerCase()) return false;
+    if (filters.readingLevel && book.readingLevel !== filters.readingLevel) return false;
+    if (filters.hasAudio && !book.audio) return false;
+    if (filters.hasIllustrations && !hasIllustrations(book)) return false;
+    const created = book.created_at ? new Date(book.created_at).getTime() : null;
+    if (fromTime !== null && (created === null || created < fromTime)) return false;
+    if (toTime !== null && (created === null || created >= toTime)) return false;
+    if (words.length === 0) return true;
+
+    const text = [
+      book.title,
+      book.subtitle,
+      ...book.pages.map(page => page.text),
+      ...Object.entries(book.glossary || {}).flat(),
+    ].join(" ").toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+
+  return sortBooks(matches, filters.sort);
+}
+
+export function sortBooks(books: Book[], sort: BookSort): Book[] {
+  const created = (book: Book) => book.created_at || "";
+  return [...books].sort((a, b) => {
+    if (sort === "title") return a.title.localeCompare(b.title);
+    if (sort === "oldest") return created(a).localeCompare(created(b));
+    return created(b).localeCompare(created(a));
+  });
+}
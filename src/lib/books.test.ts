@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Journey } from "@/lib/book-schema";
+import { BookConflictError, updateBook, updateBookPage, type BookPatch } from "@/lib/books";
+import { bookToRow, type Book } from "@/lib/supabase";
+import { FakeSupabase } from "@/test/fake-supabase";
+import { testBook } from "@/test/fixtures";
+
+let db: FakeSupabase;
+vi.mock("@/lib/supabase-server", () => ({ getServerSupabase: async () => db }));
+
+const LOADED_AT = "2025-06-01T09:00:00.000Z";
+
+// Lisbon (2 pages) by train to Porto (1 page) by boat to Vigo (1 page)
+const journey: Journey = {
+  routeSummary: "From Lisbon by train to Porto, then by boat to Vigo",
+  legs: [
+    { city: "Lisbon", pageCount: 2, funFacts: ["Lisbon has trams."], glossary: {} },
+    { city: "Porto", pageCount: 1, arriveBy: "train", transition: "The train hugged the coast.", funFacts: [], glossary: {} },
+    { city: "Vigo", pageCount: 1, arriveBy: "boat", transition: "A ferry crossed the bay.", funFacts: [], glossary: {} },
+  ],
+};
+const cities = ["Lisbon", "Lisbon", "Porto", "Vigo"];
+
+function store(book: Book) {
+  db.table("books").push({ ...bookToRow(book), id: book.id, updated_at: LOADED_AT });
+}
+
+function storedRow() {
+  return db.table("books")[0];
+}
+
+// The stored pages as the editor sends them back, each with the index it was loaded at
+function editedPages(book: Book): NonNullable<BookPatch["pages"]> {
+  return book.pages.map((page, sourceIndex) => ({ ...page, sourceIndex }));
+}
+
+beforeEach(() => {
+  db = new FakeSupabase();
+});
+
+describe("updateBook", () => {
+  const book = testBook();
+
+  it("saves the patch and reports where each old page went", async () => {
+    store(book);
+    const [first, , third] = editedPages(book);
+    const result = await updateBook(book.id, {
+      title: "Ava in Lisbon",
+      pages: [third, { text: "A new page.", prompt: "Ava at the castle" }, first],
+      expectedUpdatedAt: LOADED_AT,
+    });
+
+    expect(result!.book.title).toBe("Ava in Lisbon");
+    expect(result!.book.pages.map(page => page.text)).toEqual([third.text, "A new page.", first.text]);
+    expect(result!.pageMoves).toEqual([2, null, 0]);
+    expect(storedRow().updated_at).not.toBe(LOADED_AT);
+  });
+
+  it("refuses a patch made from an older copy of the book", async () => {
+    store(book);
+    const patch = updateBook(book.id, { title: "Stale edit", expectedUpdatedAt: "2025-05-31T09:00:00.000Z" });
+    await expect(patch).rejects.toBeInstanceOf(BookConflictError);
+    await expect(patch).rejects.toMatchObject({ current: { title: book.title } });
+    expect(storedRow().title).toBe(book.title);
+  });
+
+  it("refuses a patch when another save lands between the check and the write", async () => {
+    store(book);
+    db.beforeWrite = () => {
+      Object.assign(storedRow(), { title: "Saved elsewhere", updated_at: "2025-06-01T09:00:05.000Z" });
+    };
+
+    const patch = updateBook(book.id, { title: "Lost the race", expectedUpdatedAt: LOADED_AT });
+    await expect(patch).rejects.toMatchObject({ name: "BookConflictError", current: { title: "Saved elsewhere" } });
+    expect(storedRow().title).toBe("Saved elsewhere");
+  });
+
+  it("returns null for a book the caller cannot see", async () => {
+    expect(await updateBook("missing", { title: "Nobody's book" })).toBeNull();
+  });
+});
+
+describe("updateBook journey legs", () => {
+  const fourPages = testBook(cities.map(() => undefined));
+  const book = { ...fourPages, journey, pages: fourPages.pages.map((page, i) => ({ ...page, city: cities[i] })) };
+
+  async function legsAfter(pages: NonNullable<BookPatch["pages"]>) {
+    store(book);
+    const result = await updateBook(book.id, { pages });
+    return result!.book.journey?.legs.map(({ city, pageCount, arriveBy }) => ({ city, pageCount, arriveBy })) ?? null;
+  }
+
+  it("puts an inserted page in the stop of the page before it", async () => {
+    const pages = editedPages(book);
+    const legs = await legsAfter([...pages.slice(0, 3), { text: "More of Porto.", prompt: "Ava at the river" }, pages[3]]);
+    expect(legs).toEqual([
+      { city: "Lisbon", pageCount: 2, arriveBy: undefined },
+      { city: "Porto", pageCount: 2, arriveBy: "train" },
+      { city: "Vigo", pageCount: 1, arriveBy: "boat" },
+    ]);
+    expect((storedRow().pages as Array<{ city?: string }>)[3].city).toBe("Porto");
+  });
+
+  it("puts a page inserted at the start in the first stop", async () => {
+    const legs = await legsAfter([{ text: "Before we left.", prompt: "Ava packing" }, ...editedPages(book)]);
+    expect(legs?.[0]).toEqual({ city: "Lisbon", pageCount: 3, arriveBy: undefined });
+  });
+
+  it("follows the pages when stops are reordered", async () => {
+    const [lisbon1, lisbon2, porto, vigo] = editedPages(book);
+    const legs = await legsAfter([vigo, lisbon1, lisbon2, porto]);
+    // The journey now starts in Vigo, so nothing arrives there
+    expect(legs).toEqual([
+      { city: "Vigo", pageCount: 1, arriveBy: undefined },
+      { city: "Lisbon", pageCount: 2, arriveBy: undefined },
+      { city: "Porto", pageCount: 1, arriveBy: "train" },
+    ]);
+  });
+
+  it("drops stops left without pages, down to a single-city book", async () => {
+    const [lisbon1, lisbon2, porto] = editedPages(book);
+    expect(await legsAfter([lisbon1, lisbon2, porto])).toHaveLength(2);
+
+    db = new FakeSupabase();
+    expect(await legsAfter([lisbon1, lisbon2])).toBeNull();
+  });
+});
+
+describe("updateBookPage", () => {
+  const book = testBook();
+
+  it("reapplies the change when another write lands first", async () => {
+    store(book);
+    let writes = 0;
+    db.beforeWrite = () => {
+      // Someone else saves a new title just before this write
+      if (writes++ === 0) Object.assign(storedRow(), { title: "Renamed", updated_at: "2025-06-01T09:00:05.000Z" });
+    };
+
+    const updated = await updateBookPage(book.id, 1, { altText: "Ava and a cat" });
+    expect(updated.title).toBe("Renamed");
+    expect(storedRow().title).toBe("Renamed");
+    expect((storedRow().pages as Book["pages"])[1].altText).toBe("Ava and a cat");
+  });
+
+  it("gives up with a conflict when the book keeps changing", async () => {
+    store(book);
+    let version = 0;
+    db.beforeWrite = () => {
+      storedRow().updated_at = `2025-06-01T09:00:${String(++version).padStart(2, "0")}.000Z`;
+    };
+
+    await expect(updateBookPage(book.id, 1, { altText: "Never saved" })).rejects.toBeInstanceOf(BookConflictError);
+    expect((storedRow().pages as Book["pages"])[1].altText).toBe(book.pages[1].altText);
+  });
+
+  it("refuses a page the book does not have", async () => {
+    store(book);
+    await expect(updateBookPage(book.id, 7, { altText: "Nowhere" })).rejects.toThrow(`Book ${book.id} has no page 8`);
+  });
+});
@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { PageSchema, type BookPage, type Journey, type JourneyLeg } from "@/lib/book-schema";
+import type { BookSearch } from "@/lib/book-search";
+import { BookImageUrlSchema, isInlineImage, isStorageUrl } from "@/lib/image-urls";
+import { bookFromRow, uploadImageToStorage, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Server-side helpers for reading and patching stored books
+
+// Pages as the browser sends them to be stored. Their images are fetched again for
+// exports and share cards, so they may only point into storage.
+export const StoredPageSchema = PageSchema.extend({
+  imageUrl: BookImageUrlSchema.optional(),
+});
+
+// Pages as sent by the editor. Pages that already existed carry the index they had when
+// the editor loaded the book, so their illustration history can follow them around.
+export const EditedPageSchema = StoredPageSchema.extend({
+  sourceIndex: z.number().int().min(0).optional(),
+});
+
+export const BookPatchSchema = z.object({
+  title: z.string().min(1).optional(),
+  subtitle: z.string().optional(),
+  dedication: z.string().optional(),
+  glossary: z.record(z.string(), z.string()).optional(),
+  funFacts: z.array(z.string()).optional(),
+  pages: z.array(EditedPageSchema).min(1).optional()
+    .refine(pages => {
+      const sources = (pages || []).flatMap(page => page.sourceIndex ?? []);
+      return new Set(sources).size === sources.length;
+    }, "Each existing page can only appear once"),
+  // The updated_at the editor loaded; the patch is rejected if the book changed since
+  expectedUpdatedAt: z.string().optional(),
+});
+
+export type BookPatch = z.infer<typeof BookPatchSchema>;
+
+// Single-page writes retry this often when another write lands between read and update
+const PAGE_UPDATE_ATTEMPTS = 3;
+
+export class BookConflictError extends Error {
+  constructor(readonly current: Book) {
+    super("Book was changed by someone else since it was loaded");
+    this.name = "BookConflictError";
+  }
+}
+
+export async function getBook(bookId: string): Promise<Book | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("books").select("*").eq("id", bookId).maybeSingle();
+  if (error) throw error;
+  return data ? bookFromRow(data as BookRow) : null;
+}
+
+/**
+ * One page of the signed-in user's library, filtered and sorted. Words are matched with
+ * Postgres full-text search over the title, subtitle, page text and glossary.
+ */
+export async function searchBooks(search: BookSearch): Promise<{ books: Book[]; total: number }> {
+  const supabase = await getServerSupabase();
+  let query = supabase.from("books").select("*", { count: "exact" });
+
+  if (search.q) query = query.textSearch("search_vector", search.q, { type: "websearch", config: "english" });
+  // Stored cities are lowercased (bookToRow), matching the device search's case-insensitive filter
+  if (search.city) query = query.contains("cities", [search.city.toLowerCase()]);
+  if (search.child) query = query.ilike("child_name", search.child.replace(/[\\%_]/g, "\\$&"));
+  if (search.readingLevel) query = query.eq("reading_level", search.readingLevel);
+  if (search.from) query = query.gte("created_at", search.from);
+  if (search.to) {
+    // Through the end of the day
+    const end = new Date(search.to);
+    end.setUTCDate(end.getUTCDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+  if (search.hasAudio) query = query.not("audio", "is", null);
+  if (search.hasIllustrations) query = query.eq("has_illustrations", true);
+
+  query = search.sort === "title"
+    ? query.order("title", { ascending: true }).order("created_at", { ascending: false })
+    : query.order("created_at", { ascending: search.sort === "oldest" });
+
+  const offset = (search.page - 1) * search.pageSize;
+  const { data, error, count } = await query.range(offset, offset + search.pageSize - 1);
+  if (error) throw error;
+  return { books: (data || []).map(row => bookFromRow(row as BookRow)), total: count ?? 0 };
+}
+
+export type ImageFile = {
+  data: Buffer;
+  contentType: string;
+};
+
+// Books have no separate cover; the first illustrated page stands in for one
+export function coverImageUrl(book: Book): string | undefined {
+  return book.pages.find(page => page.imageUrl)?.imageUrl;
+}
+
+/**
+ * Downloads a stored illustration (storage URL or data URL) for embedding in generated
+ * files such as QR codes, share cards and printable books. Any other URL is refused,
+ * whatever a book has stored.
+ */
+export async function loadImageFile(url: string): Promise<ImageFile> {
+  const inline = isInlineImage(url) && url.match(/^data:([^;,]+);base64,(.*)$/);
+  if (inline) return { data: Buffer.from(inline[2], "base64"), contentType: inline[1] };
+  if (!isStorageUrl(url)) throw new Error("Only images in storage can be loaded");
+
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not download image (${res.status})`);
+  return {
+    data: Buffer.from(await res.arrayBuffer()),
+    contentType: res.headers.get("content-type") || "image/png",
+  };
+}
+
+/**
+ * Moves inline (data URL) illustrations into storage, for books made while storage was
+ * unreachable. Images that still cannot be stored stay inline.
+ */
+export async function storeInlineImages(pages: BookPage[]): Promise<BookPage[]> {
+  const stored: BookPage[] = [];
+  for (const page of pages) {
+    if (!page.imageUrl?.startsWith("data:")) {
+      stored.push(page);
+      continue;
+    }
+    const file = await loadImageFile(page.imageUrl);
+    const filename = `page_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${file.contentType.split("/")[1] || "png"}`;
+    const url = await uploadImageToStorage(file.data, filename, "story-images", file.contentType);
+    stored.push(url ? { ...page, imageUrl: url } : page);
+  }
+  return stored;
+}
+
+// The book's cover illustration, or null when the book has no illustrations yet
+export async function loadCoverImage(book: Book): Promise<ImageFile | null> {
+  const url = coverImageUrl(book);
+  return url ? loadImageFile(url) : null;
+}
+
+export async function loadBook(bookId: string): Promise<Book> {
+  const book = await getBook(bookId);
+  if (!book) throw new Error(`Book ${bookId} not found`);
+  return book;
+}
+
+/**
+ * Rebuilds a journey's legs from the edited pages: one leg per run of pages in the same
+ * city, in page order. Pages without a known stop, such as newly inserted ones, take the
+ * city of the page before them (or after them, at the start of the book).
+ */
+function regroupJourney(journey: Journey, pages: BookPage[]): { pages: BookPage[]; legs: JourneyLeg[] } {
+  const stops = new Set(journey.legs.map(leg => leg.city));
+  let city = pages.find(page => page.city && stops.has(page.city))?.city;
+  const placed = pages.map(page => {
+    if (page.city && stops.has(page.city)) city = page.city;
+    return city ? { ...page, city } : page;
+  });
+
+  const unused = [...journey.legs];
+  const legs: JourneyLeg[] = [];
+  for (const page of placed) {
+    const last = legs[legs.length - 1];
+    if (last && last.city === page.city) {
+      last.pageCount++;
+      continue;
+    }
+    // A stop split in two by a reorder keeps its details on both legs
+    const index = unused.findIndex(leg => leg.city === page.city);
+    const leg = index >= 0 ? unused.splice(index, 1)[0] : journey.legs.find(leg => leg.city === page.city);
+    if (leg) legs.push({ ...leg, pageCount: 1 });
+  }
+  // The first stop is where the journey starts, so nothing arrives there
+  return {
+    pages: placed,
+    legs: legs.map(({ arriveBy, transition, ...leg }, i) => (i === 0 ? leg : { ...leg, arriveBy, transition })),
+  };
+}
+
+/**
+ * Applies an editor patch. Returns the saved book and, for every page the book had
+ * before, its new index (null when it was deleted). Existing pages are identified by
+ * `sourceIndex`; pages without one, or with one outside the old book, are new.
+ */
+export async function updateBook(
+  bookId: string,
+  patch: BookPatch
+): Promise<{ book: Book; pageMoves: Array<number | null> } | null> {
+  const supabase = await getServerSupabase();
+  const book = await getBook(bookId);
+  if (!book) return null;
+  if (patch.expectedUpdatedAt && book.updated_at
+      && new Date(patch.expectedUpdatedAt).getTime() !== new Date(book.updated_at).getTime()) {
+    throw new BookConflictError(book);
+  }
+
+  const pageMoves: Array<number | null> = book.pages.map((_, i) => (patch.pages ? null : i));
+  let pages = patch.pages?.map(({ sourceIndex, ...page }, newIndex): BookPage => {
+    if (sourceIndex !== undefined && sourceIndex < book.pages.length) {
+      pageMoves[sourceIndex] = newIndex;
+    }
+    return page;
+  });
+
+  // Journey legs count their pages, which move with the pages' cities. Stops left without
+  // pages are dropped, and a journey down to one stop becomes a single-city book.
+  let journey: Book["journey"] | null | undefined;
+  if (pages && book.journey) {
+    const regrouped = regroupJourney(book.journey, pages);
+    pages = regrouped.pages;
+    journey = regrouped.legs.length >= 2 ? { ...book.journey, legs: regrouped.legs } : null;
+  }
+
+  const updated_at = new Date().toISOString();
+  let query = supabase
+    .from("books")
+    .update({
+      ...(patch.title !== undefined && { title: patch.title }),
+      ...(patch.subtitle !== undefined && { subtitle: patch.subtitle }),
+      ...(patch.dedication !== undefined && { dedication: patch.dedication }),
+      ...(patch.glossary !== undefined && { glossary: patch.glossary }),
+      ...(patch.funFacts !== undefined && { fun_facts: patch.funFacts }),
+      ...(pages !== undefined && { pages }),
+      ...(journey !== undefined && { journey }),
+      updated_at,
+    });
+  // The check above and the write are separate statements; requiring the updated_at that
+  // was checked makes a write that lost a race match nothing instead of overwriting
+  if (patch.expectedUpdatedAt && book.updated_at) query = query.eq("updated_at", book.updated_at);
+  const { data, error } = await query.eq("id", bookId).select().maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    const current = await getBook(bookId);
+    if (!current) return null;
+    throw new BookConflictError(current);
+  }
+  return { book: bookFromRow(data as BookRow), pageMoves };
+}
+
+/**
+ * Merges a patch into one page. The whole pages column is rewritten, so the write only
+ * applies while the book still has the updated_at it was read with; after a concurrent
+ * change the book is read again and the patch reapplied, up to PAGE_UPDATE_ATTEMPTS times.
+ */
+export async function updateBookPage(bookId: string, pageIndex: number, patch: Partial<BookPage>): Promise<Book> {
+  const supabase = await getServerSupabase();
+  for (let attempt = 1; ; attempt++) {
+    const book = await loadBook(bookId);
+    if (!book.pages[pageIndex]) throw new Error(`Book ${bookId} has no page ${pageIndex + 1}`);
+    const pages = book.pages.map((page, i) => (i === pageIndex ? { ...page, ...patch } : page));
+    const updated_at = new Date().toISOString();
+    let query = supabase
+      .from("books")
+      .update({ pages, updated_at })
+      .eq("id", bookId);
+    query = book.updated_at ? query.eq("updated_at", book.updated_at) : query.is("updated_at", null);
+    const { data, error } = await query.select("id").maybeSingle();
+    if (error) throw error;
+    if (data) return { ...book, pages, updated_at };
+    if (attempt >= PAGE_UPDATE_ATTEMPTS) throw new BookConflictError(await loadBook(bookId));
+  }
+}
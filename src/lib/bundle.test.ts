@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  BUNDLE_VERSION,
+  BundleError,
+  createBundle,
+  createShelfBundle,
+  importBundle,
+  importShelfBundle,
+  isShelfBundle,
+  migrateBundle,
+  openBundle,
+  readBundle,
+  readShelfBundle,
+} from "@/lib/bundle";
+import { getServerSupabase } from "@/lib/supabase-server";
+import { createZip } from "@/lib/zip";
+import { pngDataUrl, solidPng, testBook, understatedZip } from "@/test/fixtures";
+
+vi.mock("@/lib/supabase-server", () => ({ getServerSupabase: vi.fn() }));
+
+// A book as the signed-out library keeps it in localStorage, before bundles had a version
+function bareBook(): Record<string, unknown> {
+  const book: Record<string, unknown> = { ...testBook() };
+  delete book.glossary;
+  delete book.funFacts;
+  return book;
+}
+
+describe("migrateBundle", () => {
+  it("upgrades a bare book to the current bundle version", () => {
+    const bundle = migrateBundle(bareBook());
+    expect(bundle.format).toBe("storyvoyage");
+    expect(bundle.version).toBe(BUNDLE_VERSION);
+    expect(bundle.book.title).toBe(testBook().title);
+    expect(bundle.book.glossary).toEqual({});
+    expect(bundle.book.funFacts).toEqual([]);
+    expect(bundle.illustrations).toEqual([]);
+    expect(bundle.audio).toBeNull();
+    expect(bundle.educational).toBeNull();
+  });
+
+  it("keeps a current bundle as it is", () => {
+    const current = migrateBundle(bareBook());
+    expect(migrateBundle(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+
+  it("refuses bundles from a newer version", () => {
+    const newer = { ...migrateBundle(bareBook()), version: BUNDLE_VERSION + 1 };
+    expect(() => migrateBundle(newer)).toThrow(/newer version of StoryVoyage/);
+  });
+
+  it.each([
+    ["a non-object", "book"],
+    ["an invalid version", { format: "storyvoyage", version: -1 }],
+    ["a book without pages", { ...bareBook(), pages: [] }],
+  ])("rejects %s", (_label, document) => {
+    expect(() => migrateBundle(document)).toThrow(BundleError);
+  });
+});
+
+describe("createBundle / readBundle", () => {
+  const png = solidPng(8, 8, [30, 120, 200]);
+
+  it("packs each illustration once and reads the bundle back", async () => {
+    const book = testBook([pngDataUrl(png), undefined, pngDataUrl(png)]);
+    const files = openBundle(await createBundle(book));
+    expect(isShelfBundle(files)).toBe(false);
+
+    const { bundle } = readBundle(files);
+    expect(bundle.book.pages.map(page => page.imageUrl)).toEqual(["images/image-1.png", undefined, "images/image-1.png"]);
+    expect(files.get("images/image-1.png")?.equals(png)).toBe(true);
+    expect(bundle.book.pages.map(page => page.text)).toEqual(book.pages.map(page => page.text));
+    expect(bundle.book.glossary).toEqual(book.glossary);
+  });
+
+  it("reports files the bundle is missing", async () => {
+    const files = openBundle(await createBundle(testBook([pngDataUrl(png)])));
+    files.delete("images/image-1.png");
+    expect(() => readBundle(files)).toThrow("The bundle is missing images/image-1.png");
+  });
+
+  it("rejects uploads that are not bundles", () => {
+    expect(() => openBundle(Buffer.from("hello"))).toThrow(BundleError);
+    expect(() => openBundle(understatedZip("book.json"))).toThrow(BundleError);
+    expect(() => readBundle(openBundle(createZip([{ name: "other.txt", data: "hi" }])))).toThrow("The bundle has no book.json");
+  });
+});
+
+describe("createShelfBundle / readShelfBundle", () => {
+  it("keeps the books in shelf order", async () => {
+    const first = await createBundle(testBook([], { title: "First" }));
+    const second = await createBundle(testBook([], { title: "Second" }));
+    const files = openBundle(createShelfBundle({ title: "Bedtime", description: null }, [first, second]));
+    expect(isShelfBundle(files)).toBe(true);
+
+    const shelf = readShelfBundle(files);
+    expect(shelf.title).toBe("Bedtime");
+    expect(shelf.books.map(path => readBundle(openBundle(files.get(path)!)).bundle.book.title)).toEqual(["First", "Second"]);
+  });
+
+  it("names the book that is broken", async () => {
+    const files = openBundle(createShelfBundle({ title: "Bedtime", description: null }, [
+      await createBundle(testBook()),
+      createZip([{ name: "book.json", data: "{" }]),
+    ]));
+    expect(() => readShelfBundle(files)).toThrow("books/book-002.storyvoyage: book.json is not valid JSON");
+  });
+
+  it("reports a book that unpacks to more than its archive says as a bundle error", async () => {
+    const files = openBundle(createShelfBundle({ title: "Bedtime", description: null }, [
+      await createBundle(testBook()),
+      understatedZip("book.json"),
+    ]));
+    expect(() => readShelfBundle(files)).toThrow(BundleError);
+    expect(() => readShelfBundle(files)).toThrow(/^books\/book-002.storyvoyage: .*book.json unpacks to more than its stated size$/);
+  });
+});
+
+describe("importBundle signed out", () => {
+  const png = solidPng(8, 8, [200, 40, 90]);
+
+  it("returns the book for the local library without touching the server", async () => {
+    const storageUrl = "http://localhost:54321/storage/v1/object/public/story-images/kept.png";
+    // Only the data: URL is packed; of the two left as links, the one outside storage is dropped
+    const book = testBook([pngDataUrl(png), storageUrl, "https://example.com/elsewhere.png"]);
+    const bundle = await createBundle(book, { canDownload: () => false });
+    const { book: imported, saved } = await importBundle(openBundle(bundle), { save: false });
+
+    expect(saved).toBe(false);
+    expect(imported.id).toMatch(/^temp_/);
+    expect(imported.pages.map(page => page.imageUrl)).toEqual([pngDataUrl(png), storageUrl, undefined]);
+    expect(getServerSupabase).not.toHaveBeenCalled();
+  });
+
+  it("returns every book of a shelf without recreating the shelf", async () => {
+    const files = openBundle(createShelfBundle({ title: "Bedtime", description: null }, [
+      await createBundle(testBook([], { title: "First" })),
+      await createBundle(testBook([], { title: "Second" })),
+    ]));
+    const result = await importShelfBundle(files, { save: false });
+
+    expect(result.shelf.title).toBe("Bedtime");
+    expect(result.collection).toBeNull();
+    expect(result.books.map(({ book }) => book.title)).toEqual(["First", "Second"]);
+    expect(getServerSupabase).not.toHaveBeenCalled();
+  });
+});
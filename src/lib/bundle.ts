@@ -0,0 +1,530 @@
+import { z } from "zod";
+import { AUDIO_BUCKET, type AudioManifest } from "@/lib/audio";
+import { BookSchema } from "@/lib/book-schema";
+import { loadImageFile } from "@/lib/books";
+import { createCollection, type Collection } from "@/lib/collections";
+import { listBookIllustrations, type IllustrationVersion } from "@/lib/illustrations";
+import { isBookImageUrl } from "@/lib/image-urls";
+import { bookFromRow, bookToRow, uploadImageToStorage, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+import { createZip, readZip } from "@/lib/zip";
+
+// .storyvoyage bundles: one book as a zip, for backups and for moving books between
+// accounts, devices and the signed-out (localStorage) library. book.json describes the
+// book and points at the illustrations and narration stored next to it in the archive.
+// A shelf bundle holds the bundles of every book on a shelf, listed in shelf.json.
+
+export const BUNDLE_VERSION = 1;
+export const SHELF_BUNDLE_VERSION = 1;
+export const BUNDLE_CONTENT_TYPE = "application/vnd.storyvoyage+zip";
+export const BUNDLE_EXTENSION = ".storyvoyage";
+const SHELF_FILE = "shelf.json";
+
+// Uploads larger than this are refused before unpacking
+export const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+const MAX_UNPACKED_BYTES = 300 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+const WordTimingSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+
+// The book's AudioManifest, with its URLs replaced by paths inside the bundle
+const BundleAudioSchema = z.object({
+  version: z.literal(1),
+  provider: z.string(),
+  voice: z.string(),
+  rate: z.number(),
+  format: z.literal("audio/wav"),
+  sampleRate: z.number().int(),
+  bookUrl: z.string(),
+  duration: z.number(),
+  pages: z.array(z.object({
+    pageIndex: z.number().int().min(0),
+    url: z.string(),
+    duration: z.number(),
+    start: z.number(),
+    words: z.array(WordTimingSchema),
+    timing: z.enum(["engine", "estimated"]),
+  })),
+  chapters: z.array(z.object({
+    title: z.string(),
+    start: z.number(),
+    end: z.number(),
+    pageIndexes: z.array(z.number().int()),
+  })),
+  textHash: z.string(),
+  created_at: z.string(),
+});
+
+// One image from a page's illustration gallery
+const BundleIllustrationSchema = z.object({
+  id: z.string(),
+  pageIndex: z.number().int().min(0),
+  // Path inside the bundle, or the original URL when the image could not be packed
+  image: z.string(),
+  parentId: z.string().nullable(),
+  prompt: z.string().nullable(),
+  editInstruction: z.string().nullable(),
+  style: z.string().nullable(),
+  model: z.string().nullable(),
+  seed: z.number().nullable(),
+  createdAt: z.string(),
+});
+
+export const BundleSchema = z.object({
+  format: z.literal("storyvoyage"),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  // Page imageUrls are paths inside the bundle (or URLs that could not be packed).
+  // Books from before glossaries and fun facts were required may have none.
+  book: BookSchema.extend({
+    glossary: z.record(z.string(), z.string()),
+    funFacts: z.array(z.string()),
+  }),
+  illustrations: z.array(BundleIllustrationSchema),
+  audio: BundleAudioSchema.nullable(),
+  // Quizzes, vocabulary and cultural facts from /api/educational-features, when the
+  // exporter had them loaded
+  educational: z.record(z.string(), z.unknown()).nullable(),
+});
+
+export type Bundle = z.infer<typeof BundleSchema>;
+
+export const ShelfBundleSchema = z.object({
+  format: z.literal("storyvoyage-shelf"),
+  version: z.literal(SHELF_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  title: z.string().min(1),
+  description: z.string().nullable(),
+  // Paths of the books' own bundles inside the archive, in shelf order
+  books: z.array(z.string()),
+});
+
+export type ShelfBundle = z.infer<typeof ShelfBundleSchema>;
+
+export class BundleError extends Error {
+  constructor(message: string, readonly details?: unknown) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+/**
+ * Upgrades book.json from older bundle versions, one version at a time. Version 0 is a
+ * bare book as the signed-out library keeps it in localStorage (nano_travel_books_v1).
+ */
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  0: book => ({
+    format: "storyvoyage",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    book: { ...book, glossary: book.glossary ?? {}, funFacts: book.funFacts ?? [] },
+    illustrations: [],
+    audio: null,
+    educational: null,
+  }),
+};
+
+export function migrateBundle(document: unknown): Bundle {
+  if (!document || typeof document !== "object") throw new BundleError("book.json is not an object");
+  let current = document as Record<string, unknown>;
+  let version = current.format === "storyvoyage" ? Number(current.version) : 0;
+  if (!Number.isInteger(version) || version < 0) throw new BundleError("book.json has an invalid version");
+  if (version > BUNDLE_VERSION) {
+    throw new BundleError(`This bundle was made by a newer version of StoryVoyage (bundle version ${version})`);
+  }
+  while (version < BUNDLE_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+
+  const parsed = BundleSchema.safeParse(current);
+  if (!parsed.success) throw new BundleError("book.json does not match the bundle schema", parsed.error.flatten());
+  return parsed.data;
+}
+
+function extension(contentType: string): string | undefined {
+  const type = contentType.split(";")[0].trim();
+  return Object.entries(IMAGE_TYPES).find(([, mediaType]) => mediaType === type)?.[0];
+}
+
+async function download(url: string): Promise<Buffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not download ${url} (${res.status})`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * Packs a book with its illustrations, gallery, narration and educational content.
+ * `canDownload` limits which remote URLs are fetched (books sent by the browser may
+ * point anywhere); files that cannot be packed keep their URL.
+ */
+export async function createBundle(
+  book: Book,
+  {
+    educational = null,
+    illustrations = [],
+    canDownload = () => true,
+  }: {
+    educational?: Record<string, unknown> | null;
+    illustrations?: IllustrationVersion[];
+    canDownload?: (url: string) => boolean;
+  } = {},
+): Promise<Buffer> {
+  const files = new Map<string, Buffer>();
+  const packed = new Map<string, string>();
+
+  async function packImage(url: string | undefined): Promise<string | undefined> {
+    if (!url) return url;
+    if (!packed.has(url)) {
+      let path = url;
+      if (url.startsWith("data:") || canDownload(url)) {
+        try {
+          const file = await loadImageFile(url);
+          const ext = extension(file.contentType);
+          if (ext) {
+            path = `images/image-${packed.size + 1}.${ext}`;
+            files.set(path, file.data);
+          }
+        } catch (error) {
+          console.warn("Could not pack illustration into bundle:", error);
+        }
+      }
+      packed.set(url, path);
+    }
+    return packed.get(url);
+  }
+
+  const pages = [];
+  for (const page of book.pages) pages.push({ ...page, imageUrl: await packImage(page.imageUrl) });
+
+  const gallery = [];
+  for (const version of illustrations) {
+    gallery.push({
+      id: version.id,
+      pageIndex: version.page_index,
+      image: (await packImage(version.image_url)) ?? version.image_url,
+      parentId: version.parent_id,
+      prompt: version.prompt,
+      editInstruction: version.edit_instruction,
+      style: version.style,
+      model: version.model,
+      seed: version.seed,
+      createdAt: version.created_at,
+    });
+  }
+
+  // Narration is packed whole or not at all
+  let audio: AudioManifest | null = null;
+  if (book.audio) {
+    try {
+      const clips = new Map<string, Buffer>();
+      for (const page of book.audio.pages) {
+        clips.set(`audio/page-${String(page.pageIndex + 1).padStart(2, "0")}.wav`, await download(page.url));
+      }
+      clips.set("audio/book.wav", await download(book.audio.bookUrl));
+      clips.forEach((data, path) => files.set(path, data));
+      audio = {
+        ...book.audio,
+        bookUrl: "audio/book.wav",
+        pages: book.audio.pages.map(page => ({ ...page, url: `audio/page-${String(page.pageIndex + 1).padStart(2, "0")}.wav` })),
+      };
+    } catch (error) {
+      console.warn("Could not pack narration into bundle:", error);
+    }
+  }
+
+  const bundle: Bundle = {
+    format: "storyvoyage",
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    book: {
+      title: book.title,
+      subtitle: book.subtitle,
+      city: book.city,
+      dedication: book.dedication,
+      readingLevel: book.readingLevel,
+      narratorPersona: book.narratorPersona,
+      child: book.child,
+      pages,
+      glossary: book.glossary || {},
+      funFacts: book.funFacts || [],
+      journey: book.journey,
+      recap: book.recap,
+    },
+    illustrations: gallery,
+    audio,
+    educational,
+  };
+
+  return createZip([
+    { name: "book.json", data: JSON.stringify(bundle, null, 2) },
+    ...[...files].map(([name, data]) => ({ name, data })),
+  ]);
+}
+
+// A stored book, as its owner sees it, with its illustration gallery
+export async function createStoredBookBundle(book: Book, educational?: Record<string, unknown> | null): Promise<Buffer> {
+  return createBundle(book, { educational, illustrations: await listBookIllustrations(book.id) });
+}
+
+/**
+ * Packs the bundles of a shelf's books, in shelf order, into one shelf bundle. The
+ * books' bundles are already compressed, so they are stored as they are.
+ */
+export function createShelfBundle(
+  shelf: { title: string; description: string | null },
+  bundles: Buffer[],
+): Buffer {
+  const paths = bundles.map((_, i) => `books/book-${String(i + 1).padStart(3, "0")}${BUNDLE_EXTENSION}`);
+  const document: ShelfBundle = {
+    format: "storyvoyage-shelf",
+    version: SHELF_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    title: shelf.title,
+    description: shelf.description,
+    books: paths,
+  };
+  return createZip([
+    { name: SHELF_FILE, data: JSON.stringify(document, null, 2) },
+    ...bundles.map((data, i) => ({ name: paths[i], data, store: true })),
+  ]);
+}
+
+// Unpacks an uploaded bundle, of one book or of a shelf
+export function openBundle(data: Buffer, maxSize = MAX_UNPACKED_BYTES): Map<string, Buffer> {
+  try {
+    return readZip(data, maxSize);
+  } catch (error) {
+    throw new BundleError(`Not a readable .storyvoyage bundle: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+export function isShelfBundle(files: Map<string, Buffer>): boolean {
+  return files.has(SHELF_FILE);
+}
+
+function readJson(files: Map<string, Buffer>, name: string): unknown {
+  const document = files.get(name);
+  if (!document) throw new BundleError(`The bundle has no ${name}`);
+  try {
+    return JSON.parse(document.toString("utf8"));
+  } catch {
+    throw new BundleError(`${name} is not valid JSON`);
+  }
+}
+
+export function readBundle(files: Map<string, Buffer>): { bundle: Bundle; files: Map<string, Buffer> } {
+  const bundle = migrateBundle(readJson(files, "book.json"));
+
+  const missing = [
+    ...bundle.book.pages.map(page => page.imageUrl),
+    ...bundle.illustrations.map(version => version.image),
+    ...(bundle.audio ? [bundle.audio.bookUrl, ...bundle.audio.pages.map(page => page.url)] : []),
+  ].filter((path): path is string => !!path && isBundlePath(path) && !files.has(path));
+  if (missing.length > 0) throw new BundleError(`The bundle is missing ${missing.join(", ")}`);
+  return { bundle, files };
+}
+
+function unpackedSize(files: Map<string, Buffer>): number {
+  let total = 0;
+  files.forEach(data => (total += data.length));
+  return total;
+}
+
+// Nested bundles draw on what the shelf archive left of one unpack budget, so a shelf of
+// small, highly compressed bundles cannot unpack to more than a single bundle may
+function shelfBudget(files: Map<string, Buffer>): { remaining: number } {
+  return { remaining: MAX_UNPACKED_BYTES - unpackedSize(files) };
+}
+
+function openShelfBook(files: Map<string, Buffer>, path: string, budget: { remaining: number }): ReturnType<typeof readBundle> {
+  const data = files.get(path);
+  if (!data) throw new BundleError(`The shelf bundle is missing ${path}`);
+  try {
+    const book = readBundle(openBundle(data, Math.max(budget.remaining, 0)));
+    budget.remaining -= unpackedSize(book.files);
+    return book;
+  } catch (error) {
+    if (error instanceof BundleError) throw new BundleError(`${path}: ${error.message}`, error.details);
+    throw error;
+  }
+}
+
+/**
+ * Checks shelf.json and every book in the shelf, unpacking one book at a time, so a
+ * broken book stops the import before anything is saved.
+ */
+export function readShelfBundle(files: Map<string, Buffer>): ShelfBundle {
+  const parsed = ShelfBundleSchema.safeParse(readJson(files, SHELF_FILE));
+  if (!parsed.success) throw new BundleError("shelf.json does not match the shelf bundle schema", parsed.error.flatten());
+  const budget = shelfBudget(files);
+  parsed.data.books.forEach(path => openShelfBook(files, path, budget));
+  return parsed.data;
+}
+
+// Packed files live under images/ and audio/; anything else is a URL kept as it was
+function isBundlePath(path: string): boolean {
+  return path.startsWith("images/") || path.startsWith("audio/");
+}
+
+function imageType(path: string): string {
+  return IMAGE_TYPES[path.split(".").pop() || ""] || "image/png";
+}
+
+export type ImportResult = {
+  book: Book;
+  educational: Record<string, unknown> | null;
+  // False when the book was only unpacked for the signed-out library
+  saved: boolean;
+};
+
+/**
+ * Restores a bundle. Signed in, the book, its gallery and narration are stored in the
+ * caller's account. Otherwise the book comes back with a temp_ id and inline images
+ * for the signed-out library, which keeps neither gallery nor narration.
+ */
+export async function importBundle(files: Map<string, Buffer>, { save }: { save: boolean }): Promise<ImportResult> {
+  return restoreBook(readBundle(files), { save });
+}
+
+async function restoreBook(
+  { bundle, files }: ReturnType<typeof readBundle>,
+  { save }: { save: boolean },
+): Promise<ImportResult> {
+  const inline = (path: string) => `data:${imageType(path)};base64,${files.get(path)!.toString("base64")}`;
+
+  // As when saving, URLs that were not packed are kept only when they point into storage
+  const localImage = (path: string | undefined) => {
+    if (!path || isBundlePath(path)) return path && inline(path);
+    return isBookImageUrl(path) ? path : undefined;
+  };
+
+  // Nothing is written on the server; the library sync uploads the book after sign-in
+  if (!save) {
+    const book: Book = {
+      ...bundle.book,
+      id: `temp_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      pages: bundle.book.pages.map(page => ({ ...page, imageUrl: localImage(page.imageUrl) })),
+    };
+    return { book, educational: bundle.educational, saved: false };
+  }
+
+  // Each packed image is uploaded once, however many pages and versions use it
+  const uploaded = new Map<string, string>();
+  // URLs that were not packed are kept only when they point into storage
+  async function storeImage(path: string | undefined): Promise<string | undefined> {
+    if (!path) return path;
+    if (!isBundlePath(path)) return isBookImageUrl(path) ? path : undefined;
+    if (!uploaded.has(path)) {
+      const filename = `imported_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${path.split(".").pop()}`;
+      const url = await uploadImageToStorage(files.get(path)!, filename, "story-images", imageType(path));
+      // Keep the image inline rather than lose it when storage is unavailable
+      uploaded.set(path, url ?? inline(path));
+    }
+    return uploaded.get(path);
+  }
+
+  const pages = [];
+  for (const page of bundle.book.pages) pages.push({ ...page, imageUrl: await storeImage(page.imageUrl) });
+
+  const supabase = await getServerSupabase();
+  const { data: row, error } = await supabase
+    .from("books")
+    .insert(bookToRow({ ...bundle.book, pages }))
+    .select()
+    .single();
+  if (error) throw error;
+  let book = bookFromRow(row as BookRow);
+
+  // Gallery versions keep their edit history; parents come before the edits made from them
+  const versionIds = new Map<string, string>();
+  for (const version of [...bundle.illustrations].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    const imageUrl = await storeImage(version.image);
+    if (!imageUrl) continue;
+    const { data: inserted, error: versionError } = await supabase
+      .from("page_illustrations")
+      .insert({
+        book_id: book.id,
+        page_index: version.pageIndex,
+        image_url: imageUrl,
+        parent_id: version.parentId ? versionIds.get(version.parentId) ?? null : null,
+        prompt: version.prompt,
+        edit_instruction: version.editInstruction,
+        style: version.style,
+        model: version.model,
+        seed: version.seed,
+        created_at: version.createdAt,
+      })
+      .select("id")
+      .single();
+    if (versionError) throw versionError;
+    versionIds.set(version.id, inserted.id);
+  }
+
+  if (bundle.audio) {
+    const folder = `${book.id}/${Date.now()}`;
+    const storeAudio = async (path: string) => {
+      const url = await uploadImageToStorage(files.get(path)!, `${folder}/${path.replace(/^audio\//, "")}`, AUDIO_BUCKET, "audio/wav");
+      if (!url) throw new Error(`Could not store ${path}`);
+      return url;
+    };
+    try {
+      const audio: AudioManifest = {
+        ...bundle.audio,
+        bookUrl: await storeAudio(bundle.audio.bookUrl),
+        pages: [],
+      };
+      for (const page of bundle.audio.pages) audio.pages.push({ ...page, url: await storeAudio(page.url) });
+      const { data: updated, error: audioError } = await supabase
+        .from("books")
+        .update({ audio })
+        .eq("id", book.id)
+        .select()
+        .single();
+      if (audioError) throw audioError;
+      book = bookFromRow(updated as BookRow);
+    } catch (audioError) {
+      // The book is still worth having; narration can be made again
+      console.warn("Could not restore narration from bundle:", audioError);
+    }
+  }
+
+  return { book, educational: bundle.educational, saved: true };
+}
+
+export type ShelfImportResult = {
+  shelf: { title: string; description: string | null };
+  // The shelf recreated in the caller's account; null when signed out
+  collection: Collection | null;
+  books: ImportResult[];
+};
+
+/**
+ * Restores every book of a shelf bundle as importBundle does, one at a time. Signed in,
+ * the shelf is recreated with the books in their original order.
+ */
+export async function importShelfBundle(files: Map<string, Buffer>, { save }: { save: boolean }): Promise<ShelfImportResult> {
+  const shelf = readShelfBundle(files);
+  const budget = shelfBudget(files);
+  const books: ImportResult[] = [];
+  for (const path of shelf.books) books.push(await restoreBook(openShelfBook(files, path, budget), { save }));
+
+  const collection = save
+    ? await createCollection({
+        title: shelf.title,
+        description: shelf.description,
+        bookIds: books.map(result => result.book.id),
+      })
+    : null;
+  return { shelf: { title: shelf.title, description: shelf.description }, collection, books };
+}
@@ -0,0 +1,283 @@
+import { z } from "zod";
+import { fetchInlineImage, generateStructured, type AIProvider, type InlineImage } from "@/lib/ai";
+import { uploadImageToStorage } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Character bible: the structured look of a child (and their companions) that every
+// illustration is anchored to, plus a reference image generated once and reused.
+
+export const CompanionSchema = z.object({
+  name: z.string().min(1),
+  species: z.string().min(1),
+  description: z.string(),
+});
+
+export const AppearanceSchema = z.object({
+  hair: z.string().min(1),
+  eyes: z.string().min(1),
+  skinTone: z.string().min(1),
+  build: z.string(),
+  distinctiveFeatures: z.array(z.string()),
+});
+
+export const CharacterTraitsSchema = z.object({
+  name: z.string().min(1),
+  age: z.number().int().min(1).max(18),
+  appearance: AppearanceSchema,
+  outfit: z.string().min(1),
+  companions: z.array(CompanionSchema).default([]),
+});
+
+export type CharacterTraits = z.infer<typeof CharacterTraitsSchema>;
+
+export type Character = CharacterTraits & {
+  id: string;
+  childName: string;
+  childId: string | null;
+  referenceImageUrl: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+type CharacterRow = {
+  id: string;
+  child_name: string;
+  child_id?: string | null;
+  name: string;
+  age: number;
+  appearance: CharacterTraits["appearance"];
+  outfit: string;
+  companions: CharacterTraits["companions"] | null;
+  reference_image_url: string | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+// What an illustration call needs to keep a character consistent
+export type CharacterContext = {
+  characterId?: string;
+  description: string;
+  referenceImage?: InlineImage | null;
+};
+
+function characterFromRow(row: CharacterRow): Character {
+  return {
+    id: row.id,
+    childName: row.child_name,
+    childId: row.child_id ?? null,
+    name: row.name,
+    age: row.age,
+    appearance: row.appearance,
+    outfit: row.outfit,
+    companions: row.companions || [],
+    referenceImageUrl: row.reference_image_url,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function characterToRow(traits: CharacterTraits) {
+  return {
+    name: traits.name,
+    age: traits.age,
+    appearance: traits.appearance,
+    outfit: traits.outfit,
+    companions: traits.companions,
+  };
+}
+
+/**
+ * Renders the structured traits as prompt text. Ordered and worded the same way
+ * every time so the model sees an identical description on every page.
+ */
+export function describeCharacterSheet(character: CharacterTraits): string {
+  const { appearance } = character;
+  const lines = [
+    `Main character (keep identical on every page): ${character.name}, ${character.age} years old.`,
+    `Hair: ${appearance.hair}. Eyes: ${appearance.eyes}. Skin tone: ${appearance.skinTone}.`,
+    appearance.build && `Build: ${appearance.build}.`,
+    appearance.distinctiveFeatures.length > 0 && `Distinctive features: ${appearance.distinctiveFeatures.join(", ")}.`,
+    `Outfit: ${character.outfit}.`,
+    ...character.companions.map(c => `Companion: ${c.name}, a ${c.species}${c.description ? ` (${c.description})` : ""}.`),
+  ];
+  return lines.filter(Boolean).join(" ");
+}
+
+export async function getCharacter(id: string): Promise<Character | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("characters").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? characterFromRow(data as CharacterRow) : null;
+}
+
+// Most recently updated character sheet for a child, shared across their books.
+// Children with a profile are matched by its id, others by name.
+export async function getCharacterForChild(childName: string, childId?: string | null): Promise<Character | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("characters")
+    .select("*")
+    .eq(childId ? "child_id" : "child_name", childId || childName)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? characterFromRow(data as CharacterRow) : null;
+}
+
+export async function listCharacters({ childName, childId }: { childName?: string; childId?: string } = {}): Promise<Character[]> {
+  const supabase = await getServerSupabase();
+  let query = supabase.from("characters").select("*").order("updated_at", { ascending: false });
+  if (childId) query = query.eq("child_id", childId);
+  else if (childName) query = query.eq("child_name", childName);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(row => characterFromRow(row as CharacterRow));
+}
+
+/**
+ * Saves a character and renders its reference image. The image is generated once
+ * here and only regenerated when explicitly requested.
+ */
+export async function createCharacter(
+  ai: AIProvider,
+  childName: string,
+  traits: CharacterTraits,
+  childId?: string | null
+): Promise<Character> {
+  const supabase = await getServerSupabase();
+  const referenceImageUrl = await generateReferenceImage(ai, traits);
+  const { data, error } = await supabase
+    .from("characters")
+    .insert({ ...characterToRow(traits), child_name: childName, child_id: childId ?? null, reference_image_url: referenceImageUrl })
+    .select()
+    .single();
+  if (error) throw error;
+  return characterFromRow(data as CharacterRow);
+}
+
+export async function updateCharacter(
+  ai: AIProvider,
+  id: string,
+  traits: Partial<CharacterTraits>,
+  { regenerateReference = false }: { regenerateReference?: boolean } = {}
+): Promise<Character | null> {
+  const supabase = await getServerSupabase();
+  const existing = await getCharacter(id);
+  if (!existing) return null;
+
+  const merged: CharacterTraits = { ...existing, ...traits };
+  const referenceImageUrl = regenerateReference
+    ? await generateReferenceImage(ai, merged)
+    : existing.referenceImageUrl;
+
+  const { data, error } = await supabase
+    .from("characters")
+    .update({ ...characterToRow(merged), reference_image_url: referenceImageUrl, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error) throw error;
+  return characterFromRow(data as CharacterRow);
+}
+
+/**
+ * Invents a character sheet for a child who does not have one yet.
+ */
+export async function draftCharacterTraits(
+  ai: AIProvider,
+  child: { name: string; age: number; interests: string[] }
+): Promise<CharacterTraits> {
+  const { data } = await generateStructured(ai, {
+    prompt: `Design the main character for a series of children's picture books.
+
+Child: ${child.name}, age ${child.age}, interests: ${child.interests.join(", ") || "none specified"}
+
+Describe a warm, specific, easy-to-draw look that an illustrator can repeat exactly on every page:
+hair, eyes, skin tone, build, 1-3 distinctive features, one signature outfit, and optionally one
+companion animal that fits the child's interests.
+
+Return ONLY JSON:
+{
+  "name": "${child.name}",
+  "age": ${child.age},
+  "appearance": { "hair": "...", "eyes": "...", "skinTone": "...", "build": "...", "distinctiveFeatures": ["..."] },
+  "outfit": "...",
+  "companions": [{ "name": "...", "species": "...", "description": "..." }]
+}`,
+    schema: CharacterTraitsSchema,
+  });
+  return data;
+}
+
+/**
+ * Loads what illustration calls need for a character: the trait text and the reference image.
+ * A reference image that cannot be downloaded is skipped rather than failing the illustration.
+ */
+export async function loadCharacterContext(character: Character): Promise<CharacterContext> {
+  let referenceImage: InlineImage | null = null;
+  if (character.referenceImageUrl) {
+    try {
+      referenceImage = await fetchInlineImage(character.referenceImageUrl);
+    } catch (error) {
+      console.warn(`Could not load reference image for character ${character.id}:`, error);
+    }
+  }
+  return { characterId: character.id, description: describeCharacterSheet(character), referenceImage };
+}
+
+export async function loadCharacterContextById(id: string): Promise<CharacterContext | null> {
+  const character = await getCharacter(id);
+  return character ? loadCharacterContext(character) : null;
+}
+
+/**
+ * Finds the character sheet a new book should use: the requested one, else the child's
+ * existing sheet, else a freshly drafted one. Returns null when characters cannot be stored.
+ */
+export async function resolveCharacterForChild(
+  ai: AIProvider,
+  child: { name: string; age: number; interests: string[] },
+  characterId?: string,
+  childId?: string | null
+): Promise<Character | null> {
+  try {
+    if (characterId) {
+      const requested = await getCharacter(characterId);
+      if (requested) return requested;
+    }
+    const existing = await getCharacterForChild(child.name, childId);
+    if (existing) return existing;
+    return await createCharacter(ai, child.name, await draftCharacterTraits(ai, child), childId);
+  } catch (error) {
+    console.warn("Character bible unavailable, falling back to a plain description:", error);
+    return null;
+  }
+}
+
+// Appended to illustration prompts; pair with `characterImages` for the image parts
+export function characterPromptText(character: CharacterContext): string {
+  return character.referenceImage
+    ? `Character consistency: ${character.description} The last attached image is the character reference sheet; draw the character exactly as shown there. `
+    : `Character consistency: Maintain the same character appearance as described: ${character.description}. `;
+}
+
+export function characterImages(character?: CharacterContext | null): InlineImage[] {
+  return character?.referenceImage ? [character.referenceImage] : [];
+}
+
+async function generateReferenceImage(ai: AIProvider, traits: CharacterTraits): Promise<string | null> {
+  try {
+    const image = await ai.generateImage({
+      prompt: `Create a character reference sheet for a children's book illustrator. Show the character standing in a neutral pose, full body, front view, plain light background, soft even lighting, no text. ${describeCharacterSheet(traits)} Show any companions next to the character.`,
+    });
+    if (!image) return null;
+
+    const timestamp = Date.now();
+    const randomId = Math.random().toString(36).substring(2, 8);
+    return await uploadImageToStorage(Buffer.from(image.data, "base64"), `character_${timestamp}_${randomId}.png`);
+  } catch (error) {
+    console.error("Error generating character reference image:", error);
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { ReadingLevelSchema } from "@/lib/book-schema";
+import { uploadImageToStorage } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+import { ageOn } from "@/lib/utils";
+
+// Child profiles: who a book is for, saved once instead of re-typed in every wizard run.
+// Age is derived from the birthday, so it moves on by itself as time passes.
+
+export const IllustrationStyleSchema = z.enum(["realistic", "cartoon", "watercolor", "sketch"]);
+
+export const ChildProfileSchema = z.object({
+  name: z.string().min(1),
+  birthday: z.iso.date(),
+  avatarUrl: z.string().url().nullable().optional(),
+  preferredStyle: IllustrationStyleSchema,
+  readingLevel: ReadingLevelSchema,
+  interests: z.array(z.string()),
+});
+
+export type ChildProfile = z.infer<typeof ChildProfileSchema>;
+
+export type ReadingLevelChange = {
+  readingLevel: z.infer<typeof ReadingLevelSchema>;
+  changed_at: string;
+};
+
+export type Child = ChildProfile & {
+  id: string;
+  age: number;
+  // Every reading level the child has had, oldest first
+  readingLevelHistory: ReadingLevelChange[];
+  created_at?: string;
+  updated_at?: string;
+};
+
+type ChildRow = {
+  id: string;
+  name: string;
+  birthday: string;
+  avatar_url: string | null;
+  preferred_style: string | null;
+  reading_level: string;
+  interests: string[] | null;
+  reading_level_history: ReadingLevelChange[] | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+const AVATAR_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+// An uploaded avatar, sent as a data URL
+export const AvatarImageSchema = z.string()
+  .regex(/^data:image\/(png|jpeg|webp);base64,/, "Avatar must be a PNG, JPEG or WebP data URL");
+
+function childFromRow(row: ChildRow): Child {
+  return {
+    id: row.id,
+    name: row.name,
+    birthday: row.birthday,
+    age: ageOn(row.birthday),
+    avatarUrl: row.avatar_url,
+    preferredStyle: IllustrationStyleSchema.catch("realistic").parse(row.preferred_style),
+    readingLevel: row.reading_level as Child["readingLevel"],
+    interests: row.interests || [],
+    readingLevelHistory: row.reading_level_history || [],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function childToRow(profile: Partial<ChildProfile>) {
+  return {
+    ...(profile.name !== undefined && { name: profile.name }),
+    ...(profile.birthday !== undefined && { birthday: profile.birthday }),
+    ...(profile.avatarUrl !== undefined && { avatar_url: profile.avatarUrl }),
+    ...(profile.preferredStyle !== undefined && { preferred_style: profile.preferredStyle }),
+    ...(profile.readingLevel !== undefined && { reading_level: profile.readingLevel }),
+    ...(profile.interests !== undefined && { interests: profile.interests }),
+  };
+}
+
+export async function getChild(id: string): Promise<Child | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("children").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? childFromRow(data as ChildRow) : null;
+}
+
+export async function listChildren(): Promise<Child[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("children").select("*").order("name", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(row => childFromRow(row as ChildRow));
+}
+
+export async function createChild(profile: ChildProfile): Promise<Child> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("children")
+    .insert({
+      ...childToRow(profile),
+      reading_level_history: [{ readingLevel: profile.readingLevel, changed_at: new Date().toISOString() }],
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return childFromRow(data as ChildRow);
+}
+
+/**
+ * Updates a profile. A new reading level is appended to the history rather than
+ * replacing it, so progress over time stays visible.
+ */
+export async function updateChild(id: string, profile: Partial<ChildProfile>): Promise<Child | null> {
+  const supabase = await getServerSupabase();
+  const existing = await getChild(id);
+  if (!existing) return null;
+
+  const now = new Date().toISOString();
+  const levelChanged = profile.readingLevel !== undefined && profile.readingLevel !== existing.readingLevel;
+  const { data, error } = await supabase
+    .from("children")
+    .update({
+      ...childToRow(profile),
+      ...(levelChanged && {
+        reading_level_history: [...existing.readingLevelHistory, { readingLevel: profile.readingLevel, changed_at: now }],
+      }),
+      updated_at: now,
+    })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error) throw error;
+  return childFromRow(data as ChildRow);
+}
+
+/**
+ * Stores an uploaded avatar given as a data URL and returns its public URL.
+ */
+export async function uploadAvatar(dataUrl: string): Promise<string> {
+  const match = dataUrl.match(/^data:(image\/[a-z]+);base64,(.+)$/);
+  const extension = match && AVATAR_TYPES[match[1]];
+  if (!match || !extension) throw new Error("Avatar must be a PNG, JPEG or WebP data URL");
+
+  const filename = `avatar_${Date.now()}_${Math.random().toString(36).substring(2, 8)}.${extension}`;
+  const url = await uploadImageToStorage(Buffer.from(match[2], "base64"), filename, "story-images", match[1]);
+  if (!url) throw new Error("Could not store avatar");
+  return url;
+}
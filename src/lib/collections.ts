@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { bookFromRow, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Collections: shelves the owner arranges books on, such as "Japan trip" or "Bedtime
+// favorites". A book can be on several shelves and has its own place on each.
+
+export const CollectionFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable(),
+});
+
+export type CollectionFields = z.infer<typeof CollectionFieldsSchema>;
+
+export type Collection = CollectionFields & {
+  id: string;
+  // The shelf's books in order
+  bookIds: string[];
+  created_at?: string;
+  updated_at?: string;
+};
+
+type CollectionRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at?: string;
+  updated_at?: string;
+  collection_books?: Array<{ book_id: string; position: number }>;
+};
+
+// Thrown for books the caller cannot put on the shelf, or an order that does not list
+// exactly the books on it
+export class CollectionBooksError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CollectionBooksError";
+  }
+}
+
+const COLLECTION_COLUMNS = "*, collection_books(book_id, position)";
+
+function collectionFromRow(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    bookIds: [...(row.collection_books || [])].sort((a, b) => a.position - b.position).map(entry => entry.book_id),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function listCollections(): Promise<Collection[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("collections").select(COLLECTION_COLUMNS).order("title", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(row => collectionFromRow(row as CollectionRow));
+}
+
+export async function getCollection(id: string): Promise<Collection | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("collections").select(COLLECTION_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? collectionFromRow(data as CollectionRow) : null;
+}
+
+// The shelf's books in shelf order
+export async function listCollectionBooks(id: string): Promise<Book[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("collection_books")
+    .select("position, book:books(*)")
+    .eq("collection_id", id)
+    .order("position", { ascending: true });
+  if (error) throw error;
+  return (data || [])
+    .map(row => (row as unknown as { book: BookRow | null }).book)
+    .filter((row): row is BookRow => !!row)
+    .map(bookFromRow);
+}
+
+export async function createCollection({
+  title,
+  description = null,
+  bookIds = [],
+}: {
+  title: string;
+  description?: string | null;
+  bookIds?: string[];
+}): Promise<Collection> {
+  if (bookIds.length > 0) await checkBooks(bookIds);
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("collections")
+    .insert({ title, description })
+    .select("id")
+    .single();
+  if (error) throw error;
+  try {
+    if (bookIds.length > 0) await insertBooks(data.id, bookIds);
+  } catch (booksError) {
+    // Leave no empty shelf behind when its books could not be added
+    await supabase.from("collections").delete().eq("id", data.id);
+    throw booksError;
+  }
+  return (await getCollection(data.id))!;
+}
+
+/**
+ * Renames the shelf and, with `bookIds`, puts its books in that order. The order has
+ * to list every book on the shelf exactly once; books are added and removed separately.
+ */
+export async function updateCollection(
+  id: string,
+  { bookIds, ...fields }: Partial<CollectionFields> & { bookIds?: string[] }
+): Promise<Collection | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("collections")
+    .update({
+      ...(fields.title !== undefined && { title: fields.title }),
+      ...(fields.description !== undefined && { description: fields.description }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select(COLLECTION_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const collection = collectionFromRow(data as CollectionRow);
+  if (!bookIds) return collection;
+
+  const current = new Set(collection.bookIds);
+  if (bookIds.length !== current.size || new Set(bookIds).size !== bookIds.length
+      || !bookIds.every(bookId => current.has(bookId))) {
+    throw new CollectionBooksError("The new order must list every book on the shelf exactly once");
+  }
+  const { error: orderError } = await supabase
+    .from("collection_books")
+    .upsert(bookIds.map((bookId, position) => ({ collection_id: id, book_id: bookId, position })), {
+      onConflict: "collection_id,book_id",
+    });
+  if (orderError) throw orderError;
+  return { ...collection, bookIds };
+}
+
+// Removes the shelf; its books stay in the library. Returns false when there was no such shelf.
+export async function deleteCollection(id: string): Promise<boolean> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("collections").delete().eq("id", id).select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Puts books at the end of the shelf; books already on it keep their place
+export async function addBooksToCollection(id: string, bookIds: string[]): Promise<Collection | null> {
+  const collection = await getCollection(id);
+  if (!collection) return null;
+  const added = bookIds.filter(bookId => !collection.bookIds.includes(bookId));
+  if (added.length > 0) await insertBooks(id, added);
+  // Also touches updated_at
+  return updateCollection(id, {});
+}
+
+export async function removeBookFromCollection(id: string, bookId: string): Promise<Collection | null> {
+  const supabase = await getServerSupabase();
+  const { error } = await supabase.from("collection_books").delete().eq("collection_id", id).eq("book_id", bookId);
+  if (error) throw error;
+  return updateCollection(id, {});
+}
+
+// Only the caller's own books, each once, can go on a shelf
+async function checkBooks(bookIds: string[]): Promise<void> {
+  if (new Set(bookIds).size !== bookIds.length) throw new CollectionBooksError("Each book can only appear once");
+  const supabase = await getServerSupabase();
+  const { data: rows, error } = await supabase.from("books").select("id").in("id", bookIds);
+  if (error) throw error;
+  const missing = bookIds.filter(bookId => !(rows || []).some(row => row.id === bookId));
+  if (missing.length > 0) throw new CollectionBooksError(`Books not found: ${missing.join(", ")}`);
+}
+
+async function insertBooks(id: string, bookIds: string[]): Promise<void> {
+  await checkBooks(bookIds);
+  const supabase = await getServerSupabase();
+
+  // Removing books leaves gaps, so new ones go after the highest position rather than the count
+  const { data: last, error: lastError } = await supabase
+    .from("collection_books")
+    .select("position")
+    .eq("collection_id", id)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) throw lastError;
+  const firstPosition = last ? last.position + 1 : 0;
+
+  const { error } = await supabase
+    .from("collection_books")
+    .insert(bookIds.map((bookId, i) => ({ collection_id: id, book_id: bookId, position: firstPosition + i })));
+  if (error) throw error;
+}
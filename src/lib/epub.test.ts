@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { renderBookEpub } from "@/lib/epub";
+import { readZip } from "@/lib/zip";
+import { pngDataUrl, solidPng, testBook } from "@/test/fixtures";
+
+describe("renderBookEpub", () => {
+  const png = solidPng(8, 8, [30, 120, 200]);
+
+  it("packages the pages, illustrations and navigation as an EPUB 3", async () => {
+    const book = testBook([pngDataUrl(png), undefined, pngDataUrl(png)]);
+    const files = readZip(await renderBookEpub(book), 10 * 1024 * 1024);
+
+    // The mimetype comes first, as readers require
+    expect([...files.keys()][0]).toBe("mimetype");
+    expect(files.get("mimetype")?.toString()).toBe("application/epub+zip");
+    expect(files.get("META-INF/container.xml")?.toString()).toContain('full-path="OEBPS/package.opf"');
+
+    const opf = files.get("OEBPS/package.opf")!.toString();
+    expect(opf).toContain(`<dc:title>${book.title}</dc:title>`);
+    for (const page of ["page-01", "page-02", "page-03"]) {
+      expect(opf).toContain(`href="${page}.xhtml"`);
+      expect(files.has(`OEBPS/${page}.xhtml`)).toBe(true);
+    }
+
+    // Both pages share one illustration, embedded once and marked as the cover
+    const images = [...files.keys()].filter(name => name.startsWith("OEBPS/images/"));
+    expect(images).toEqual(["OEBPS/images/image-1.png"]);
+    expect(files.get(images[0])?.equals(png)).toBe(true);
+    expect(opf).toMatch(/href="images\/image-1.png"[^>]*properties="cover-image"/);
+
+    const first = files.get("OEBPS/page-01.xhtml")!.toString();
+    expect(first).toContain('src="images/image-1.png"');
+    expect(first).toContain(`alt="${book.pages[0].altText}"`);
+    expect(first).toContain("up the hill &amp; waved");
+    expect(files.get("OEBPS/page-02.xhtml")!.toString()).not.toContain("<img");
+    expect(files.get("OEBPS/nav.xhtml")!.toString()).toContain('href="page-03.xhtml"');
+  });
+
+  it("leaves out illustrations it cannot load and keeps the text", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const book = testBook(["https://example.com/not-in-storage.png"]);
+    const files = readZip(await renderBookEpub(book), 10 * 1024 * 1024);
+    expect([...files.keys()].some(name => name.startsWith("OEBPS/images/"))).toBe(false);
+    expect(files.get("OEBPS/page-01.xhtml")!.toString()).toContain("Page 1. Ava");
+    expect(warn).toHaveBeenCalledWith("Could not embed illustration in EPUB:", expect.any(Error));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,427 @@
+import { isAudioCurrent, type PageAudio } from "@/lib/audio";
+import { coverImageUrl, loadImageFile, type ImageFile } from "@/lib/books";
+import type { Book } from "@/lib/supabase";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+// EPUB 3 books for e-readers and library apps: a fixed-layout document per story page
+// with its illustration and alt text, reflowable glossary and fun-facts back matter, a
+// navigation document, schema.org accessibility metadata and, when the book's narration
+// still matches its text, media overlays that highlight each word as it is read.
+
+const VIEWPORT = { width: 1200, height: 1600 };
+const ILLUSTRATION_HEIGHT = 960;
+const TEXT_PADDING = 80;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+// Story text starts larger for younger readers and shrinks only if the page is full
+const TEXT_SIZES: Record<Book["readingLevel"], number> = { early: 48, middle: 40, advanced: 34 };
+
+const STYLESHEET = `body { margin: 0; font-family: sans-serif; color: #22222e; }
+.fixed { position: relative; width: ${VIEWPORT.width}px; height: ${VIEWPORT.height}px; overflow: hidden; background: #ffffff; }
+.illustration { margin: 0; width: 100%; height: ${ILLUSTRATION_HEIGHT}px; }
+.illustration img { width: 100%; height: 100%; object-fit: cover; }
+.text { padding: 48px ${TEXT_PADDING}px; text-align: center; line-height: 1.4; }
+.text p { margin: 0; }
+.activity { margin-top: 32px; font-size: 28px; color: #6b6b80; }
+.page-number { position: absolute; bottom: 32px; width: 100%; text-align: center; font-size: 24px; color: #6b6b80; }
+.cover { background: #312e81; color: #ffffff; text-align: center; }
+.cover img { display: block; width: 100%; height: 1120px; object-fit: cover; }
+.cover h1 { margin: 48px ${TEXT_PADDING}px 16px; font-size: 64px; }
+.cover p { margin: 0 ${TEXT_PADDING}px 12px; font-size: 32px; }
+.dedication { display: flex; align-items: center; justify-content: center; text-align: center; font-size: 40px; font-style: italic; }
+.dedication p { margin: 0 ${TEXT_PADDING * 2}px; }
+.back-matter { margin: 2em 1.5em; line-height: 1.5; }
+.back-matter dt { font-weight: bold; margin-top: 1em; }
+.back-matter dd { margin-left: 1em; }
+a.glossref { color: inherit; text-decoration: underline dotted; }
+.-epub-media-overlay-active { background: #fde047; }
+`;
+
+type ManifestItem = {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  mediaOverlay?: string;
+};
+
+type SpineItem = { idref: string; reflowable?: boolean };
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function pageName(pageIndex: number): string {
+  return `page-${String(pageIndex + 1).padStart(2, "0")}`;
+}
+
+// SMIL clock value, e.g. 0:01:05.250
+function clock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = (seconds % 60).toFixed(3).padStart(6, "0");
+  return `${hours}:${String(minutes).padStart(2, "0")}:${rest}`;
+}
+
+function xhtml(title: string, body: string, { fixed = true, bodyType = "" } = {}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+${fixed ? `<meta name="viewport" content="width=${VIEWPORT.width}, height=${VIEWPORT.height}"/>\n` : ""}<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ""}>
+${body}
+</body>
+</html>
+`;
+}
+
+// The largest size, at most `size`, at which the text roughly fits in the box
+function fitFontSize(text: string, size: number, width: number, height: number): number {
+  while (size > 20) {
+    const charsPerLine = width / (size * 0.5);
+    const lines = text.split("\n").reduce((total, line) => total + Math.max(1, Math.ceil(line.length / charsPerLine)), 0);
+    if (lines * size * 1.4 <= height) break;
+    size -= 2;
+  }
+  return size;
+}
+
+/**
+ * A page's text with each word in its own span (the targets of media overlays) and
+ * single-word glossary terms linked to their entry.
+ */
+function pageText(text: string, pageIndex: number, glossaryIds: Map<string, string>, withWordIds: boolean): string {
+  let wordIndex = 0;
+  return text.split(/(\s+)/).map(part => {
+    if (!part) return "";
+    if (/^\s+$/.test(part)) return part.includes("\n") ? "<br/>" : " ";
+    const id = `p${pageIndex + 1}-w${++wordIndex}`;
+    const word = withWordIds ? `<span id="${id}">${escapeXml(part)}</span>` : escapeXml(part);
+    const termId = glossaryIds.get(part.replace(/[^\p{L}\p{N}'-]/gu, "").toLowerCase());
+    return termId ? `<a class="glossref" epub:type="glossref" href="glossary.xhtml#${termId}">${word}</a>` : word;
+  }).join("");
+}
+
+function mediaOverlay(pageIndex: number, audio: PageAudio, audioHref: string): string {
+  const page = pageName(pageIndex);
+  const pars = audio.words.map((word, i) => {
+    const end = Math.max(word.end, word.start + 0.01);
+    return `<par id="${page}-par${i + 1}"><text src="../${page}.xhtml#p${pageIndex + 1}-w${i + 1}"/><audio src="../${audioHref}" clipBegin="${clock(word.start)}" clipEnd="${clock(end)}"/></par>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+<body>
+<seq id="${page}-seq" epub:textref="../${page}.xhtml" epub:type="bodymatter chapter">
+${pars.join("\n")}
+</seq>
+</body>
+</smil>
+`;
+}
+
+async function downloadAudio(url: string): Promise<Buffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not download narration (${res.status})`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * Packages the book as an EPUB 3. Illustrations and narration that cannot be downloaded
+ * are left out; the pages keep their text.
+ */
+export async function renderBookEpub(book: Book): Promise<Buffer> {
+  const files: ZipEntry[] = [];
+  const manifest: ManifestItem[] = [
+    { id: "nav", href: "nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" },
+    { id: "style", href: "style.css", mediaType: "text/css" },
+  ];
+  const spine: SpineItem[] = [];
+  const durations: Array<{ id: string; seconds: number }> = [];
+  files.push({ name: "OEBPS/style.css", data: STYLESHEET });
+
+  // Illustrations are shared between the cover and the first page, so embed each once
+  const images = new Map<string, { href: string; file: ImageFile } | null>();
+  async function image(url: string | undefined) {
+    if (!url) return null;
+    if (!images.has(url)) {
+      const file = await loadImageFile(url).catch(error => {
+        console.warn("Could not embed illustration in EPUB:", error);
+        return null;
+      });
+      const extension = file && IMAGE_EXTENSIONS[file.contentType.split(";")[0].trim()];
+      if (!file || !extension) {
+        images.set(url, null);
+      } else {
+        const href = `images/image-${images.size + 1}.${extension}`;
+        const id = `image-${images.size + 1}`;
+        manifest.push({ id, href, mediaType: file.contentType.split(";")[0].trim(), properties: url === coverImageUrl(book) ? "cover-image" : undefined });
+        files.push({ name: `OEBPS/${href}`, data: file.data });
+        images.set(url, { href, file });
+      }
+    }
+    return images.get(url) ?? null;
+  }
+
+  function addDocument(id: string, href: string, content: string, extra: Partial<ManifestItem> = {}, reflowable = false) {
+    manifest.push({ id, href, mediaType: "application/xhtml+xml", ...extra });
+    spine.push({ idref: id, reflowable });
+    files.push({ name: `OEBPS/${href}`, data: content });
+  }
+
+  const glossary = Object.entries(book.glossary || {}).sort(([a], [b]) => a.localeCompare(b));
+  const glossaryIds = new Map(glossary.map(([term], i) => [term.trim().toLowerCase(), `term-${i + 1}`]));
+
+  // Cover
+  const cover = await image(coverImageUrl(book));
+  const byline = book.child?.name ? `A story for ${book.child.name}` : "";
+  addDocument("cover", "cover.xhtml", xhtml(book.title, [
+    `<section class="fixed cover" epub:type="cover" role="doc-cover">`,
+    cover ? `<img src="${cover.href}" alt="${escapeXml(book.pages.find(page => page.imageUrl)?.altText || "Cover illustration")}"/>` : "",
+    `<h1>${escapeXml(book.title)}</h1>`,
+    book.subtitle ? `<p>${escapeXml(book.subtitle)}</p>` : "",
+    byline ? `<p>${escapeXml(byline)}</p>` : "",
+    `</section>`,
+  ].filter(Boolean).join("\n"), { bodyType: "frontmatter" }));
+
+  if (book.dedication?.trim()) {
+    addDocument("dedication", "dedication.xhtml", xhtml("Dedication", [
+      `<section class="fixed dedication" epub:type="dedication" role="doc-dedication">`,
+      `<p>${escapeXml(book.dedication)}</p>`,
+      `</section>`,
+    ].join("\n"), { bodyType: "frontmatter" }));
+  }
+
+  // Narration from /api/generate-audio, unless the text changed since it was made
+  const narration = book.audio && isAudioCurrent(book) ? book.audio : null;
+  let illustrated = 0;
+  let described = 0;
+  for (const [pageIndex, page] of book.pages.entries()) {
+    const name = pageName(pageIndex);
+    const illustration = await image(page.imageUrl);
+    const alt = page.altText || page.prompt || "";
+    if (illustration) {
+      illustrated++;
+      if (alt) described++;
+    }
+
+    const clip = narration?.pages.find(audio => audio.pageIndex === pageIndex);
+    let overlayId: string | undefined;
+    if (clip) {
+      const audio = await downloadAudio(clip.url).catch(error => {
+        console.warn("Could not embed narration in EPUB:", error);
+        return null;
+      });
+      if (audio) {
+        const audioHref = `audio/${name}.wav`;
+        overlayId = `${name}-overlay`;
+        files.push({ name: `OEBPS/${audioHref}`, data: audio });
+        files.push({ name: `OEBPS/overlays/${name}.smil`, data: mediaOverlay(pageIndex, clip, audioHref) });
+        manifest.push({ id: `${name}-audio`, href: audioHref, mediaType: narration!.format });
+        manifest.push({ id: overlayId, href: `overlays/${name}.smil`, mediaType: "application/smil+xml" });
+        durations.push({ id: overlayId, seconds: clip.duration });
+      }
+    }
+
+    const textHeight = VIEWPORT.height - (illustration ? ILLUSTRATION_HEIGHT : 0) - 200;
+    const fontSize = fitFontSize(page.text, TEXT_SIZES[book.readingLevel], VIEWPORT.width - TEXT_PADDING * 2, textHeight);
+    addDocument(name, `${name}.xhtml`, xhtml(`${book.title}, page ${pageIndex + 1}`, [
+      `<section class="fixed" epub:type="chapter" role="doc-chapter" aria-label="Page ${pageIndex + 1}">`,
+      illustration
+        ? `<figure class="illustration"><img src="${illustration.href}" alt="${escapeXml(alt)}"/></figure>`
+        : "",
+      `<div class="text" style="font-size: ${fontSize}px;">`,
+      `<p>${pageText(page.text, pageIndex, glossaryIds, !!overlayId)}</p>`,
+      page.activity ? `<aside class="activity" epub:type="tip"><strong>Try this!</strong> ${escapeXml(page.activity)}</aside>` : "",
+      `</div>`,
+      `<div class="page-number" aria-hidden="true">${pageIndex + 1}</div>`,
+      `</section>`,
+    ].filter(Boolean).join("\n"), { bodyType: "bodymatter" }), overlayId ? { mediaOverlay: overlayId } : {});
+  }
+
+  if (glossary.length > 0) {
+    addDocument("glossary", "glossary.xhtml", xhtml("Glossary", [
+      `<section class="back-matter" epub:type="glossary" role="doc-glossary">`,
+      `<h1>Glossary</h1>`,
+      `<dl>`,
+      ...glossary.map(([term, meaning]) =>
+        `<dt id="${glossaryIds.get(term.trim().toLowerCase())}" epub:type="glossterm"><dfn>${escapeXml(term)}</dfn></dt>\n<dd epub:type="glossdef">${escapeXml(meaning)}</dd>`),
+      `</dl>`,
+      `</section>`,
+    ].join("\n"), { fixed: false, bodyType: "backmatter" }), {}, true);
+  }
+
+  // Journey books list their facts by stop
+  const factGroups = book.journey
+    ? book.journey.legs.filter(leg => leg.funFacts.length > 0).map(leg => ({ heading: leg.city, facts: leg.funFacts }))
+    : [{ heading: "", facts: book.funFacts || [] }].filter(group => group.facts.length > 0);
+  if (factGroups.length > 0) {
+    addDocument("fun-facts", "fun-facts.xhtml", xhtml("Fun Facts", [
+      `<section class="back-matter" epub:type="appendix" role="doc-appendix">`,
+      `<h1>Fun Facts</h1>`,
+      ...factGroups.map(group => [
+        group.heading ? `<h2>${escapeXml(group.heading)}</h2>` : "",
+        `<ul>`,
+        ...group.facts.map(fact => `<li>${escapeXml(fact)}</li>`),
+        `</ul>`,
+      ].filter(Boolean).join("\n")),
+      `</section>`,
+    ].join("\n"), { fixed: false, bodyType: "backmatter" }), {}, true);
+  }
+
+  files.push({ name: "OEBPS/nav.xhtml", data: navigation(book, spine) });
+  files.push({
+    name: "OEBPS/package.opf",
+    data: packageDocument(book, manifest, spine, {
+      illustrated,
+      described,
+      narrated: durations,
+      narrationSeconds: durations.reduce((total, overlay) => total + overlay.seconds, 0),
+    }),
+  });
+
+  return createZip([
+    { name: "mimetype", data: "application/epub+zip", store: true },
+    {
+      name: "META-INF/container.xml",
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/package.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`,
+    },
+    ...files,
+  ]);
+}
+
+function navigation(book: Book, spine: SpineItem[]): string {
+  const has = (id: string) => spine.some(item => item.idref === id);
+  const pageLink = (pageIndex: number) => `<li><a href="${pageName(pageIndex)}.xhtml">Page ${pageIndex + 1}</a></li>`;
+
+  // Journey books group their pages by stop
+  let pages: string[];
+  if (book.journey) {
+    const stops: Array<{ city: string; pageIndexes: number[] }> = [];
+    book.pages.forEach((page, pageIndex) => {
+      const last = stops[stops.length - 1];
+      if (last && page.city && last.city === page.city) last.pageIndexes.push(pageIndex);
+      else stops.push({ city: page.city || `Page ${pageIndex + 1}`, pageIndexes: [pageIndex] });
+    });
+    pages = stops.map(stop =>
+      `<li><a href="${pageName(stop.pageIndexes[0])}.xhtml">${escapeXml(stop.city)}</a>\n<ol>\n${stop.pageIndexes.map(pageLink).join("\n")}\n</ol>\n</li>`);
+  } else {
+    pages = book.pages.map((_, pageIndex) => pageLink(pageIndex));
+  }
+
+  return xhtml(book.title, [
+    `<nav epub:type="toc" id="toc" role="doc-toc">`,
+    `<h1>Contents</h1>`,
+    `<ol>`,
+    `<li><a href="cover.xhtml">Cover</a></li>`,
+    has("dedication") ? `<li><a href="dedication.xhtml">Dedication</a></li>` : "",
+    ...pages,
+    has("glossary") ? `<li><a href="glossary.xhtml">Glossary</a></li>` : "",
+    has("fun-facts") ? `<li><a href="fun-facts.xhtml">Fun Facts</a></li>` : "",
+    `</ol>`,
+    `</nav>`,
+    `<nav epub:type="landmarks" id="landmarks" hidden="">`,
+    `<h2>Landmarks</h2>`,
+    `<ol>`,
+    `<li><a epub:type="cover" href="cover.xhtml">Cover</a></li>`,
+    `<li><a epub:type="toc" href="nav.xhtml#toc">Contents</a></li>`,
+    `<li><a epub:type="bodymatter" href="${pageName(0)}.xhtml">Start of Story</a></li>`,
+    has("glossary") ? `<li><a epub:type="glossary" href="glossary.xhtml">Glossary</a></li>` : "",
+    `</ol>`,
+    `</nav>`,
+    `<nav epub:type="page-list" id="page-list" hidden="">`,
+    `<h2>Pages</h2>`,
+    `<ol>`,
+    ...book.pages.map((_, pageIndex) => `<li><a href="${pageName(pageIndex)}.xhtml">${pageIndex + 1}</a></li>`),
+    `</ol>`,
+    `</nav>`,
+  ].filter(Boolean).join("\n"), { fixed: false });
+}
+
+function packageDocument(
+  book: Book,
+  manifest: ManifestItem[],
+  spine: SpineItem[],
+  { illustrated, described, narrated, narrationSeconds }: {
+    illustrated: number;
+    described: number;
+    narrated: Array<{ id: string; seconds: number }>;
+    narrationSeconds: number;
+  },
+): string {
+  const identifier = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(book.id)
+    ? `urn:uuid:${book.id}`
+    : `urn:storyvoyage:${book.id}`;
+  const modified = new Date(book.updated_at || book.created_at || Date.now()).toISOString().replace(/\.\d{3}Z$/, "Z");
+  const meta = (property: string, value: string, refines?: string) =>
+    `<meta property="${property}"${refines ? ` refines="#${refines}"` : ""}>${escapeXml(value)}</meta>`;
+
+  // Describe what the book actually offers, page by page
+  const allDescribed = described === illustrated;
+  const features = [
+    ...(illustrated > 0 && described > 0 ? ["alternativeText"] : []),
+    "readingOrder",
+    "structuralNavigation",
+    "tableOfContents",
+    "pageNavigation",
+    ...(narrated.length > 0 ? ["synchronizedAudioText"] : []),
+  ];
+  const summary = [
+    "Fixed-layout picture book with a table of contents and a page list.",
+    illustrated === 0
+      ? "The book has no illustrations."
+      : allDescribed
+        ? "Every illustration has a text description."
+        : `${described} of ${illustrated} illustrations have a text description.`,
+    narrated.length > 0 ? "Narration highlights each word as it is read." : "",
+  ].filter(Boolean).join(" ");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(book.title)}</dc:title>
+<dc:language>en</dc:language>
+<dc:creator>StoryVoyage</dc:creator>
+${book.subtitle ? `<dc:description>${escapeXml(book.subtitle)}</dc:description>\n` : ""}${(book.journey ? book.journey.legs.map(leg => leg.city) : [book.city]).map(city => `<dc:subject>${escapeXml(city)}</dc:subject>`).join("\n")}
+${meta("dcterms:modified", modified)}
+${meta("rendition:layout", "pre-paginated")}
+${meta("rendition:orientation", "portrait")}
+${meta("rendition:spread", "none")}
+${meta("schema:accessMode", "textual")}
+${illustrated > 0 ? `${meta("schema:accessMode", "visual")}\n` : ""}${narrated.length > 0 ? `${meta("schema:accessMode", "auditory")}\n` : ""}${allDescribed ? `${meta("schema:accessModeSufficient", "textual")}\n` : ""}${illustrated > 0 ? `${meta("schema:accessModeSufficient", "textual,visual")}\n` : ""}${features.map(feature => meta("schema:accessibilityFeature", feature)).join("\n")}
+${meta("schema:accessibilityHazard", "none")}
+${meta("schema:accessibilitySummary", summary)}
+${narrated.length > 0 ? [
+    meta("media:active-class", "-epub-media-overlay-active"),
+    meta("media:duration", clock(narrationSeconds)),
+    ...narrated.map(overlay => meta("media:duration", clock(overlay.seconds), overlay.id)),
+  ].join("\n") + "\n" : ""}</metadata>
+<manifest>
+${manifest.map(item => `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ""}${item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : ""}/>`).join("\n")}
+</manifest>
+<spine>
+${spine.map(item => `<itemref idref="${item.idref}"${item.reflowable ? ` properties="rendition:layout-reflowable"` : ""}/>`).join("\n")}
+</spine>
+</package>
+`;
+}
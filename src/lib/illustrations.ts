@@ -0,0 +1,354 @@
+import { fetchInlineImage, type AIProvider, type InlineImage } from "@/lib/ai";
+import { getBook, updateBookPage } from "@/lib/books";
+import { characterImages, characterPromptText, type CharacterContext } from "@/lib/characters";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabaseAdmin, uploadImageToStorage, type Book } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Illustration versions: every image made for a page is kept in page_illustrations,
+// so a parent can compare edits and pick any of them as the page's image again.
+
+const IMAGE_BUCKET = "story-images";
+const STORAGE_PAGE_SIZE = 1000;
+
+export type IllustrationVersion = {
+  id: string;
+  book_id: string;
+  page_index: number;
+  image_url: string;
+  parent_id: string | null;
+  prompt: string | null;
+  edit_instruction: string | null;
+  style: string | null;
+  model: string | null;
+  seed: number | null;
+  created_at: string;
+};
+
+export type CleanupResult = {
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  deleted: string[];
+  prunedVersions: number;
+};
+
+// Seeds fit a signed 32-bit integer, the narrowest range any backend accepts
+export function newImageSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+export type SourceImage = {
+  url: string;
+  image: InlineImage;
+};
+
+/**
+ * Downloads the image an edit or continuation starts from. It is sent to the model
+ * as the first image part, ahead of any character reference.
+ */
+export async function loadSourceImage(url: string): Promise<SourceImage> {
+  try {
+    return { url, image: await fetchInlineImage(url) };
+  } catch (error) {
+    throw new Error(`Could not load previous image: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Prompt text describing the source image. With an instruction the source is edited
+ * in place; without one it is the previous scene and the new image continues from it.
+ */
+export function editPromptText(editInstruction?: string): string {
+  return editInstruction
+    ? `Edit the first attached image, which is the current illustration for this page. Change only this: ${editInstruction}. Keep the composition, characters, art style and everything else exactly as they are. `
+    : `The first attached image is the previous scene of the story. Continue from it, keeping the setting, characters and art style visually continuous. `;
+}
+
+export type IllustrationStyle = "realistic" | "cartoon" | "watercolor" | "sketch";
+
+const STYLE_PROMPTS: Record<IllustrationStyle, string> = {
+  realistic: `Style: photorealistic, warm and inviting, suitable for ages 3-12. `,
+  cartoon: `Style: colorful cartoon illustration, friendly and engaging, suitable for ages 3-12. `,
+  watercolor: `Style: soft watercolor painting, artistic and dreamy, suitable for ages 3-12. `,
+  sketch: `Style: detailed pencil sketch with light coloring, educational and clear, suitable for ages 3-12. `,
+};
+
+export type IllustrationRequest = {
+  prompt: string;
+  style?: IllustrationStyle;
+  character?: CharacterContext | null;
+  characterDescription?: string;
+  consistencyMode?: boolean;
+  source?: SourceImage | null;
+  editInstruction?: string;
+  seed: number;
+};
+
+/**
+ * Generates one illustration and uploads it, returning its public URL, or null when
+ * the model returns no image. Shared by /api/illustrate and book generation.
+ */
+export async function createIllustration(
+  ai: AIProvider,
+  { prompt, style = "realistic", character, characterDescription, consistencyMode = true, source, editInstruction, seed }: IllustrationRequest
+): Promise<string | null> {
+  let enhancedPrompt = `Create a high-quality children's book illustration. ${STYLE_PROMPTS[style]}`;
+
+  // Character consistency - prefer the character bible, then a free-text description
+  if (character) {
+    enhancedPrompt += characterPromptText(character);
+  } else if (characterDescription) {
+    enhancedPrompt += `Character consistency: Maintain the same character appearance as described: ${characterDescription}. `;
+  } else if (consistencyMode) {
+    enhancedPrompt += `Character consistency: Maintain consistent character appearance throughout the story. `;
+  }
+  if (source) {
+    enhancedPrompt += editPromptText(editInstruction);
+  }
+  enhancedPrompt += `Lighting: soft, natural lighting. Colors: vibrant but not overwhelming. Composition: clean, uncluttered, focus on the main subject. ${prompt}`;
+
+  const images = [...(source ? [source.image] : []), ...characterImages(character)];
+  const image = await ai.generateImage({ prompt: enhancedPrompt, images, seed });
+  if (!image) return null;
+
+  const filename = `illustration_${Date.now()}_${Math.random().toString(36).substring(2, 8)}.png`;
+  const imageUrl = await uploadImageToStorage(Buffer.from(image.data, "base64"), filename);
+  if (!imageUrl) throw new Error("Failed to upload image to storage");
+  return imageUrl;
+}
+
+export async function listIllustrationVersions(bookId: string, pageIndex: number): Promise<IllustrationVersion[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("page_illustrations")
+    .select("*")
+    .eq("book_id", bookId)
+    .eq("page_index", pageIndex)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as IllustrationVersion[];
+}
+
+// Every page's gallery, oldest first
+export async function listBookIllustrations(bookId: string): Promise<IllustrationVersion[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("page_illustrations")
+    .select("*")
+    .eq("book_id", bookId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as IllustrationVersion[];
+}
+
+/**
+ * Records a new image for a page. The image it replaces, and the image it was edited
+ * from, are recorded first when they have no version yet (for example illustrations
+ * from before versions were kept), so the parent can always revert to them.
+ * Returns null rather than failing the illustration when versions cannot be stored.
+ */
+export async function recordIllustrationVersion({
+  bookId,
+  pageIndex,
+  imageUrl,
+  sourceImageUrl,
+  prompt,
+  editInstruction,
+  style,
+  model,
+  seed,
+}: {
+  bookId: string;
+  pageIndex: number;
+  imageUrl: string;
+  sourceImageUrl?: string;
+  prompt?: string;
+  editInstruction?: string;
+  style?: string;
+  model?: string;
+  seed?: number;
+}): Promise<IllustrationVersion | null> {
+  try {
+    const versions = await listIllustrationVersions(bookId, pageIndex);
+    const recorded = versions.find(version => version.image_url === imageUrl);
+    if (recorded) return recorded;
+
+    const ensureVersion = async (url: string): Promise<IllustrationVersion> => {
+      const existing = versions.find(version => version.image_url === url);
+      if (existing) return existing;
+      const inserted = await insertVersion({ book_id: bookId, page_index: pageIndex, image_url: url });
+      versions.push(inserted);
+      return inserted;
+    };
+
+    const book = await getBook(bookId);
+    const currentImageUrl = book?.pages[pageIndex]?.imageUrl;
+    // The page may already show the new image when the book was saved with it
+    const current = currentImageUrl && currentImageUrl !== imageUrl ? await ensureVersion(currentImageUrl) : null;
+    const parent = sourceImageUrl ? await ensureVersion(sourceImageUrl) : current;
+
+    return await insertVersion({
+      book_id: bookId,
+      page_index: pageIndex,
+      image_url: imageUrl,
+      parent_id: parent?.id ?? null,
+      prompt: prompt ?? null,
+      edit_instruction: editInstruction ?? null,
+      style: style ?? null,
+      model: model ?? null,
+      seed: seed ?? null,
+    });
+  } catch (error) {
+    console.warn(`Could not record illustration version for book ${bookId} page ${pageIndex + 1}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Makes a recorded version the page's active illustration.
+ */
+export async function activateIllustrationVersion(bookId: string, pageIndex: number, versionId: string): Promise<Book | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("page_illustrations")
+    .select("*")
+    .eq("id", versionId)
+    .eq("book_id", bookId)
+    .eq("page_index", pageIndex)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  return updateBookPage(bookId, pageIndex, { imageUrl: (data as IllustrationVersion).image_url });
+}
+
+/**
+ * Moves gallery entries along with their pages after the editor reorders, inserts or
+ * deletes pages. `pageMoves[oldIndex]` is the page's new index, or null when it was
+ * deleted; entries of deleted pages are dropped and their images left for cleanup.
+ */
+export async function reindexIllustrations(bookId: string, pageMoves: Array<number | null>): Promise<void> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("page_illustrations").select("id, page_index").eq("book_id", bookId);
+  if (error) throw error;
+
+  const removed = (data || []).filter(row => (pageMoves[row.page_index] ?? null) === null);
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("page_illustrations")
+      .delete()
+      .in("id", removed.map(row => row.id));
+    if (deleteError) throw deleteError;
+  }
+
+  for (const row of data || []) {
+    const newIndex = pageMoves[row.page_index];
+    if (newIndex === null || newIndex === undefined || newIndex === row.page_index) continue;
+    const { error: updateError } = await supabase
+      .from("page_illustrations")
+      .update({ page_index: newIndex })
+      .eq("id", row.id);
+    if (updateError) throw updateError;
+  }
+}
+
+/**
+ * Deletes stored images that nothing points at: not the active image of any book
+ * page, not a character reference or child avatar, and (unless keepHistory is false)
+ * not a recorded version in any page gallery. Images younger than the grace period
+ * are skipped because a generation may have uploaded them without saving the book yet.
+ */
+export async function cleanupUnreferencedImages({
+  dryRun = false,
+  keepHistory = true,
+  graceMinutes = 60,
+}: { dryRun?: boolean; keepHistory?: boolean; graceMinutes?: number } = {}): Promise<CleanupResult> {
+  // Has to see every family's books, or their images would all look unreferenced
+  if (!supabaseAdmin) throw new Error("Image cleanup needs SUPABASE_SERVICE_ROLE_KEY");
+  const client = supabaseAdmin;
+
+  const [
+    { data: books, error: booksError },
+    { data: characters, error: charactersError },
+    { data: children, error: childrenError },
+  ] = await Promise.all([
+    client.from("books").select("pages"),
+    client.from("characters").select("reference_image_url"),
+    client.from("children").select("avatar_url"),
+  ]);
+  if (booksError) throw booksError;
+  if (charactersError) throw charactersError;
+  if (childrenError) throw childrenError;
+
+  const referenced = new Set<string>();
+  const reference = (url: string | null | undefined) => {
+    const path = url && storagePathFromUrl(url);
+    if (path) referenced.add(path);
+  };
+  for (const book of (books || []) as Array<{ pages: Book["pages"] | null }>) {
+    (book.pages || []).forEach(page => reference(page.imageUrl));
+  }
+  (characters || []).forEach(character => reference(character.reference_image_url));
+  (children || []).forEach(child => reference(child.avatar_url));
+
+  const { data: versions, error: versionsError } = await client.from("page_illustrations").select("id, image_url");
+  if (versionsError) throw versionsError;
+
+  let prunedVersions = 0;
+  if (keepHistory) {
+    (versions || []).forEach(version => reference(version.image_url));
+  } else {
+    const stale = (versions || []).filter(version => !referenced.has(storagePathFromUrl(version.image_url) ?? version.image_url));
+    prunedVersions = stale.length;
+    if (!dryRun && stale.length > 0) {
+      const { error } = await client.from("page_illustrations").delete().in("id", stale.map(version => version.id));
+      if (error) throw error;
+    }
+  }
+
+  const cutoff = Date.now() - graceMinutes * 60 * 1000;
+  const stored = await listStoredImages(client);
+  const orphaned = stored
+    .filter(file => !referenced.has(file.name))
+    .filter(file => !file.created_at || new Date(file.created_at).getTime() < cutoff)
+    .map(file => file.name);
+
+  console.log(`Image cleanup: ${stored.length} stored, ${referenced.size} referenced, ${orphaned.length} unreferenced${dryRun ? " (dry run)" : ""}`);
+
+  if (!dryRun) {
+    for (let i = 0; i < orphaned.length; i += STORAGE_PAGE_SIZE) {
+      const { error } = await client.storage.from(IMAGE_BUCKET).remove(orphaned.slice(i, i + STORAGE_PAGE_SIZE));
+      if (error) throw error;
+    }
+  }
+
+  return { dryRun, scanned: stored.length, referenced: referenced.size, deleted: orphaned, prunedVersions };
+}
+
+// Object path inside the image bucket for one of its public URLs
+function storagePathFromUrl(url: string): string | null {
+  const marker = `/${IMAGE_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length).split("?")[0]);
+}
+
+async function listStoredImages(client: SupabaseClient): Promise<Array<{ name: string; created_at?: string }>> {
+  const files: Array<{ name: string; created_at?: string }> = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await client.storage
+      .from(IMAGE_BUCKET)
+      .list("", { limit: STORAGE_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+    if (error) throw error;
+    // Folders come back without an id
+    files.push(...(data || []).filter(file => file.id).map(file => ({ name: file.name, created_at: file.created_at })));
+    if (!data || data.length < STORAGE_PAGE_SIZE) return files;
+  }
+}
+
+async function insertVersion(fields: Partial<IllustrationVersion>): Promise<IllustrationVersion> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("page_illustrations").insert(fields).select().single();
+  if (error) throw error;
+  return data as IllustrationVersion;
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Which image URLs the server may fetch. Routes that load an image named by the browser
+// (or stored in a book by it) only follow links into our own Supabase storage, so they
+// cannot be pointed at internal hosts or cloud metadata endpoints.
+
+const PUBLIC_OBJECT_PATH = "/storage/v1/object/public/";
+
+// A public object in this project's Supabase storage
+export function isStorageUrl(url: string): boolean {
+  const base = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  if (!base) return false;
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === new URL(base).origin && parsed.pathname.startsWith(PUBLIC_OBJECT_PATH);
+  } catch {
+    return false;
+  }
+}
+
+export function isInlineImage(url: string): boolean {
+  return /^data:image\/[\w.+-]+;base64,/.test(url);
+}
+
+/**
+ * An image a book page may point at: stored in Supabase, inline, or one of the files
+ * under /images that books saved before storage existed still use.
+ */
+export function isBookImageUrl(url: string): boolean {
+  return isStorageUrl(url) || isInlineImage(url) || /^\/images\/[\w.-]+$/.test(url);
+}
+
+export const BookImageUrlSchema = z.string().refine(isBookImageUrl, "Must be an image in storage or a data: URL");
+
+export const SourceImageUrlSchema = z.string().refine(
+  url => isStorageUrl(url) || isInlineImage(url),
+  "Must be an image in storage or a data: URL",
+);
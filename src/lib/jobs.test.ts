@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AIProvider } from "@/lib/ai";
+import { getJob, isJobActive, resumeJob, runJob, type GenerationTask } from "@/lib/jobs";
+import { bookToRow } from "@/lib/supabase";
+import { FakeSupabase } from "@/test/fake-supabase";
+import { testBook } from "@/test/fixtures";
+
+let db: FakeSupabase;
+vi.mock("@/lib/supabase-server", () => ({ getServerSupabase: async () => db }));
+
+const book = testBook();
+const MINUTE = 60 * 1000;
+
+// A page job on the test book, with one alt text task for page 1 unless tasks are given
+function seedJob(status: string, tasks: Array<Partial<GenerationTask>> = [{}]) {
+  db.table("books").push({ ...bookToRow(book), id: book.id, updated_at: "2025-06-01T00:00:00.000Z" });
+  db.table("generation_jobs").push({ id: "job-1", book_id: book.id, status, request: null, error: null });
+  tasks.forEach((task, i) => db.table("generation_tasks").push({
+    id: `task-${i + 1}`,
+    job_id: "job-1",
+    page_index: 0,
+    kind: "alt_text",
+    status: "pending",
+    attempts: 0,
+    next_run_at: new Date(0).toISOString(),
+    locked_at: null,
+    last_error: null,
+    result: null,
+    ...task,
+  }));
+}
+
+// Writes alt text, after failing the first `failures` requests
+function altTextModel(failures = 0) {
+  const generateText = vi.fn(async () => {
+    if (generateText.mock.calls.length <= failures) throw new Error("Model is overloaded");
+    return '{"altText":"Ava waving from a yellow tram"}';
+  });
+  const ai: AIProvider = { name: "mock", textModel: "test", imageModel: "test", generateText, generateImage: async () => null };
+  return { ai, generateText };
+}
+
+function task(id = "task-1") {
+  return db.table("generation_tasks").find(row => row.id === id)!;
+}
+
+beforeEach(() => {
+  db = new FakeSupabase();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("runJob", () => {
+  it("retries a failed task after a backoff and then finishes the job", async () => {
+    vi.useFakeTimers();
+    seedJob("queued");
+    const { ai, generateText } = altTextModel(1);
+
+    const run = runJob("job-1", ai);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(task()).toMatchObject({ status: "pending", attempts: 1, last_error: "Model is overloaded" });
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await run).toBe("succeeded");
+    expect(generateText).toHaveBeenCalledTimes(2);
+    expect(task()).toMatchObject({ status: "succeeded", attempts: 2, last_error: null, locked_at: null });
+    expect((db.table("books")[0].pages as Array<{ altText: string }>)[0].altText).toBe("Ava waving from a yellow tram");
+  });
+
+  it("fails a task once it has used up its attempts, and the job with it", async () => {
+    vi.useFakeTimers();
+    seedJob("queued", [{}, { id: "task-2", page_index: 1, status: "succeeded", attempts: 1 }]);
+    const { ai, generateText } = altTextModel(Infinity);
+
+    const run = runJob("job-1", ai);
+    await vi.runAllTimersAsync();
+    expect(await run).toBe("failed");
+    expect(generateText).toHaveBeenCalledTimes(3);
+    expect(task()).toMatchObject({ status: "failed", attempts: 3 });
+    expect(db.table("generation_jobs")[0]).toMatchObject({ status: "failed", error: "1 task(s) failed: alt_text@page1" });
+  });
+
+  it("leaves a task another worker claimed first to that worker", async () => {
+    seedJob("queued");
+    const { ai, generateText } = altTextModel();
+    // The other worker takes the task between this one reading and claiming it
+    let claimed = false;
+    db.beforeWrite = table => {
+      if (table !== "generation_tasks" || claimed) return;
+      claimed = true;
+      Object.assign(task(), { status: "running", attempts: 1, locked_at: new Date().toISOString() });
+    };
+
+    expect(await runJob("job-1", ai)).toBe("running");
+    expect(generateText).not.toHaveBeenCalled();
+    expect(task()).toMatchObject({ status: "running", attempts: 1 });
+    expect(db.table("generation_jobs")[0].status).toBe("running");
+  });
+});
+
+describe("resumeJob", () => {
+  it("retries failed tasks and releases locks left by a worker that died", async () => {
+    const now = Date.now();
+    seedJob("running", [
+      { status: "failed", attempts: 3, last_error: "Model is overloaded" },
+      { id: "task-2", status: "running", attempts: 1, locked_at: new Date(now - 10 * MINUTE).toISOString() },
+      { id: "task-3", status: "running", attempts: 1, locked_at: new Date(now - MINUTE).toISOString() },
+      { id: "task-4", status: "succeeded", attempts: 1 },
+    ]);
+
+    await resumeJob("job-1");
+    expect(task("task-1")).toMatchObject({ status: "pending", attempts: 0, locked_at: null });
+    expect(task("task-2")).toMatchObject({ status: "pending", attempts: 1, locked_at: null });
+    expect(task("task-3")).toMatchObject({ status: "running", attempts: 1 });
+    expect(task("task-4")).toMatchObject({ status: "succeeded" });
+    expect(db.table("generation_jobs")[0]).toMatchObject({ status: "queued", error: null });
+  });
+});
+
+describe("isJobActive", () => {
+  it("counts a running job as active only while a task holds a fresh lock", async () => {
+    seedJob("running", [{ status: "running", locked_at: new Date(Date.now() - 10 * MINUTE).toISOString() }]);
+    expect(isJobActive((await getJob("job-1"))!)).toBe(false);
+
+    task().locked_at = new Date(Date.now() - MINUTE).toISOString();
+    expect(isJobActive((await getJob("job-1"))!)).toBe(true);
+  });
+});
@@ -0,0 +1,350 @@
+import { z } from "zod";
+import { generateStructured, getAIProvider, type AIProvider } from "@/lib/ai";
+import { QuizSchema, type BookPage } from "@/lib/book-schema";
+import { illustratePage, loadBookCharacter, writeStory, type GenerateBookRequest } from "@/lib/book-generation";
+import { loadBook, updateBookPage } from "@/lib/books";
+import { resolveCharacterForChild } from "@/lib/characters";
+import { newImageSeed, recordIllustrationVersion } from "@/lib/illustrations";
+import { addBookToSeries } from "@/lib/series";
+import { bookFromRow, bookToRow, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Durable generation jobs. A job is a set of tasks persisted in generation_tasks;
+// the worker runs them one at a time so a restart only loses the task in flight,
+// and any job can be resumed from whatever is still pending or failed.
+
+export type TaskKind = "text" | "image" | "alt_text" | "quiz";
+export type TaskStatus = "pending" | "running" | "succeeded" | "failed";
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export const PAGE_TASK_KINDS: TaskKind[] = ["image", "alt_text", "quiz"];
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 2000;
+// A task left "running" longer than this was interrupted by a restart
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+export type GenerationJob = {
+  id: string;
+  book_id: string | null;
+  status: JobStatus;
+  request: GenerateBookRequest | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type GenerationTask = {
+  id: string;
+  job_id: string;
+  page_index: number | null;
+  kind: TaskKind;
+  status: TaskStatus;
+  attempts: number;
+  next_run_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+};
+
+/**
+ * Queues a full book build: one book-level text task, which adds the per-page
+ * image, alt text and quiz tasks once the story exists.
+ */
+export async function createGenerationJob(request: GenerateBookRequest): Promise<GenerationJob> {
+  const job = await insertJob({ request, book_id: null });
+  await insertTasks(job.id, [{ page_index: null, kind: "text" }]);
+  return job;
+}
+
+/**
+ * Queues page-level tasks for an existing book. Without explicit pages, only
+ * pages missing the output of each kind (no image, no alt text, no quiz) are queued.
+ */
+export async function createPageJob(
+  bookId: string,
+  { pages, kinds = PAGE_TASK_KINDS }: { pages?: number[]; kinds?: TaskKind[] } = {}
+): Promise<GenerationJob | null> {
+  const book = await loadBook(bookId);
+  const tasks = kinds.flatMap(kind => {
+    const indexes = pages ?? book.pages.map((_, i) => i).filter(i => !hasOutput(book.pages[i], kind));
+    return indexes
+      .filter(i => i >= 0 && i < book.pages.length)
+      .map(page_index => ({ page_index, kind }));
+  });
+  if (tasks.length === 0) return null;
+
+  const job = await insertJob({ request: null, book_id: bookId });
+  await insertTasks(job.id, tasks);
+  return job;
+}
+
+/**
+ * Queues retries for pages a synchronous build failed to illustrate. Books that
+ * only have a temporary id were never saved, so there is nothing to resume.
+ */
+export async function queueMissingIllustrations(book: Book): Promise<GenerationJob | null> {
+  if (book.id.startsWith("temp_")) return null;
+  if (book.pages.every(page => hasOutput(page, "image"))) return null;
+  return createPageJob(book.id, { kinds: ["image"] });
+}
+
+export async function getJob(jobId: string): Promise<{ job: GenerationJob; tasks: GenerationTask[] } | null> {
+  const supabase = await getServerSupabase();
+  const { data: job, error } = await supabase.from("generation_jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) throw error;
+  if (!job) return null;
+
+  const { data: tasks, error: tasksError } = await supabase
+    .from("generation_tasks")
+    .select("*")
+    .eq("job_id", jobId)
+    .order("page_index", { ascending: true, nullsFirst: true });
+  if (tasksError) throw tasksError;
+
+  return { job: job as GenerationJob, tasks: (tasks || []) as GenerationTask[] };
+}
+
+/**
+ * Whether a worker is still processing the job: it is marked running and one of its
+ * tasks holds a lock younger than STALE_LOCK_MS.
+ */
+export function isJobActive({ job, tasks }: { job: GenerationJob; tasks: GenerationTask[] }): boolean {
+  if (job.status !== "running") return false;
+  const staleBefore = Date.now() - STALE_LOCK_MS;
+  return tasks.some(task =>
+    task.status === "running" && !!task.locked_at && new Date(task.locked_at).getTime() >= staleBefore
+  );
+}
+
+/**
+ * Makes failed tasks runnable again with a fresh retry budget and releases tasks
+ * orphaned by a restart. Call runJob afterwards to process them.
+ */
+export async function resumeJob(jobId: string): Promise<void> {
+  const supabase = await getServerSupabase();
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+  const now = new Date().toISOString();
+
+  const { error: failedError } = await supabase
+    .from("generation_tasks")
+    .update({ status: "pending", attempts: 0, next_run_at: now, locked_at: null })
+    .eq("job_id", jobId)
+    .eq("status", "failed");
+  if (failedError) throw failedError;
+
+  const { error: staleError } = await supabase
+    .from("generation_tasks")
+    .update({ status: "pending", next_run_at: now, locked_at: null })
+    .eq("job_id", jobId)
+    .eq("status", "running")
+    .lt("locked_at", staleBefore);
+  if (staleError) throw staleError;
+
+  await updateJob(jobId, { status: "queued", error: null });
+}
+
+/**
+ * Processes a job's tasks until every task has succeeded or used up its retries.
+ */
+export async function runJob(jobId: string, ai: AIProvider = getAIProvider()): Promise<JobStatus> {
+  await updateJob(jobId, { status: "running" });
+
+  while (true) {
+    const current = await getJob(jobId);
+    if (!current) throw new Error(`Job ${jobId} not found`);
+    const { job, tasks } = current;
+
+    const waiting = tasks.filter(task => task.status === "pending");
+    if (waiting.length === 0) {
+      // Another worker still holds a task and finishes the job when it is done
+      if (tasks.some(task => task.status === "running")) return "running";
+      const failed = tasks.filter(task => task.status === "failed");
+      const status: JobStatus = failed.length > 0 ? "failed" : "succeeded";
+      await updateJob(jobId, {
+        status,
+        error: failed.length > 0
+          ? `${failed.length} task(s) failed: ${failed.map(describeTask).join(", ")}`
+          : null,
+      });
+      return status;
+    }
+
+    // Book-level text first, then pages in order
+    const next = waiting.sort((a, b) => (a.page_index ?? -1) - (b.page_index ?? -1))[0];
+    const delay = new Date(next.next_run_at).getTime() - Date.now();
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    // Another worker claimed it first
+    if (!(await claimTask(next))) continue;
+    try {
+      const result = await runTask(ai, job, next);
+      await updateTask(next.id, { status: "succeeded", locked_at: null, last_error: null, result });
+    } catch (err: unknown) {
+      const attempts = next.attempts + 1;
+      const message = err instanceof Error ? err.message : "Unknown error";
+      console.warn(`Task ${describeTask(next)} of job ${jobId} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, message);
+      await updateTask(next.id, attempts >= MAX_ATTEMPTS
+        ? { status: "failed", locked_at: null, last_error: message }
+        : {
+            status: "pending",
+            locked_at: null,
+            last_error: message,
+            next_run_at: new Date(Date.now() + BACKOFF_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+          });
+    }
+  }
+}
+
+async function runTask(ai: AIProvider, job: GenerationJob, task: GenerationTask): Promise<Record<string, unknown>> {
+  if (task.kind === "text" && task.page_index === null) {
+    if (!job.request) throw new Error("Job has no story request");
+    // A previous attempt saved the book but was interrupted before finishing
+    if (job.book_id) return { bookId: job.book_id };
+    const { data, repairedFields } = await writeStory(ai, job.request);
+    const character = await resolveCharacterForChild(ai, data.child, job.request.characterId, job.request.childId);
+    const supabase = await getServerSupabase();
+    const { data: saved, error } = await supabase
+      .from("books")
+      .insert(bookToRow({ ...data, characterId: character?.id ?? null, childId: job.request.childId ?? null }))
+      .select()
+      .single();
+    if (error) throw error;
+
+    const book = job.request.seriesId
+      ? await addBookToSeries(job.request.seriesId, bookFromRow(saved as BookRow))
+      : bookFromRow(saved as BookRow);
+    await updateJob(job.id, { book_id: book.id });
+    await insertTasks(job.id, book.pages.flatMap((_, page_index) =>
+      PAGE_TASK_KINDS.map(kind => ({ page_index, kind }))
+    ));
+    return { bookId: book.id, repairedFields };
+  }
+
+  if (!job.book_id || task.page_index === null) {
+    throw new Error(`Task ${describeTask(task)} has no book page to work on`);
+  }
+  const book = await loadBook(job.book_id);
+  const page = book.pages[task.page_index];
+  if (!page) throw new Error(`Book ${book.id} has no page ${task.page_index + 1}`);
+
+  switch (task.kind) {
+    case "image": {
+      const character = await loadBookCharacter(ai, book.child, book.characterId, book.childId);
+      const seed = newImageSeed();
+      const imageUrl = await illustratePage(ai, page, task.page_index, character, seed);
+      if (!imageUrl) throw new Error("No image returned from model");
+      // Recorded before the page changes so any image it replaces is kept in the gallery
+      await recordIllustrationVersion({
+        bookId: book.id,
+        pageIndex: task.page_index,
+        imageUrl,
+        prompt: page.prompt,
+        style: "realistic",
+        model: ai.imageModel,
+        seed,
+      });
+      await updateBookPage(book.id, task.page_index, { imageUrl });
+      return { imageUrl, seed };
+    }
+    case "alt_text": {
+      const { data } = await generateStructured(ai, {
+        prompt: `Write alt text for the illustration on this page of a children's book for a ${book.child.age}-year-old.
+
+Page text: "${page.text}"
+Illustration prompt: "${page.prompt || "none"}"
+
+Return ONLY JSON: { "altText": "one or two plain sentences a child can understand" }`,
+        schema: z.object({ altText: z.string().min(1) }),
+      });
+      await updateBookPage(book.id, task.page_index, { altText: data.altText });
+      return data;
+    }
+    case "quiz": {
+      const { data } = await generateStructured(ai, {
+        prompt: `Create a reading comprehension quiz for this children's story page.
+
+Story text: "${page.text}"
+Reading level: ${book.readingLevel}
+Child age: ${book.child.age}
+
+Generate 2-3 age-appropriate multiple choice questions with explanations.
+
+Return ONLY JSON: { "questions": [{ "question": "...", "options": ["A) ...", "B) ..."], "correct": "A", "explanation": "..." }] }`,
+        schema: QuizSchema,
+      });
+      await updateBookPage(book.id, task.page_index, { quiz: data });
+      return { questions: data.questions.length };
+    }
+    case "text":
+      // Page-level text tasks are not queued by this module
+      throw new Error("Page text tasks are not supported");
+  }
+}
+
+function hasOutput(page: BookPage, kind: TaskKind): boolean {
+  switch (kind) {
+    case "image": return !!page.imageUrl || !page.prompt;
+    case "alt_text": return !!page.altText;
+    case "quiz": return !!page.quiz;
+    case "text": return !!page.text;
+  }
+}
+
+function describeTask(task: Pick<GenerationTask, "kind" | "page_index">): string {
+  return task.page_index === null ? task.kind : `${task.kind}@page${task.page_index + 1}`;
+}
+
+async function insertJob(fields: Pick<GenerationJob, "request" | "book_id">): Promise<GenerationJob> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .insert({ ...fields, status: "queued" })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as GenerationJob;
+}
+
+async function insertTasks(jobId: string, tasks: Array<Pick<GenerationTask, "page_index" | "kind">>): Promise<void> {
+  if (tasks.length === 0) return;
+  const supabase = await getServerSupabase();
+  const { error } = await supabase
+    .from("generation_tasks")
+    .insert(tasks.map(task => ({ ...task, job_id: jobId, status: "pending", attempts: 0 })));
+  if (error) throw error;
+}
+
+async function updateJob(jobId: string, patch: Partial<GenerationJob>): Promise<void> {
+  const supabase = await getServerSupabase();
+  const { error } = await supabase
+    .from("generation_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+  if (error) throw error;
+}
+
+// Marks a pending task as running; false when it was no longer pending
+async function claimTask(task: GenerationTask): Promise<boolean> {
+  const supabase = await getServerSupabase();
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("generation_tasks")
+    .update({ status: "running", locked_at: now, attempts: task.attempts + 1, updated_at: now })
+    .eq("id", task.id)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function updateTask(taskId: string, patch: Partial<GenerationTask>): Promise<void> {
+  const supabase = await getServerSupabase();
+  const { error } = await supabase
+    .from("generation_tasks")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", taskId);
+  if (error) throw error;
+}
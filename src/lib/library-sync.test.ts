@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { syncLibrary } from "@/lib/library-sync";
+import type { LibraryChange, LocalBook } from "@/lib/local-library";
+import { bookToRow, type Book } from "@/lib/supabase";
+import { FakeSupabase } from "@/test/fake-supabase";
+import { testBook } from "@/test/fixtures";
+
+let db: FakeSupabase;
+vi.mock("@/lib/supabase", async importOriginal => ({
+  ...(await importOriginal<typeof import("@/lib/supabase")>()),
+  get supabase() {
+    return db;
+  },
+}));
+
+// The device's library, kept in memory instead of IndexedDB
+let books: Map<string, LocalBook>;
+let changes: LibraryChange[];
+let seq: number;
+vi.mock("@/lib/local-library", () => ({
+  listLocalBooks: async (ownerId: string | null) => [...books.values()].filter(record => record.ownerId === ownerId),
+  getLocalBook: async (id: string) => structuredClone(books.get(id)),
+  writeLocalBooks: async (records: LocalBook[], logged: LibraryChange[] = []) => {
+    records.forEach(record => books.set(record.id, structuredClone(record)));
+    logged.forEach(change => changes.push({ ...change, seq: ++seq }));
+  },
+  deleteLocalBook: async (id: string) => {
+    books.delete(id);
+    changes = changes.filter(change => change.bookId !== id);
+  },
+  listChanges: async () => [...changes],
+  deleteChanges: async (seqs: number[]) => {
+    changes = changes.filter(change => !seqs.includes(change.seq!));
+  },
+}));
+
+const OWNER = "user-1";
+const SYNCED_AT = "2025-06-01T09:00:00.000Z";
+const EDITED_AT = "2025-06-01T10:00:00.000Z";
+
+const book: Book = { ...testBook(), id: "book-1", updated_at: SYNCED_AT };
+
+// A book edited on the device since it was last synced, with its change logged
+function editedLocally() {
+  books.set(book.id, {
+    id: book.id,
+    ownerId: OWNER,
+    book: { ...book, title: "Ava's Day, edited on the tablet" },
+    status: "pending",
+    serverUpdatedAt: SYNCED_AT,
+    modifiedAt: EDITED_AT,
+  });
+  changes.push({ seq: ++seq, bookId: book.id, type: "update", at: EDITED_AT });
+}
+
+// The server's copy, as the pull at the end of a sync lists it
+function onServer(updatedAt: string, title = book.title): Book {
+  const copy = { ...book, title, updated_at: updatedAt };
+  db.table("books").push({ ...bookToRow(copy), id: copy.id, updated_at: updatedAt });
+  return copy;
+}
+
+// Answers each request to the books API with the next scripted response
+function serverAnswers(...responses: Array<{ status: number; body: unknown }>) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => {
+    const { status, body } = responses.shift()!;
+    return new Response(JSON.stringify(body), { status });
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+function sentBody(fetch: ReturnType<typeof serverAnswers>, call: number) {
+  return JSON.parse(fetch.mock.calls[call][1]!.body as string);
+}
+
+beforeEach(() => {
+  db = new FakeSupabase();
+  books = new Map();
+  changes = [];
+  seq = 0;
+  vi.stubGlobal("navigator", { onLine: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("syncLibrary conflicts", () => {
+  it("takes the server copy when it was changed after the device's edit", async () => {
+    editedLocally();
+    const server = onServer("2025-06-01T11:00:00.000Z", "Ava's Day, edited on the phone");
+    const fetch = serverAnswers({ status: 409, body: { error: "Book changed", book: server } });
+
+    await syncLibrary(OWNER);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(books.get(book.id)).toMatchObject({
+      status: "synced",
+      serverUpdatedAt: server.updated_at,
+      book: { title: "Ava's Day, edited on the phone" },
+    });
+    expect(changes).toEqual([]);
+  });
+
+  it("sends the device's edit again when it is the later one", async () => {
+    editedLocally();
+    const server = onServer("2025-06-01T09:30:00.000Z", "Ava's Day, edited on the phone");
+    const saved = { ...book, title: "Ava's Day, edited on the tablet", updated_at: "2025-06-01T12:00:00.000Z" };
+    const fetch = serverAnswers(
+      { status: 409, body: { error: "Book changed", book: server } },
+      { status: 200, body: { book: saved } },
+    );
+    // The pull at the end finds the copy the retry saved
+    db.table("books")[0].updated_at = saved.updated_at;
+
+    await syncLibrary(OWNER);
+    expect(sentBody(fetch, 0).expectedUpdatedAt).toBe(SYNCED_AT);
+    expect(sentBody(fetch, 1)).toMatchObject({ title: saved.title, expectedUpdatedAt: server.updated_at });
+    expect(books.get(book.id)).toMatchObject({ status: "synced", serverUpdatedAt: saved.updated_at, book: { title: saved.title } });
+    expect(changes).toEqual([]);
+  });
+
+  it("keeps the edit for the next sync when the server copy keeps changing", async () => {
+    editedLocally();
+    onServer(SYNCED_AT);
+    const conflict = (updatedAt: string) => ({ status: 409, body: { error: "Book changed", book: { ...book, updated_at: updatedAt } } });
+    serverAnswers(conflict("2025-06-01T09:10:00.000Z"), conflict("2025-06-01T09:20:00.000Z"));
+
+    await syncLibrary(OWNER);
+    expect(books.get(book.id)).toMatchObject({
+      status: "error",
+      error: "Book keeps changing on the server; will try again",
+      book: { title: "Ava's Day, edited on the tablet" },
+    });
+    expect(changes).toHaveLength(1);
+  });
+
+  it("forgets a book that was deleted on the server", async () => {
+    editedLocally();
+    serverAnswers({ status: 404, body: { error: "Book not found" } });
+
+    await syncLibrary(OWNER);
+    expect(books.has(book.id)).toBe(false);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe("syncLibrary pull", () => {
+  it("brings down newer server copies and drops synced books the server no longer has", async () => {
+    books.set(book.id, { id: book.id, ownerId: OWNER, book, status: "synced", serverUpdatedAt: SYNCED_AT, modifiedAt: SYNCED_AT });
+    books.set("book-2", { id: "book-2", ownerId: OWNER, book: { ...book, id: "book-2" }, status: "synced", serverUpdatedAt: SYNCED_AT, modifiedAt: SYNCED_AT });
+    onServer(EDITED_AT, "Ava's Day, edited on the phone");
+    const fetch = serverAnswers();
+
+    await syncLibrary(OWNER);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(books.get(book.id)).toMatchObject({ status: "synced", serverUpdatedAt: EDITED_AT, book: { title: "Ava's Day, edited on the phone" } });
+    expect(books.has("book-2")).toBe(false);
+  });
+});
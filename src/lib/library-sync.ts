@@ -0,0 +1,246 @@
+import { supabase, bookFromRow, type Book, type BookRow } from "@/lib/supabase";
+import {
+  deleteChanges,
+  deleteLocalBook,
+  getLocalBook,
+  listChanges,
+  listLocalBooks,
+  promoteLocalBook,
+  writeLocalBooks,
+  type LibraryChange,
+  type LocalBook,
+} from "@/lib/local-library";
+
+// Keeps the device's library (local-library.ts) and Supabase in step. Changes made on
+// the device are logged and uploaded in order; books made offline get their server id
+// once uploaded. When both sides changed a book, the one changed last (by updated_at) wins.
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Called whenever the device's library changes, including sync status
+export function onLocalLibraryChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Only the story itself is compared; sync bookkeeping fields differ between copies
+function sameContent(a: Book, b: Book): boolean {
+  const content = ({ id: _id, created_at: _created, updated_at: _updated, ...book }: Book) => JSON.stringify(book); // eslint-disable-line @typescript-eslint/no-unused-vars
+  return content(a) === content(b);
+}
+
+function isServerNewer(serverUpdatedAt: string | undefined, localTime: string | null): boolean {
+  return !!serverUpdatedAt && (!localTime || new Date(serverUpdatedAt).getTime() > new Date(localTime).getTime());
+}
+
+/**
+ * Saves the library as the app currently shows it. Books that changed since they were
+ * last saved are logged for upload; books that are new here are taken as they are
+ * (saved books just came from the server, books with a temp_ id still need uploading).
+ * Returns how many changes were logged.
+ */
+export async function saveLocalBooks(books: Book[], ownerId: string | null): Promise<number> {
+  const now = new Date().toISOString();
+  const records: LocalBook[] = [];
+  const changes: LibraryChange[] = [];
+
+  for (const book of books) {
+    const existing = await getLocalBook(book.id);
+    const offline = book.id.startsWith("temp_");
+    if (existing && sameContent(existing.book, book)) continue;
+    // Another account's copy on a shared device is left alone
+    if (existing && existing.ownerId !== ownerId) continue;
+
+    records.push({
+      id: book.id,
+      ownerId,
+      book,
+      status: !existing && !offline ? "synced" : ownerId ? "pending" : "local",
+      serverUpdatedAt: existing ? existing.serverUpdatedAt : offline ? null : book.updated_at ?? null,
+      modifiedAt: now,
+    });
+    if (existing || offline) changes.push({ bookId: book.id, type: offline ? "create" : "update", at: now });
+  }
+
+  if (records.length === 0) return 0;
+  await writeLocalBooks(records, changes);
+  notify();
+  return changes.length;
+}
+
+export type SyncResult = {
+  // Books made offline that now have a server id, by their temp_ id
+  promoted: Map<string, Book>;
+};
+
+let running: Promise<SyncResult> | null = null;
+let rerun = false;
+
+/**
+ * Uploads the account's logged changes, then brings down what changed on the server.
+ * Books made while signed out on this device join the account first. Only one sync
+ * runs at a time; calls made meanwhile share it, and it goes round again for them.
+ */
+export function syncLibrary(ownerId: string): Promise<SyncResult> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = (async () => {
+    const promoted = new Map<string, Book>();
+    do {
+      rerun = false;
+      (await runSync(ownerId)).promoted.forEach((book, tempId) => promoted.set(tempId, book));
+    } while (rerun && navigator.onLine);
+    return { promoted };
+  })().finally(() => { running = null; });
+  return running;
+}
+
+async function runSync(ownerId: string): Promise<SyncResult> {
+  const promoted = new Map<string, Book>();
+
+  const signedOutBooks = await listLocalBooks(null);
+  if (signedOutBooks.length > 0) {
+    await writeLocalBooks(signedOutBooks.map(record => ({ ...record, ownerId, status: "pending" })));
+    notify();
+  }
+
+  // Every change to a book is sent as one upload of its latest copy
+  const changes = await listChanges();
+  const bookIds = [...new Set(changes.map(change => change.bookId))];
+  for (const bookId of bookIds) {
+    const record = await getLocalBook(bookId);
+    const seqs = changes.filter(change => change.bookId === bookId).map(change => change.seq!);
+    if (!record) {
+      await deleteChanges(seqs);
+      continue;
+    }
+    if (record.ownerId !== ownerId) continue;
+
+    await writeLocalBooks([{ ...record, status: "syncing", error: undefined }]);
+    notify();
+    try {
+      if (record.id.startsWith("temp_")) {
+        const book = await uploadBook(record);
+        const synced = await keepLaterEdits(record, { ...record, id: book.id, book, status: "synced", serverUpdatedAt: book.updated_at ?? null });
+        await promoteLocalBook(record.id, synced, seqs);
+        promoted.set(record.id, synced.book);
+      } else {
+        const resolved = await pushBook(record);
+        if (resolved) {
+          await writeLocalBooks([await keepLaterEdits(record, resolved)]);
+        } else {
+          await deleteLocalBook(record.id);
+        }
+        await deleteChanges(seqs);
+      }
+    } catch (error) {
+      const latest = (await getLocalBook(record.id)) ?? record;
+      await writeLocalBooks([{ ...latest, status: "error", error: error instanceof Error ? error.message : "Unknown error" }]);
+      notify();
+      // Nothing else will get through while offline
+      if (!navigator.onLine) return { promoted };
+      continue;
+    }
+    notify();
+  }
+
+  await pullBooks(ownerId);
+  notify();
+  return { promoted };
+}
+
+// Edits made on the device while a book was uploading stay, to be sent on the next sync
+async function keepLaterEdits(uploaded: LocalBook, synced: LocalBook): Promise<LocalBook> {
+  const latest = await getLocalBook(uploaded.id);
+  if (!latest || latest.modifiedAt === uploaded.modifiedAt) return synced;
+  return { ...synced, book: { ...latest.book, id: synced.id }, status: "pending", modifiedAt: latest.modifiedAt };
+}
+
+async function uploadBook(record: LocalBook): Promise<Book> {
+  const { id, created_at: _created, updated_at: _updated, ...book } = record.book; // eslint-disable-line @typescript-eslint/no-unused-vars
+  const res = await fetch("/api/save-book", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...book, clientId: id }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.error || "Failed to upload book");
+  return data.book;
+}
+
+/**
+ * Sends a changed book to the server. If the server copy changed too since the last sync,
+ * the later edit wins: the device's copy is sent again, or replaced by the server's.
+ * Returns null when the book was deleted on the server.
+ */
+async function pushBook(record: LocalBook): Promise<LocalBook | null> {
+  let expectedUpdatedAt = record.serverUpdatedAt;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const res = await fetch(`/api/books/${record.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: record.book.title,
+        subtitle: record.book.subtitle,
+        dedication: record.book.dedication,
+        glossary: record.book.glossary,
+        funFacts: record.book.funFacts,
+        // Same order as on the server, so every page keeps its illustration history
+        pages: record.book.pages.map((page, sourceIndex) => ({ ...page, sourceIndex })),
+        ...(expectedUpdatedAt && { expectedUpdatedAt }),
+      }),
+    });
+    const data = await res.json();
+    if (res.status === 404) return null;
+    if (res.status === 409) {
+      const current: Book = data.book;
+      if (isServerNewer(current.updated_at, record.modifiedAt)) {
+        return { ...record, book: current, status: "synced", serverUpdatedAt: current.updated_at ?? null };
+      }
+      expectedUpdatedAt = current.updated_at ?? null;
+      continue;
+    }
+    if (!res.ok) throw new Error(data?.error || "Failed to sync book");
+    return { ...record, book: data.book, status: "synced", serverUpdatedAt: data.book.updated_at ?? null };
+  }
+  throw new Error("Book keeps changing on the server; will try again");
+}
+
+/**
+ * Brings down books that are new or changed on the server, and forgets synced books that
+ * were deleted there. Books with changes still waiting to be uploaded are kept as they are.
+ */
+async function pullBooks(ownerId: string): Promise<void> {
+  const { data: rows, error } = await supabase.from("books").select("id, updated_at");
+  if (error) throw error;
+
+  const local = new Map((await listLocalBooks(ownerId)).map(record => [record.id, record]));
+  const serverIds = new Set((rows || []).map(row => row.id as string));
+  const stale = (rows || [])
+    .filter(row => {
+      const record = local.get(row.id);
+      return !record || (record.status === "synced" && isServerNewer(row.updated_at, record.serverUpdatedAt));
+    })
+    .map(row => row.id as string);
+
+  if (stale.length > 0) {
+    const { data: changed, error: changedError } = await supabase.from("books").select("*").in("id", stale);
+    if (changedError) throw changedError;
+    const now = new Date().toISOString();
+    await writeLocalBooks((changed || []).map(row => {
+      const book = bookFromRow(row as BookRow);
+      return { id: book.id, ownerId, book, status: "synced", serverUpdatedAt: book.updated_at ?? null, modifiedAt: now };
+    }));
+  }
+
+  for (const record of local.values()) {
+    if (record.status === "synced" && !serverIds.has(record.id)) await deleteLocalBook(record.id);
+  }
+}
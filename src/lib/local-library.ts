@@ -0,0 +1,164 @@
+import type { Book } from "@/lib/supabase";
+
+// The library kept on the device (browser only): an IndexedDB copy of every book with its
+// sync state, and a log of local changes still to be sent to Supabase. See library-sync.ts.
+
+const DB_NAME = "storyvoyage";
+const DB_VERSION = 1;
+const BOOKS = "books";
+const CHANGES = "changes";
+
+// Where books lived before the local library; moved over the first time it opens
+const LEGACY_STORAGE_KEY = "nano_travel_books_v1";
+
+export type SyncStatus =
+  | "synced" // Same as the server copy
+  | "pending" // Changed on this device, waiting to be uploaded
+  | "syncing" // Being uploaded now
+  | "local" // Made while signed out; uploaded once someone signs in
+  | "error"; // The last upload failed; retried on the next sync
+
+export type LocalBook = {
+  id: string;
+  // The account the book belongs to; null for books made while signed out
+  ownerId: string | null;
+  book: Book;
+  status: SyncStatus;
+  // updated_at of the server copy this one was last synced with; null until uploaded
+  serverUpdatedAt: string | null;
+  // When the book was last changed on this device
+  modifiedAt: string;
+  error?: string;
+};
+
+export type LibraryChange = {
+  seq?: number;
+  bookId: string;
+  type: "create" | "update";
+  at: string;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openLibrary(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const books = db.createObjectStore(BOOKS, { keyPath: "id" });
+        books.createIndex("ownerId", "ownerId");
+        db.createObjectStore(CHANGES, { keyPath: "seq", autoIncrement: true });
+        importLegacyBooks(req.transaction!);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+/**
+ * Moves books that only ever lived in localStorage into the new database. Saved books
+ * are skipped: the server has them and sync brings them back.
+ */
+function importLegacyBooks(tx: IDBTransaction) {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const books: Book[] = raw ? JSON.parse(raw).books || [] : [];
+    const now = new Date().toISOString();
+    for (const book of books.filter(book => book?.id?.startsWith("temp_"))) {
+      const record: LocalBook = { id: book.id, ownerId: null, book, status: "local", serverUpdatedAt: null, modifiedAt: now };
+      tx.objectStore(BOOKS).put(record);
+      tx.objectStore(CHANGES).add({ bookId: book.id, type: "create", at: now } satisfies LibraryChange);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.warn("Could not move books from localStorage:", error);
+  }
+}
+
+export function isLocalLibrarySupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+// The books one account (or, for null, the signed-out library) has on this device, newest first
+export async function listLocalBooks(ownerId: string | null): Promise<LocalBook[]> {
+  const db = await openLibrary();
+  const all = await request(db.transaction(BOOKS).objectStore(BOOKS).getAll() as IDBRequest<LocalBook[]>);
+  return all
+    .filter(record => record.ownerId === ownerId)
+    .sort((a, b) => (b.book.created_at || b.modifiedAt).localeCompare(a.book.created_at || a.modifiedAt));
+}
+
+export async function getLocalBook(id: string): Promise<LocalBook | undefined> {
+  const db = await openLibrary();
+  return request(db.transaction(BOOKS).objectStore(BOOKS).get(id) as IDBRequest<LocalBook | undefined>);
+}
+
+/**
+ * Writes books and appends changes in one transaction, so a book is never marked as
+ * changed without its change being logged (or the other way round).
+ */
+export async function writeLocalBooks(records: LocalBook[], changes: LibraryChange[] = []): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction([BOOKS, CHANGES], "readwrite");
+  records.forEach(record => tx.objectStore(BOOKS).put(record));
+  changes.forEach(change => tx.objectStore(CHANGES).add(change));
+  await transactionDone(tx);
+}
+
+export async function deleteLocalBook(id: string): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction([BOOKS, CHANGES], "readwrite");
+  tx.objectStore(BOOKS).delete(id);
+  const changes = await request(tx.objectStore(CHANGES).getAll() as IDBRequest<LibraryChange[]>);
+  changes.filter(change => change.bookId === id).forEach(change => tx.objectStore(CHANGES).delete(change.seq!));
+  await transactionDone(tx);
+}
+
+// The change log, oldest first
+export async function listChanges(): Promise<LibraryChange[]> {
+  const db = await openLibrary();
+  return request(db.transaction(CHANGES).objectStore(CHANGES).getAll() as IDBRequest<LibraryChange[]>);
+}
+
+export async function deleteChanges(seqs: number[]): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction(CHANGES, "readwrite");
+  seqs.forEach(seq => tx.objectStore(CHANGES).delete(seq));
+  await transactionDone(tx);
+}
+
+/**
+ * Replaces a book made offline with the copy the server saved: the record moves to the
+ * server id, and changes logged under the temp_ id since the upload follow it.
+ */
+export async function promoteLocalBook(tempId: string, record: LocalBook, uploadedSeqs: number[]): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction([BOOKS, CHANGES], "readwrite");
+  tx.objectStore(BOOKS).delete(tempId);
+  tx.objectStore(BOOKS).put(record);
+  const changes = await request(tx.objectStore(CHANGES).getAll() as IDBRequest<LibraryChange[]>);
+  for (const change of changes.filter(change => change.bookId === tempId)) {
+    if (uploadedSeqs.includes(change.seq!)) tx.objectStore(CHANGES).delete(change.seq!);
+    else tx.objectStore(CHANGES).put({ ...change, bookId: record.id, type: "update" });
+  }
+  await transactionDone(tx);
+}
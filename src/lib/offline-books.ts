@@ -0,0 +1,183 @@
+import type { Book } from "@/lib/supabase";
+
+// Books downloaded for offline reading (browser only). The book, its illustrations and its
+// narration go in a Cache Storage cache the service worker (public/sw.js) answers from,
+// along with an index of what was downloaded, how big it is and when it was last read.
+
+const OFFLINE_BOOKS_CACHE = "storyvoyage-offline-books";
+const INDEX_KEY = "/offline-books/index.json";
+// Left free so the rest of the app (and the browser) still has room
+const QUOTA_HEADROOM = 0.1;
+
+export type OfflineBook = {
+  id: string;
+  title: string;
+  city: string;
+  // Bytes of illustrations and narration; opaque responses from other sites count as 0
+  bytes: number;
+  files: string[];
+  downloadedAt: string;
+  lastReadAt: string;
+};
+
+export type OfflineStorage = {
+  // Everything the site stores, and what the browser allows it
+  usage: number;
+  quota: number;
+  // Of which downloaded books
+  books: number;
+};
+
+export class OfflineStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineStorageError";
+  }
+}
+
+function bookKey(id: string): string {
+  return `/offline-books/${encodeURIComponent(id)}.json`;
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== "undefined" && "caches" in window && "serviceWorker" in navigator;
+}
+
+async function readIndex(cache: Cache): Promise<OfflineBook[]> {
+  const response = await cache.match(INDEX_KEY);
+  return response ? response.json() : [];
+}
+
+async function writeIndex(cache: Cache, books: OfflineBook[]): Promise<void> {
+  await cache.put(INDEX_KEY, new Response(JSON.stringify(books), { headers: { "Content-Type": "application/json" } }));
+}
+
+// Illustrations and narration the reader loads; inline (data URL) images come with the book
+export function offlineFiles(book: Book): string[] {
+  const files = [
+    ...book.pages.map(page => page.imageUrl),
+    ...(book.audio ? [book.audio.bookUrl, ...book.audio.pages.map(page => page.url)] : []),
+  ].filter((url): url is string => !!url && !url.startsWith("data:"));
+  return [...new Set(files)];
+}
+
+export async function listOfflineBooks(): Promise<OfflineBook[]> {
+  if (!isOfflineSupported()) return [];
+  return readIndex(await caches.open(OFFLINE_BOOKS_CACHE));
+}
+
+/**
+ * The downloaded copy of a book, or null when it was not downloaded. Reading it counts
+ * as use, so the books read most recently are the last to be cleared for space.
+ */
+export async function getOfflineBook(id: string): Promise<Book | null> {
+  if (!isOfflineSupported()) return null;
+  const cache = await caches.open(OFFLINE_BOOKS_CACHE);
+  const response = await cache.match(bookKey(id));
+  if (!response) return null;
+  const index = await readIndex(cache);
+  await writeIndex(cache, index.map(entry => (entry.id === id ? { ...entry, lastReadAt: new Date().toISOString() } : entry)));
+  return response.json();
+}
+
+export async function getOfflineStorage(): Promise<OfflineStorage> {
+  const estimate = await navigator.storage?.estimate?.() ?? {};
+  const books = (await listOfflineBooks()).reduce((total, book) => total + book.bytes, 0);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, books };
+}
+
+/**
+ * Downloads a book with its illustrations and narration. When the browser's storage is
+ * nearly full, the books read longest ago are removed to make room; if that is not
+ * enough the download is undone and an OfflineStorageError thrown. Downloading again
+ * refreshes the copy.
+ */
+export async function downloadBookForOffline(
+  book: Book,
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineBook> {
+  if (!isOfflineSupported()) throw new OfflineStorageError("This browser cannot keep books offline");
+  const cache = await caches.open(OFFLINE_BOOKS_CACHE);
+  // Ask the browser not to clear downloads under storage pressure; it may say no
+  await navigator.storage?.persist?.().catch(() => false);
+
+  const files = offlineFiles(book);
+  const previous = (await readIndex(cache)).find(entry => entry.id === book.id);
+  const stored: string[] = [];
+  let bytes = 0;
+  onProgress?.(0, files.length);
+
+  try {
+    for (const [i, url] of files.entries()) {
+      // Storage URLs allow cross-origin reads; anything else is kept as an opaque response
+      const response = await fetch(url, { mode: "cors" }).catch(() => fetch(url, { mode: "no-cors" }));
+      if (!response.ok && response.type !== "opaque") throw new Error(`Could not download ${url} (${response.status})`);
+      const size = response.type === "opaque" ? 0 : (await response.clone().blob()).size;
+      await makeRoom(cache, size, book.id);
+      await cache.put(url, response);
+      stored.push(url);
+      bytes += size;
+      onProgress?.(i + 1, files.length);
+    }
+  } catch (error) {
+    // Files a downloaded book (including the earlier copy of this one) uses stay
+    await deleteUnusedFiles(cache, stored);
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      throw new OfflineStorageError("Not enough storage on this device to download this book");
+    }
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const entry: OfflineBook = {
+    id: book.id,
+    title: book.title,
+    city: book.city,
+    bytes,
+    files,
+    downloadedAt: now,
+    lastReadAt: now,
+  };
+  await cache.put(bookKey(book.id), new Response(JSON.stringify(book), { headers: { "Content-Type": "application/json" } }));
+  await writeIndex(cache, [entry, ...(await readIndex(cache)).filter(other => other.id !== book.id)]);
+  if (previous) await deleteUnusedFiles(cache, previous.files.filter(url => !files.includes(url)));
+
+  // The reader has to open without a connection too, even if it was never visited
+  navigator.serviceWorker.controller?.postMessage({ type: "cache-pages", urls: ["/", "/read"] });
+  return entry;
+}
+
+export async function removeOfflineBook(id: string): Promise<void> {
+  if (!isOfflineSupported()) return;
+  const cache = await caches.open(OFFLINE_BOOKS_CACHE);
+  const index = await readIndex(cache);
+  const entry = index.find(book => book.id === id);
+  if (!entry) return;
+  await writeIndex(cache, index.filter(book => book.id !== id));
+  await cache.delete(bookKey(id));
+  await deleteUnusedFiles(cache, entry.files);
+}
+
+async function deleteUnusedFiles(cache: Cache, files: string[]): Promise<void> {
+  const used = new Set((await readIndex(cache)).flatMap(book => book.files));
+  await Promise.all(files.filter(url => !used.has(url)).map(url => cache.delete(url)));
+}
+
+// Removes the downloaded books read longest ago until `bytes` more fit under the quota
+async function makeRoom(cache: Cache, bytes: number, keepId: string): Promise<void> {
+  const estimate = await navigator.storage?.estimate?.();
+  if (!estimate?.quota) return;
+  const limit = estimate.quota * (1 - QUOTA_HEADROOM);
+  let usage = estimate.usage ?? 0;
+  if (usage + bytes <= limit) return;
+
+  const candidates = (await readIndex(cache))
+    .filter(book => book.id !== keepId)
+    .sort((a, b) => a.lastReadAt.localeCompare(b.lastReadAt));
+  for (const book of candidates) {
+    await removeOfflineBook(book.id);
+    usage -= book.bytes;
+    if (usage + bytes <= limit) return;
+  }
+  throw new OfflineStorageError("Not enough storage on this device to download this book");
+}
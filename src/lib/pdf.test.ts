@@ -0,0 +1,109 @@
+import { inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { PdfDocument, pdfString, pdfText, wrapText } from "@/lib/pdf";
+import { renderBookPdf } from "@/lib/print-book";
+import { pngDataUrl, solidPng, testBook } from "@/test/fixtures";
+
+type PdfObjects = Map<number, { dictionary: string; stream?: Buffer }>;
+
+// Reads every object back through the cross-reference table, so broken offsets fail
+function readPdf(pdf: Buffer): { objects: PdfObjects; pages: Array<{ dictionary: string; content: string }> } {
+  const text = pdf.toString("latin1");
+  expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+  const xref = text.slice(startxref).split("\n");
+  expect(xref[0]).toBe("xref");
+  const count = Number(xref[1].split(" ")[1]);
+
+  const objects: PdfObjects = new Map();
+  for (let id = 1; id < count; id++) {
+    const offset = Number(xref[2 + id].slice(0, 10));
+    const header = `${id} 0 obj\n`;
+    expect(text.slice(offset, offset + header.length)).toBe(header);
+    const end = text.indexOf("\nendobj\n", offset);
+    const body = text.slice(offset + header.length, end);
+    const streamStart = body.indexOf(">>\nstream\n");
+    objects.set(id, streamStart < 0
+      ? { dictionary: body }
+      : {
+          dictionary: body.slice(0, streamStart + 2),
+          stream: Buffer.from(body.slice(streamStart + 10, body.lastIndexOf("\nendstream")), "latin1"),
+        });
+  }
+
+  const root = Number(text.match(/\/Root (\d+) 0 R/)?.[1]);
+  const pagesId = Number(objects.get(root)?.dictionary.match(/\/Pages (\d+) 0 R/)?.[1]);
+  const kids = [...(objects.get(pagesId)?.dictionary.match(/\/Kids \[([^\]]*)\]/)?.[1] ?? "").matchAll(/(\d+) 0 R/g)].map(match => Number(match[1]));
+  const pages = kids.map(id => {
+    const dictionary = objects.get(id)!.dictionary;
+    const contentId = Number(dictionary.match(/\/Contents (\d+) 0 R/)?.[1]);
+    return { dictionary, content: inflateSync(objects.get(contentId)!.stream!).toString("latin1") };
+  });
+  return { objects, pages };
+}
+
+describe("PdfDocument", () => {
+  it("writes pages, boxes, text and images that read back through the xref table", () => {
+    const pdf = new PdfDocument({ title: "Ava's (first) book" });
+    const image = pdf.addImage(solidPng(4, 3, [255, 0, 0, 128]));
+    expect(image).toEqual({ name: "Im1", width: 4, height: 3 });
+    pdf.addPage({ mediaBox: [0, 0, 200, 100], trimBox: [9, 9, 191, 91], content: pdfText("Hello (world)", "bold", 12, 10, 50) });
+    pdf.addPage({ mediaBox: [0, 0, 200, 100], content: `q 4 0 0 3 0 0 cm /${image!.name} Do Q` });
+
+    const { objects, pages } = readPdf(pdf.toBuffer());
+    expect(pages).toHaveLength(2);
+    expect(pages[0].dictionary).toContain("/MediaBox [0 0 200 100] /TrimBox [9 9 191 91]");
+    expect(pages[0].content).toContain(pdfString("Hello (world)"));
+    expect(pages[0].dictionary).not.toContain("/XObject");
+    expect(pages[1].dictionary).toMatch(/\/XObject << \/Im1 \d+ 0 R >>/);
+
+    // RGB pixels plus the alpha channel as a soft mask
+    const images = [...objects.values()].filter(object => object.dictionary.includes("/Subtype /Image"));
+    expect(images).toHaveLength(2);
+    const rgb = images.find(object => object.dictionary.includes("/DeviceRGB"))!;
+    expect(rgb.dictionary).toContain("/SMask");
+    expect(Array.from(inflateSync(rgb.stream!))).toEqual(Array(12).fill([255, 0, 0]).flat());
+  });
+
+  it("escapes string delimiters and drops characters WinAnsi cannot show", () => {
+    expect(pdfString("a(b)c\\d")).toBe("(a\\(b\\)c\\\\d)");
+    expect(pdfString("café 🌍")).toBe("(caf\xe9 )");
+  });
+
+  it("wraps text to the width and keeps explicit line breaks", () => {
+    const lines = wrapText("one two three four five six\nseven", "regular", 10, 60);
+    expect(lines.length).toBeGreaterThan(2);
+    expect(lines[lines.length - 1]).toBe("seven");
+    expect(lines.join(" ")).toBe("one two three four five six seven");
+  });
+});
+
+describe("renderBookPdf", () => {
+  const illustration = pngDataUrl(solidPng(8, 8, [30, 120, 200]));
+  const illustrated = (page: { content: string }) => /\/Im\d+ Do/.test(page.content);
+
+  it.each([
+    ["with a dedication", "For Ava, who is always ready to explore."],
+    ["without a dedication", ""],
+  ])("opens every spread on a left-hand page %s", async (_label, dedication) => {
+    // The second page has no illustration, which would otherwise flip the spreads
+    const book = testBook([illustration, undefined, illustration, illustration], { dedication });
+    const { pages } = readPdf(await renderBookPdf(book, { trim: "8x8", bleed: true, cropMarks: false }));
+
+    const pageText = (n: number) => pages.findIndex(page => page.content.includes(`Page ${n}. Ava`));
+    for (const n of [1, 3, 4]) {
+      const text = pageText(n);
+      // Zero-based index 1 is page 2, a left-hand page
+      expect(text % 2).toBe(0);
+      expect(illustrated(pages[text - 1])).toBe(true);
+    }
+    expect(illustrated(pages[pageText(2)])).toBe(false);
+    expect(pages[0].content).toContain(pdfString(book.title));
+  });
+
+  it("sets trim and bleed boxes for the chosen size", async () => {
+    const { pages } = readPdf(await renderBookPdf(testBook(), { trim: "8x8", bleed: true, cropMarks: false }));
+    // 8" is 576pt; a 1/8" bleed adds 9pt on each side
+    expect(pages[0].dictionary).toContain("/MediaBox [0 0 594 594] /TrimBox [9 9 585 585] /BleedBox [0 0 594 594]");
+  });
+});
@@ -0,0 +1,294 @@
+import { deflateSync } from "zlib";
+import { decodePng, isPng } from "@/lib/png";
+
+// Minimal PDF 1.4 writer for server-rendered books: pages with hand-built content
+// streams, JPEG and PNG images, and the standard Helvetica fonts (WinAnsi text only).
+
+export type PdfFont = "regular" | "bold";
+
+// [left, bottom, right, top] in points
+export type PdfBox = [number, number, number, number];
+
+export type PdfImage = {
+  // Resource name to paint with `/<name> Do`
+  name: string;
+  width: number;
+  height: number;
+};
+
+export type PdfPage = {
+  mediaBox: PdfBox;
+  // Where the printer cuts, and how far artwork runs past it; both default to the media box
+  trimBox?: PdfBox;
+  bleedBox?: PdfBox;
+  // Content stream operators; text must be passed through `pdfString`
+  content: string;
+};
+
+export type PdfInfo = {
+  title: string;
+  author?: string;
+  subject?: string;
+};
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "Helvetica", bold: "Helvetica-Bold" };
+// Resource names every page gives the fonts
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Standard 14 font widths (per 1000 units of font size) for character codes 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// Typographic punctuation outside Latin-1, with its WinAnsi code and widths (regular, bold)
+const PUNCTUATION: Record<string, [number, number, number]> = {
+  "‘": [0x91, 222, 278],
+  "’": [0x92, 222, 278],
+  "“": [0x93, 333, 500],
+  "”": [0x94, 333, 500],
+  "•": [0x95, 350, 350],
+  "–": [0x96, 556, 556],
+  "—": [0x97, 1000, 1000],
+  "…": [0x85, 1000, 1000],
+};
+
+/**
+ * Maps text to WinAnsi codes. Accented letters outside Latin-1 lose their accent;
+ * anything else the standard fonts cannot show (emoji, other scripts) is dropped.
+ */
+function toWinAnsi(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text.replace(/\s/g, " ")) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) codes.push(code);
+    else if (PUNCTUATION[char]) codes.push(PUNCTUATION[char][0]);
+    else {
+      const base = char.normalize("NFD").codePointAt(0)!;
+      if (base >= 32 && base <= 126) codes.push(base);
+    }
+  }
+  return codes;
+}
+
+function codeWidth(code: number, font: PdfFont): number {
+  if (code >= 32 && code <= 126) return WIDTHS[font][code - 32];
+  const punctuation = Object.values(PUNCTUATION).find(([winAnsi]) => winAnsi === code);
+  if (punctuation) return font === "regular" ? punctuation[1] : punctuation[2];
+  // Latin-1 letters are about as wide as their unaccented forms
+  const base = String.fromCharCode(code).normalize("NFD").charCodeAt(0);
+  return base >= 32 && base <= 126 ? WIDTHS[font][base - 32] : 556;
+}
+
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  return toWinAnsi(text).reduce((width, code) => width + codeWidth(code, font), 0) * size / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, keeping the text's own line breaks.
+ * Words longer than a line are left to overflow rather than split.
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  return text.split("\n").flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = "";
+    // Words made only of characters the fonts cannot show (emoji) would leave double spaces
+    for (const word of paragraph.split(/\s+/).filter(word => toWinAnsi(word).length > 0)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, font, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+}
+
+// A literal string for content streams, in the fonts' WinAnsi encoding
+export function pdfString(text: string): string {
+  return `(${toWinAnsi(text).map(code => {
+    if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+    return String.fromCharCode(code);
+  }).join("")})`;
+}
+
+// Operators that draw one line of text with its left end at (x, y)
+export function pdfText(text: string, font: PdfFont, size: number, x: number, y: number): string {
+  return `BT /${FONT_RESOURCES[font]} ${Number(size.toFixed(2))} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`;
+}
+
+// Text strings outside content streams (document info) are UTF-16BE
+function infoString(text: string): string {
+  const utf16 = Buffer.from(`\ufeff${text}`, "utf16le").swap16();
+  return `<${utf16.toString("hex")}>`;
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+}
+
+// Size and channel count from the JPEG's start-of-frame segment
+function jpegFrame(buffer: Buffer): { width: number; height: number; components: number } {
+  for (let offset = 2; offset + 9 < buffer.length;) {
+    if (buffer[offset] !== 0xff) throw new Error("Corrupt JPEG image");
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+        components: buffer[offset + 9],
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  throw new Error("JPEG image has no frame header");
+}
+
+function box(value: PdfBox): string {
+  return `[${value.map(n => Number(n.toFixed(2))).join(" ")}]`;
+}
+
+export class PdfDocument {
+  private readonly objects: Buffer[] = [];
+  private readonly pageIds: number[] = [];
+  private readonly imageIds = new Map<string, number>();
+  private readonly pagesId: number;
+  private readonly fontIds: Record<PdfFont, number>;
+
+  constructor(private readonly info: PdfInfo) {
+    this.pagesId = this.reserve();
+    this.fontIds = {
+      regular: this.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular} /Encoding /WinAnsiEncoding >>`),
+      bold: this.add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold} /Encoding /WinAnsiEncoding >>`),
+    };
+  }
+
+  /**
+   * Embeds a JPEG (as is) or PNG (recompressed, alpha as a soft mask). Returns null for
+   * other formats, which the caller can leave out.
+   */
+  addImage(data: Buffer): PdfImage | null {
+    const name = `Im${this.imageIds.size + 1}`;
+    if (isJpeg(data)) {
+      const { width, height, components } = jpegFrame(data);
+      const colorSpace = components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+      // Adobe CMYK JPEGs are stored inverted
+      const decode = components === 4 ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+      this.imageIds.set(name, this.addStream(
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+        data,
+      ));
+      return { name, width, height };
+    }
+    if (!isPng(data)) return null;
+
+    const { width, height, data: rgba } = decodePng(data);
+    const rgb = Buffer.alloc(width * height * 3);
+    const alpha = Buffer.alloc(width * height);
+    let opaque = true;
+    for (let i = 0; i < width * height; i++) {
+      rgb[i * 3] = rgba[i * 4];
+      rgb[i * 3 + 1] = rgba[i * 4 + 1];
+      rgb[i * 3 + 2] = rgba[i * 4 + 2];
+      alpha[i] = rgba[i * 4 + 3];
+      if (alpha[i] !== 255) opaque = false;
+    }
+    const image = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8 /Filter /FlateDecode`;
+    const mask = opaque ? "" : ` /SMask ${this.addStream(`${image} /ColorSpace /DeviceGray`, deflateSync(alpha))} 0 R`;
+    this.imageIds.set(name, this.addStream(`${image} /ColorSpace /DeviceRGB${mask}`, deflateSync(rgb)));
+    return { name, width, height };
+  }
+
+  addPage({ mediaBox, trimBox, bleedBox, content }: PdfPage): void {
+    const images = [...this.imageIds].filter(([name]) => content.includes(`/${name} Do`));
+    const resources = [
+      `/Font << /${FONT_RESOURCES.regular} ${this.fontIds.regular} 0 R /${FONT_RESOURCES.bold} ${this.fontIds.bold} 0 R >>`,
+      images.length > 0 ? `/XObject << ${images.map(([name, id]) => `/${name} ${id} 0 R`).join(" ")} >>` : "",
+    ].join(" ");
+    const contentId = this.addStream("", deflateSync(Buffer.from(content, "latin1")), "/Filter /FlateDecode");
+    this.pageIds.push(this.add([
+      `<< /Type /Page /Parent ${this.pagesId} 0 R /MediaBox ${box(mediaBox)}`,
+      trimBox ? ` /TrimBox ${box(trimBox)}` : "",
+      bleedBox ? ` /BleedBox ${box(bleedBox)}` : "",
+      ` /Resources << ${resources} >> /Contents ${contentId} 0 R >>`,
+    ].join("")));
+  }
+
+  toBuffer(): Buffer {
+    this.set(this.pagesId, `<< /Type /Pages /Kids [${this.pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${this.pageIds.length} >>`);
+    const catalogId = this.add(`<< /Type /Catalog /Pages ${this.pagesId} 0 R >>`);
+    const infoId = this.add([
+      `<< /Title ${infoString(this.info.title)}`,
+      this.info.author ? ` /Author ${infoString(this.info.author)}` : "",
+      this.info.subject ? ` /Subject ${infoString(this.info.subject)}` : "",
+      ` /Producer (StoryVoyage) /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z) >>`,
+    ].join(""));
+
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    this.objects.forEach((body, i) => {
+      const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+      offsets.push(offset);
+      parts.push(object);
+      offset += object.length;
+    });
+    const xref = [
+      "xref",
+      `0 ${this.objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map(n => `${String(n).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${this.objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+    ].join("\n");
+    parts.push(Buffer.from(`${xref}\n`));
+    return Buffer.concat(parts);
+  }
+
+  private reserve(): number {
+    this.objects.push(Buffer.alloc(0));
+    return this.objects.length;
+  }
+
+  private set(id: number, body: string): void {
+    this.objects[id - 1] = Buffer.from(body, "latin1");
+  }
+
+  private add(body: string): number {
+    const id = this.reserve();
+    this.set(id, body);
+    return id;
+  }
+
+  private addStream(dictionary: string, data: Buffer, filter = ""): number {
+    const id = this.reserve();
+    const entries = [dictionary, filter, `/Length ${data.length}`].filter(Boolean).join(" ");
+    this.objects[id - 1] = Buffer.concat([Buffer.from(`<< ${entries} >>\nstream\n`, "latin1"), data, Buffer.from("\nendstream")]);
+    return id;
+  }
+}
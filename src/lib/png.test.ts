@@ -0,0 +1,75 @@
+import { deflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { crc32, decodePng, encodePng, isPng } from "@/lib/png";
+
+// A PNG with the given header fields, built by hand so the decoder sees filters and
+// colour types the encoder never writes
+function handmadePng(width: number, height: number, colorType: number, scanlines: number[][], extra: Array<[string, number[]]> = []): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...extra.map(([type, data]) => chunk(type, Buffer.from(data))),
+    chunk("IDAT", deflateSync(Buffer.from(scanlines.flat()))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("encodePng / decodePng", () => {
+  it("round-trips RGBA pixels", () => {
+    const width = 7;
+    const height = 5;
+    const rgba = new Uint8Array(width * height * 4).map((_, i) => (i * 37) % 256);
+    const png = encodePng(width, height, rgba);
+    expect(isPng(png)).toBe(true);
+
+    const image = decodePng(png);
+    expect(image.width).toBe(width);
+    expect(image.height).toBe(height);
+    expect(Array.from(image.data)).toEqual(Array.from(rgba));
+  });
+
+  it("refuses pixel data of the wrong length", () => {
+    expect(() => encodePng(2, 2, new Uint8Array(15))).toThrow(/Expected 16 bytes/);
+  });
+
+  it("undoes sub, up, average and Paeth filters", () => {
+    // Greyscale 3x4, one filter type per row; the raw pixel values are 10, 20, 30 then +1 per row
+    const png = handmadePng(3, 4, 0, [
+      [1, 10, 10, 10],
+      [2, 1, 1, 1],
+      [3, 7, 6, 6],
+      [4, 1, 1, 1],
+    ]);
+    const grey = Array.from(decodePng(png).data).filter((_, i) => i % 4 === 0);
+    expect(grey).toEqual([10, 20, 30, 11, 21, 31, 12, 22, 32, 13, 23, 33]);
+  });
+
+  it("expands palette images with transparency", () => {
+    const png = handmadePng(2, 1, 3, [[0, 0, 1]], [["PLTE", [255, 0, 0, 0, 0, 255]], ["tRNS", [128]]]);
+    expect(Array.from(decodePng(png).data)).toEqual([255, 0, 0, 128, 0, 0, 255, 255]);
+  });
+
+  it("rejects files that are not PNGs", () => {
+    expect(isPng(Buffer.from("GIF89a"))).toBe(false);
+    expect(() => decodePng(Buffer.from("GIF89a"))).toThrow("Not a PNG image");
+  });
+});
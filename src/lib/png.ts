@@ -0,0 +1,170 @@
+import { deflateSync, inflateSync } from "zlib";
+
+// Minimal PNG encoder and decoder for server-rendered images (mock illustrations, QR codes)
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encodes an RGBA pixel buffer (4 bytes per pixel, row-major) as a PNG.
+ */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+  if (rgba.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} bytes of RGBA data, got ${rgba.length}`);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  // 4 bytes per pixel, row-major
+  data: Uint8Array;
+};
+
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length > PNG_SIGNATURE.length && buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+}
+
+// Channels per pixel for each colour type: greyscale, RGB, palette, grey+alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decodes a non-interlaced, 8-bit PNG (any colour type) to RGBA, e.g. to composite a
+ * stored illustration into a generated image. Throws on anything else.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (!isPng(buffer)) throw new Error("Not a PNG image");
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) {
+    throw new Error(`Unsupported PNG (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace})`);
+  }
+  if (colorType === 3 && !palette) throw new Error("PNG palette is missing");
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[out - stride + x - channels] : 0;
+      pixels[out + x] = (line[x] + unfilter(filter, left, up, upLeft)) & 0xff;
+    }
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    const [r, g, b, a] =
+      colorType === 0 ? [pixels[p], pixels[p], pixels[p], 255]
+      : colorType === 2 ? [pixels[p], pixels[p + 1], pixels[p + 2], 255]
+      : colorType === 3 ? [palette![pixels[p] * 3], palette![pixels[p] * 3 + 1], palette![pixels[p] * 3 + 2], transparency?.[pixels[p]] ?? 255]
+      : colorType === 4 ? [pixels[p], pixels[p], pixels[p], pixels[p + 1]]
+      : [pixels[p], pixels[p + 1], pixels[p + 2], pixels[p + 3]];
+    data.set([r, g, b, a], i * 4);
+  }
+  return { width, height, data };
+}
+
+function unfilter(filter: number, left: number, up: number, upLeft: number): number {
+  switch (filter) {
+    case 0: return 0;
+    case 1: return left;
+    case 2: return up;
+    case 3: return (left + up) >>> 1;
+    case 4: {
+      const estimate = left + up - upLeft;
+      const dLeft = Math.abs(estimate - left);
+      const dUp = Math.abs(estimate - up);
+      const dUpLeft = Math.abs(estimate - upLeft);
+      return dLeft <= dUp && dLeft <= dUpLeft ? left : dUp <= dUpLeft ? up : upLeft;
+    }
+    default: throw new Error(`Unknown PNG filter type ${filter}`);
+  }
+}
@@ -0,0 +1,291 @@
+import { z } from "zod";
+import { coverImageUrl, loadImageFile } from "@/lib/books";
+import { PdfDocument, pdfText, textWidth, wrapText, type PdfBox, type PdfFont, type PdfImage } from "@/lib/pdf";
+import type { Book } from "@/lib/supabase";
+
+// Print-ready picture books: a cover, the dedication, every story page as a full-bleed
+// illustration facing its text, then glossary and fun-facts back matter. Trim size,
+// bleed and crop marks follow what print shops ask for.
+
+export const TrimSizeSchema = z.enum(["8x8", "a4", "letter"]);
+
+export type TrimSize = z.infer<typeof TrimSizeSchema>;
+
+export type PrintOptions = {
+  trim: TrimSize;
+  // Extend full-page artwork 1/8" past the trim so the cut leaves no white edge
+  bleed: boolean;
+  cropMarks: boolean;
+};
+
+// In points (1/72")
+const TRIM_SIZES: Record<TrimSize, { width: number; height: number }> = {
+  "8x8": { width: 576, height: 576 },
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+const BLEED = 9;
+// Room outside the bleed for the crop marks, and the gap they leave around it
+const SLUG = 27;
+const MARK_GAP = 6;
+
+const INK = "0.13 0.13 0.18";
+const MUTED = "0.42 0.42 0.5";
+const COVER_FILL = "0.19 0.18 0.51";
+
+// Story text starts larger for younger readers and shrinks only if the page is full
+const TEXT_SIZES: Record<Book["readingLevel"], number> = { early: 22, middle: 17, advanced: 14 };
+const MIN_TEXT_SIZE = 9;
+
+type Sheet = {
+  media: PdfBox;
+  trim: PdfBox;
+  bleed: PdfBox;
+  // Type and margins grow with the page; 1 on an 8x8" book
+  scale: number;
+  margin: number;
+};
+
+type TextBlock = {
+  text: string;
+  font: PdfFont;
+  size: number;
+  color?: string;
+  // Space above the block, in points
+  before?: number;
+  indent?: number;
+};
+
+function sheetFor({ trim, bleed, cropMarks }: PrintOptions): Sheet {
+  const { width, height } = TRIM_SIZES[trim];
+  const bleedSize = bleed ? BLEED : 0;
+  const outer = bleedSize + (cropMarks ? SLUG : 0);
+  const scale = Math.min(width, height) / 576;
+  return {
+    media: [0, 0, width + outer * 2, height + outer * 2],
+    trim: [outer, outer, outer + width, outer + height],
+    bleed: [outer - bleedSize, outer - bleedSize, outer + width + bleedSize, outer + height + bleedSize],
+    scale,
+    margin: 48 * scale,
+  };
+}
+
+function n(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+function fill([x0, y0, x1, y1]: PdfBox, color: string): string {
+  return `${color} rg ${n(x0)} ${n(y0)} ${n(x1 - x0)} ${n(y1 - y0)} re f`;
+}
+
+// Scales the image to cover the box, centred and clipped to it
+function drawImage(image: PdfImage, [x0, y0, x1, y1]: PdfBox): string {
+  const scale = Math.max((x1 - x0) / image.width, (y1 - y0) / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const x = x0 + (x1 - x0 - width) / 2;
+  const y = y0 + (y1 - y0 - height) / 2;
+  return `q ${n(x0)} ${n(y0)} ${n(x1 - x0)} ${n(y1 - y0)} re W n ${n(width)} 0 0 ${n(height)} ${n(x)} ${n(y)} cm /${image.name} Do Q`;
+}
+
+function cropMarks({ trim, bleed }: Sheet): string {
+  const [x0, y0, x1, y1] = trim;
+  const offset = x0 - bleed[0] + MARK_GAP;
+  const length = SLUG - MARK_GAP * 2;
+  const marks: string[] = ["q 0.25 w 0 0 0 1 K"];
+  for (const [x, dx] of [[x0, -1], [x1, 1]]) {
+    for (const [y, dy] of [[y0, -1], [y1, 1]]) {
+      marks.push(`${n(x + dx * offset)} ${n(y)} m ${n(x + dx * (offset + length))} ${n(y)} l S`);
+      marks.push(`${n(x)} ${n(y + dy * offset)} m ${n(x)} ${n(y + dy * (offset + length))} l S`);
+    }
+  }
+  marks.push("Q");
+  return marks.join("\n");
+}
+
+// Centred lines starting at `top`; returns the operators and where the last line ended
+function centredLines(lines: string[], font: PdfFont, size: number, color: string, centre: number, top: number) {
+  const leading = size * 1.35;
+  const ops = lines.map((line, i) =>
+    `${color} rg ${pdfText(line, font, size, centre - textWidth(line, font, size) / 2, top - size - i * leading)}`);
+  return { ops, bottom: top - lines.length * leading };
+}
+
+// The largest size, at most `size`, at which the text fits in `height`
+function fitText(text: string, font: PdfFont, size: number, width: number, height: number): { size: number; lines: string[] } {
+  let lines = wrapText(text, font, size, width);
+  while (size > MIN_TEXT_SIZE && lines.length * size * 1.35 > height) {
+    size -= 1;
+    lines = wrapText(text, font, size, width);
+  }
+  return { size, lines };
+}
+
+function coverPage(book: Book, sheet: Sheet, image: PdfImage | null): string[] {
+  const [x0, y0, x1, y1] = sheet.trim;
+  const centre = (x0 + x1) / 2;
+  const width = x1 - x0 - sheet.margin * 2;
+  const byline = book.child?.name ? [`A story for ${book.child.name}`] : [];
+
+  if (!image) {
+    const title = fitText(book.title, "bold", 40 * sheet.scale, width, (y1 - y0) / 3);
+    const top = (y0 + y1) / 2 + title.lines.length * title.size * 0.7;
+    const titleLines = centredLines(title.lines, "bold", title.size, "1 1 1", centre, top);
+    const subtitle = centredLines(wrapText(book.subtitle, "regular", 16 * sheet.scale, width), "regular", 16 * sheet.scale, "0.85 0.85 0.95", centre, titleLines.bottom - 12 * sheet.scale);
+    return [
+      fill(sheet.bleed, COVER_FILL),
+      ...titleLines.ops,
+      ...subtitle.ops,
+      ...centredLines(byline, "regular", 13 * sheet.scale, "0.77 0.71 0.99", centre, y0 + sheet.margin * 1.5).ops,
+    ];
+  }
+
+  // Title on a white band across the bottom of the cover illustration
+  const bandTop = y0 + (y1 - y0) * 0.32;
+  const title = fitText(book.title, "bold", 30 * sheet.scale, width, (bandTop - y0) * 0.45);
+  const titleLines = centredLines(title.lines, "bold", title.size, INK, centre, bandTop - sheet.margin * 0.5);
+  const subtitle = centredLines(wrapText(book.subtitle, "regular", 14 * sheet.scale, width).slice(0, 2), "regular", 14 * sheet.scale, MUTED, centre, titleLines.bottom - 6 * sheet.scale);
+  return [
+    drawImage(image, sheet.bleed),
+    fill([sheet.bleed[0], sheet.bleed[1], sheet.bleed[2], bandTop], "1 1 1"),
+    ...titleLines.ops,
+    ...subtitle.ops,
+    ...centredLines(byline, "regular", 12 * sheet.scale, MUTED, centre, subtitle.bottom - 6 * sheet.scale).ops,
+  ];
+}
+
+function dedicationPage(book: Book, sheet: Sheet): string[] {
+  const [x0, y0, x1, y1] = sheet.trim;
+  const width = x1 - x0 - sheet.margin * 3;
+  const dedication = fitText(book.dedication, "regular", 16 * sheet.scale, width, (y1 - y0) / 2);
+  const top = (y0 + y1) / 2 + dedication.lines.length * dedication.size * 0.68;
+  return centredLines(dedication.lines, "regular", dedication.size, INK, (x0 + x1) / 2, top).ops;
+}
+
+function textPage(book: Book, pageIndex: number, sheet: Sheet): string[] {
+  const page = book.pages[pageIndex];
+  const [x0, y0, x1, y1] = sheet.trim;
+  const centre = (x0 + x1) / 2;
+  const width = x1 - x0 - sheet.margin * 2;
+  const height = y1 - y0 - sheet.margin * 3;
+
+  const activity = page.activity ? `Try this! ${page.activity}` : "";
+  const activitySize = 11 * sheet.scale;
+  const activityLines = activity ? wrapText(activity, "regular", activitySize, width) : [];
+  const activityHeight = activityLines.length * activitySize * 1.35 + (activity ? 18 * sheet.scale : 0);
+
+  const story = fitText(page.text, "regular", TEXT_SIZES[book.readingLevel] * sheet.scale, width, height - activityHeight);
+  const blockHeight = story.lines.length * story.size * 1.35 + activityHeight;
+  const top = Math.min(y1 - sheet.margin, (y0 + y1) / 2 + blockHeight / 2 + sheet.margin / 4);
+  const text = centredLines(story.lines, "regular", story.size, INK, centre, top);
+  const ops = [...text.ops];
+  if (activity) {
+    ops.push(...centredLines(activityLines, "regular", activitySize, MUTED, centre, text.bottom - 18 * sheet.scale).ops);
+  }
+  const number = String(pageIndex + 1);
+  ops.push(`${MUTED} rg ${pdfText(number, "regular", 10 * sheet.scale, centre - textWidth(number, "regular", 10 * sheet.scale) / 2, y0 + sheet.margin / 2)}`);
+  return ops;
+}
+
+function backMatter(book: Book): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const glossary = Object.entries(book.glossary || {}).sort(([a], [b]) => a.localeCompare(b));
+  if (glossary.length > 0) {
+    blocks.push({ text: "Glossary", font: "bold", size: 24 });
+    for (const [term, meaning] of glossary) {
+      blocks.push({ text: term, font: "bold", size: 12, before: 10 });
+      blocks.push({ text: meaning, font: "regular", size: 12, color: MUTED, indent: 12 });
+    }
+  }
+
+  // Journey books list their facts by stop
+  const facts = book.journey
+    ? book.journey.legs.filter(leg => leg.funFacts.length > 0).map(leg => ({ heading: leg.city, facts: leg.funFacts }))
+    : [{ heading: "", facts: book.funFacts || [] }];
+  if (facts.some(group => group.facts.length > 0)) {
+    blocks.push({ text: "Fun Facts", font: "bold", size: 24, before: glossary.length > 0 ? 36 : 0 });
+    for (const group of facts) {
+      if (group.heading) blocks.push({ text: group.heading, font: "bold", size: 14, before: 14 });
+      for (const fact of group.facts) blocks.push({ text: `• ${fact}`, font: "regular", size: 12, before: 8 });
+    }
+  }
+  return blocks;
+}
+
+// Lays blocks out top to bottom, starting a new page whenever one fills up
+function flowPages(blocks: TextBlock[], sheet: Sheet): string[][] {
+  const [x0, y0, x1, y1] = sheet.trim;
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = y1 - sheet.margin;
+  for (const block of blocks) {
+    const size = block.size * sheet.scale;
+    const leading = size * 1.35;
+    const indent = (block.indent ?? 0) * sheet.scale;
+    y -= (block.before ?? 0) * sheet.scale;
+    for (const line of wrapText(block.text, block.font, size, x1 - x0 - sheet.margin * 2 - indent)) {
+      if (y - leading < y0 + sheet.margin && ops.length > 0) {
+        pages.push(ops);
+        ops = [];
+        y = y1 - sheet.margin;
+      }
+      ops.push(`${block.color ?? INK} rg ${pdfText(line, block.font, size, x0 + sheet.margin + indent, y - size)}`);
+      y -= leading;
+    }
+  }
+  if (ops.length > 0) pages.push(ops);
+  return pages;
+}
+
+/**
+ * Renders the book as a PDF for printing. Illustrations that cannot be downloaded or
+ * embedded (only JPEG and PNG can) are left out, and their pages print text only.
+ */
+export async function renderBookPdf(book: Book, options: PrintOptions): Promise<Buffer> {
+  const sheet = sheetFor(options);
+  const pdf = new PdfDocument({
+    title: book.title,
+    author: "StoryVoyage",
+    subject: book.child?.name ? `A story for ${book.child.name}` : undefined,
+  });
+
+  const images = new Map<string, PdfImage | null>();
+  async function image(url: string | undefined): Promise<PdfImage | null> {
+    if (!url) return null;
+    if (!images.has(url)) {
+      const embedded = await loadImageFile(url)
+        .then(file => pdf.addImage(file.data))
+        .catch(error => {
+          console.warn("Could not embed illustration in PDF:", error);
+          return null;
+        });
+      images.set(url, embedded);
+    }
+    return images.get(url) ?? null;
+  }
+
+  let pageCount = 0;
+  function addPage(ops: string[]) {
+    if (options.cropMarks) ops.push(cropMarks(sheet));
+    pdf.addPage({ mediaBox: sheet.media, trimBox: sheet.trim, bleedBox: sheet.bleed, content: ops.join("\n") });
+    pageCount++;
+  }
+
+  addPage(coverPage(book, sheet, await image(coverImageUrl(book))));
+  if (book.dedication?.trim()) addPage(dedicationPage(book, sheet));
+  for (const [pageIndex, page] of book.pages.entries()) {
+    const illustration = await image(page.imageUrl);
+    if (illustration) {
+      // The cover is a right-hand page, so a spread opens on an even page: the illustration
+      // on the left facing its text on the right. A blank page keeps that after a dedication
+      // or a page without an illustration.
+      if (pageCount % 2 === 0) addPage([]);
+      addPage([drawImage(illustration, sheet.bleed)]);
+    }
+    addPage(textPage(book, pageIndex, sheet));
+  }
+  for (const ops of flowPages(backMatter(book), sheet)) addPage(ops);
+
+  return pdf.toBuffer();
+}
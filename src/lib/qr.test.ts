@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { decodePng } from "@/lib/png";
+import { encodeQr, renderQrPng, renderQrSvg, type QrCode, type QrErrorCorrection } from "@/lib/qr";
+
+// Reads codes back with a decoder written from the spec (ISO/IEC 18004), not from the
+// encoder, for versions 1-6: format bits, mask, block layout, Reed-Solomon syndromes
+// and the byte mode segment.
+
+// Per version, indexed from 1
+const TOTAL_CODEWORDS = [0, 26, 44, 70, 100, 134, 172];
+const ALIGNMENT_CENTRE = [0, 0, 18, 22, 26, 30, 34];
+const BLOCKS: Record<QrErrorCorrection, Array<{ count: number; ecc: number }>> = {
+  L: [{ count: 0, ecc: 0 }, { count: 1, ecc: 7 }, { count: 1, ecc: 10 }, { count: 1, ecc: 15 }, { count: 1, ecc: 20 }, { count: 1, ecc: 26 }, { count: 2, ecc: 18 }],
+  M: [{ count: 0, ecc: 0 }, { count: 1, ecc: 10 }, { count: 1, ecc: 16 }, { count: 1, ecc: 26 }, { count: 2, ecc: 18 }, { count: 2, ecc: 24 }, { count: 4, ecc: 16 }],
+  Q: [{ count: 0, ecc: 0 }, { count: 1, ecc: 13 }, { count: 1, ecc: 22 }, { count: 2, ecc: 18 }, { count: 2, ecc: 26 }, { count: 4, ecc: 18 }, { count: 4, ecc: 24 }],
+  H: [{ count: 0, ecc: 0 }, { count: 1, ecc: 17 }, { count: 1, ecc: 28 }, { count: 2, ecc: 22 }, { count: 4, ecc: 16 }, { count: 4, ecc: 22 }, { count: 4, ecc: 28 }],
+};
+const LEVELS: Record<number, QrErrorCorrection> = { 1: "L", 0: "M", 3: "Q", 2: "H" };
+
+const MASKS: Array<(row: number, column: number) => boolean> = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_i, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x = (x << 1) ^ (x & 0x80 ? 0x11d : 0);
+}
+for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+const multiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+function isFunctionModule(version: number, size: number, x: number, y: number): boolean {
+  if (x === 6 || y === 6) return true;
+  // Finders, separators and format areas
+  if (x < 9 && y < 9) return true;
+  if (x >= size - 8 && y < 9) return true;
+  if (x < 9 && y >= size - 8) return true;
+  const centre = ALIGNMENT_CENTRE[version];
+  return centre > 0 && Math.abs(x - centre) <= 2 && Math.abs(y - centre) <= 2;
+}
+
+function readFormat(qr: QrCode, copy: 1 | 2): number {
+  const { size, modules } = qr;
+  const positions: Array<[number, number]> = copy === 1
+    ? [[8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]]
+    : [
+        ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+        ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i]),
+      ];
+  return positions.reduce((bits, [x, y], i) => bits | (Number(modules[y][x]) << i), 0);
+}
+
+function decodeQr(qr: QrCode): { errorCorrection: QrErrorCorrection; mask: number; text: string } {
+  const { size, modules } = qr;
+  const version = (size - 17) / 4;
+  expect(version).toBeLessThanOrEqual(6);
+  expect(modules[size - 8][8]).toBe(true); // the always-dark module
+
+  const format = readFormat(qr, 1);
+  expect(readFormat(qr, 2)).toBe(format);
+  const unmasked = format ^ 0x5412;
+  const data = unmasked >>> 10;
+  let remainder = data << 10;
+  for (let bit = 14; bit >= 10; bit--) if (remainder & (1 << bit)) remainder ^= 0x537 << (bit - 10);
+  expect(remainder).toBe(unmasked & 0x3ff);
+  const errorCorrection = LEVELS[data >>> 3];
+  const mask = data & 7;
+
+  // Zig-zag through two-module columns from the bottom right
+  const bits: number[] = [];
+  for (let right = size - 1, pair = 0; right >= 1; right -= 2, pair++) {
+    if (right === 6) right = 5;
+    const upward = pair % 2 === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (const x of [right, right - 1]) {
+        if (isFunctionModule(version, size, x, y)) continue;
+        bits.push(Number(modules[y][x] !== MASKS[mask](y, x)));
+      }
+    }
+  }
+  const total = TOTAL_CODEWORDS[version];
+  expect(bits.length).toBeGreaterThanOrEqual(total * 8);
+  const codewords = Array.from({ length: total }, (_, i) => bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+
+  // Data codewords are interleaved first, then error correction
+  const { count, ecc } = BLOCKS[errorCorrection][version];
+  const shortLength = Math.floor(total / count);
+  const shortBlocks = count - (total % count);
+  const blocks = Array.from({ length: count }, (_, b) => ({
+    data: [] as number[],
+    ecc: [] as number[],
+    dataLength: shortLength - ecc + (b < shortBlocks ? 0 : 1),
+  }));
+  let k = 0;
+  for (let i = 0; i < shortLength - ecc + 1; i++) {
+    for (const block of blocks) if (i < block.dataLength) block.data.push(codewords[k++]);
+  }
+  for (let i = 0; i < ecc; i++) for (const block of blocks) block.ecc.push(codewords[k++]);
+
+  for (const block of blocks) {
+    const word = [...block.data, ...block.ecc];
+    for (let root = 0; root < ecc; root++) {
+      const syndrome = word.reduce((sum, coefficient) => multiply(sum, EXP[root]) ^ coefficient, 0);
+      expect(syndrome).toBe(0);
+    }
+  }
+
+  const stream = blocks.flatMap(block => block.data).flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+  const read = (offset: number, length: number) => stream.slice(offset, offset + length).reduce((value, bit) => (value << 1) | bit, 0);
+  expect(read(0, 4)).toBe(0b0100);
+  const length = read(4, 8);
+  const bytes = Buffer.from(Array.from({ length }, (_, i) => read(12 + i * 8, 8)));
+  return { errorCorrection, mask, text: bytes.toString("utf8") };
+}
+
+describe("encodeQr", () => {
+  it.each([
+    ["HELLO", "M", 1],
+    ["https://storyvoyage.app/s/Xk3vQ9aLm2", "H", 5],
+    ["https://storyvoyage.app/s/Xk3vQ9aLm2?passcode=1", "H", 6],
+    ["Ünïcødé stories 🌍 from Lisbon", "L", 3],
+    ["x".repeat(100), "M", 6],
+  ] as const)("round-trips %j at level %s", (text, errorCorrection, version) => {
+    const qr = encodeQr(text, errorCorrection);
+    expect(qr.version).toBe(version);
+    expect(qr.size).toBe(version * 4 + 17);
+    const decoded = decodeQr(qr);
+    expect(decoded.errorCorrection).toBe(errorCorrection);
+    expect(decoded.text).toBe(text);
+  });
+
+  it("defaults to level M", () => {
+    expect(encodeQr("HELLO").errorCorrection).toBe("M");
+  });
+
+  it("throws when the text does not fit any version", () => {
+    expect(() => encodeQr("x".repeat(3000), "H")).toThrow(/too long/);
+  });
+});
+
+describe("renderQrPng", () => {
+  it("draws each module as a block inside the quiet zone", () => {
+    const qr = encodeQr("HELLO");
+    const margin = 4;
+    const scale = 4;
+    const size = (qr.size + margin * 2) * scale;
+    const image = decodePng(renderQrPng(qr, { size, margin }));
+    expect(image.width).toBe(size);
+    expect(image.height).toBe(size);
+
+    const isDark = (px: number, py: number) => image.data[(py * size + px) * 4] === 0;
+    for (let y = -margin; y < qr.size + margin; y++) {
+      for (let x = -margin; x < qr.size + margin; x++) {
+        const dark = y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y][x];
+        expect(isDark((x + margin) * scale + 1, (y + margin) * scale + 1)).toBe(dark);
+      }
+    }
+  });
+});
+
+describe("renderQrSvg", () => {
+  it("draws one square per dark module and escapes the logo URL", () => {
+    const qr = encodeQr("HELLO");
+    const svg = renderQrSvg(qr, { size: 200 }, "https://example.com/logo.png?a=1&b=2");
+    const dark = qr.modules.flat().filter(Boolean).length;
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(dark);
+    expect(svg).toContain(`viewBox="0 0 ${qr.size + 8} ${qr.size + 8}"`);
+    expect(svg).toContain("logo.png?a=1&amp;b=2");
+  });
+});
@@ -0,0 +1,455 @@
+import { encodePng, type RgbaImage } from "@/lib/png";
+
+// QR code encoder (ISO/IEC 18004, byte mode, versions 1-40) with PNG and SVG rendering.
+// Table layout and placement follow the reference algorithm by Project Nayuki.
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export type QrCode = {
+  version: number;
+  errorCorrection: QrErrorCorrection;
+  // Modules per side
+  size: number;
+  // modules[y][x], true for dark
+  modules: boolean[][];
+};
+
+export type QrRenderOptions = {
+  // Output width and height in pixels (PNG) or user units (SVG)
+  size: number;
+  // Quiet zone around the code, in modules
+  margin?: number;
+};
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Encodes text (as UTF-8 bytes) in the smallest version that fits at the given error
+ * correction level. Throws when the text is too long for any version.
+ */
+export function encodeQr(text: string, errorCorrection: QrErrorCorrection = "M"): QrCode {
+  const bytes = Buffer.from(text, "utf8");
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= numDataCodewords(version, errorCorrection) * 8) break;
+  }
+  if (version > 40) throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+
+  const codewords = addEccAndInterleave(dataCodewords(bytes, version, errorCorrection), version, errorCorrection);
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  drawFunctionPatterns(version, errorCorrection, size, setFunction);
+  drawCodewords(codewords, size, modules, isFunction);
+
+  // Keep the mask with the lowest penalty score
+  let best = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask, modules, isFunction);
+    drawFormatBits(errorCorrection, mask, size, setFunction);
+    const penalty = penaltyScore(modules);
+    if (penalty < bestPenalty) {
+      best = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(mask, modules, isFunction); // XOR again to undo
+  }
+  applyMask(best, modules, isFunction);
+  drawFormatBits(errorCorrection, best, size, setFunction);
+
+  return { version, errorCorrection, size, modules };
+}
+
+/**
+ * Renders the code as a PNG of exactly `size` pixels square. An optional logo is drawn
+ * over the centre on a white backing; use error correction Q or H so it stays scannable.
+ */
+export function renderQrPng(qr: QrCode, { size, margin = 4 }: QrRenderOptions, logo?: RgbaImage): Buffer {
+  const total = qr.size + margin * 2;
+  const rgba = new Uint8Array(size * size * 4).fill(255);
+  for (let py = 0; py < size; py++) {
+    const y = Math.floor((py * total) / size) - margin;
+    for (let px = 0; px < size; px++) {
+      const x = Math.floor((px * total) / size) - margin;
+      if (y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y][x]) {
+        rgba.fill(0, (py * size + px) * 4, (py * size + px) * 4 + 3);
+      }
+    }
+  }
+
+  if (logo) {
+    const scale = size / total;
+    const toPixels = (rect: Rect) => ({
+      x: Math.round(rect.x * scale),
+      y: Math.round(rect.y * scale),
+      width: Math.round(rect.width * scale),
+      height: Math.round(rect.height * scale),
+    });
+    const { box, inner } = logoArea(qr, margin);
+    fillRect(rgba, size, toPixels(box), 255);
+    drawScaled(rgba, size, logo, toPixels(inner));
+  }
+  return encodePng(size, size, rgba);
+}
+
+/**
+ * Renders the code as a standalone SVG; dark modules become one path. `logoHref` (any
+ * image URL, typically a data URL) is placed over the centre like the PNG logo.
+ */
+export function renderQrSvg(qr: QrCode, { size, margin = 4 }: QrRenderOptions, logoHref?: string): string {
+  const total = qr.size + margin * 2;
+  const path: string[] = [];
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    }
+  }
+
+  let logo = "";
+  if (logoHref) {
+    const { box, inner } = logoArea(qr, margin);
+    logo = `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="#ffffff"/>`
+      + `<image href="${escapeXml(logoHref)}" x="${inner.x}" y="${inner.y}" width="${inner.width}" height="${inner.height}" preserveAspectRatio="xMidYMid slice"/>`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" version="1.1" width="${size}" height="${size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">
+<rect width="100%" height="100%" fill="#ffffff"/>
+<path d="${path.join("")}" fill="#000000"/>
+${logo}
+</svg>
+`;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// In modules. The logo covers about a fifth of the code's width, well within what
+// level H restores, with a one-module white border.
+function logoArea(qr: QrCode, margin: number): { box: Rect; inner: Rect } {
+  const side = Math.floor(qr.size * 0.22) | 1;
+  const start = margin + (qr.size - side) / 2;
+  return {
+    box: { x: start, y: start, width: side, height: side },
+    inner: { x: start + 1, y: start + 1, width: side - 2, height: side - 2 },
+  };
+}
+
+function fillRect(rgba: Uint8Array, size: number, rect: Rect, value: number) {
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    rgba.fill(value, (y * size + rect.x) * 4, (y * size + rect.x + rect.width) * 4);
+  }
+}
+
+// Nearest-neighbour scale of the image's centre square into the rectangle, over white
+function drawScaled(rgba: Uint8Array, size: number, image: RgbaImage, rect: Rect) {
+  const side = Math.min(image.width, image.height);
+  const offsetX = Math.floor((image.width - side) / 2);
+  const offsetY = Math.floor((image.height - side) / 2);
+  for (let y = 0; y < rect.height; y++) {
+    const sy = offsetY + Math.floor((y * side) / rect.height);
+    for (let x = 0; x < rect.width; x++) {
+      const sx = offsetX + Math.floor((x * side) / rect.width);
+      const from = (sy * image.width + sx) * 4;
+      const to = ((rect.y + y) * size + rect.x + x) * 4;
+      const alpha = image.data[from + 3] / 255;
+      for (let c = 0; c < 3; c++) {
+        rgba[to + c] = Math.round(image.data[from + c] * alpha + 255 * (1 - alpha));
+      }
+    }
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number, ecl: QrErrorCorrection): number {
+  return Math.floor(numRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+// Byte mode segment, terminator and padding, packed into codewords
+function dataCodewords(bytes: Buffer, version: number, ecl: QrErrorCorrection): number[] {
+  const capacity = numDataCodewords(version, ecl) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) append(byte, 8);
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+function addEccAndInterleave(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so every block has the same length while interleaving
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < numAlign; position -= step) result.splice(1, 0, position);
+  return result;
+}
+
+function drawFunctionPatterns(
+  version: number,
+  ecl: QrErrorCorrection,
+  size: number,
+  setFunction: (x: number, y: number, dark: boolean) => void,
+) {
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = alignmentPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  // Reserve the format areas; the real bits are drawn once the mask is chosen
+  drawFormatBits(ecl, 0, size, setFunction);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+}
+
+function drawFormatBits(
+  ecl: QrErrorCorrection,
+  mask: number,
+  size: number,
+  setFunction: (x: number, y: number, dark: boolean) => void,
+) {
+  const data = (FORMAT_BITS[ecl] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+  setFunction(8, 7, bit(6));
+  setFunction(8, 8, bit(7));
+  setFunction(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+
+  // Split between the other two finders, plus the always-dark module
+  for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+  setFunction(8, size - 8, true);
+}
+
+// Zig-zags up and down two-module columns from the bottom right, skipping function modules
+function drawCodewords(codewords: number[], size: number, modules: boolean[][], isFunction: boolean[][]) {
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && i < codewords.length * 8) {
+          modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(mask: number, modules: boolean[][], isFunction: boolean[][]) {
+  const invert = MASKS[mask];
+  for (let y = 0; y < modules.length; y++) {
+    for (let x = 0; x < modules.length; x++) {
+      if (!isFunction[y][x] && invert(x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  let penalty = 0;
+  for (const line of lines) {
+    // Runs of five or more modules of one colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += 3 + (run - 5);
+        run = 1;
+      }
+    }
+    // Patterns that look like a finder
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some(pattern => pattern.every((dark, k) => line[i + k] === dark))) penalty += 40;
+    }
+  }
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+import { SideCharacterSchema, type SideCharacter } from "@/lib/book-schema";
+import { bookFromRow, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Series: books for the same child read in order as one ongoing travel saga. Each new
+// book is written knowing what happened before and who the child has met so far.
+
+export const SeriesFieldsSchema = z.object({
+  title: z.string().min(1),
+  // Every book in the series is told by this narrator
+  narratorPersona: z.string().min(1),
+  sideCharacters: z.array(SideCharacterSchema),
+});
+
+export type SeriesFields = z.infer<typeof SeriesFieldsSchema>;
+
+export type Series = SeriesFields & {
+  id: string;
+  childName: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+type SeriesRow = {
+  id: string;
+  title: string;
+  child_name: string;
+  narrator_persona: string;
+  side_characters: SideCharacter[] | null;
+  created_at?: string;
+  updated_at?: string;
+};
+
+// What writing the next book of a series needs to know
+export type SeriesContext = {
+  series: Series;
+  books: Book[];
+};
+
+function seriesFromRow(row: SeriesRow): Series {
+  return {
+    id: row.id,
+    title: row.title,
+    childName: row.child_name,
+    narratorPersona: row.narrator_persona,
+    sideCharacters: row.side_characters || [],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function getSeries(id: string): Promise<Series | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.from("series").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? seriesFromRow(data as SeriesRow) : null;
+}
+
+export async function listSeries(childName?: string): Promise<Series[]> {
+  const supabase = await getServerSupabase();
+  let query = supabase.from("series").select("*").order("updated_at", { ascending: false });
+  if (childName) query = query.eq("child_name", childName);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(row => seriesFromRow(row as SeriesRow));
+}
+
+// The series' books in reading order
+export async function listSeriesBooks(seriesId: string): Promise<Book[]> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("books")
+    .select("*")
+    .eq("series_id", seriesId)
+    .order("series_position", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(row => bookFromRow(row as BookRow));
+}
+
+/**
+ * Starts a series, optionally from books the child already has. Those become the first
+ * books in the given order; the narrator defaults to the first book's.
+ */
+export async function createSeries({
+  title,
+  childName,
+  narratorPersona,
+  bookIds = [],
+}: {
+  title: string;
+  childName: string;
+  narratorPersona?: string;
+  bookIds?: string[];
+}): Promise<SeriesContext> {
+  const supabase = await getServerSupabase();
+  const { data: rows, error: booksError } = bookIds.length > 0
+    ? await supabase.from("books").select("*").in("id", bookIds)
+    : { data: [], error: null };
+  if (booksError) throw booksError;
+  const existing = bookIds.map(id => (rows || []).find(row => row.id === id));
+  const missing = bookIds.filter((_, i) => !existing[i]);
+  if (missing.length > 0) throw new Error(`Books not found: ${missing.join(", ")}`);
+  const books = (existing as BookRow[]).map(bookFromRow);
+
+  const persona = narratorPersona || books[0]?.narratorPersona;
+  if (!persona) throw new Error("A new series needs a narrator persona");
+
+  const { data, error } = await supabase
+    .from("series")
+    .insert({
+      title,
+      child_name: childName,
+      narrator_persona: persona,
+      side_characters: mergeSideCharacters([], books.flatMap(book => book.recap?.sideCharacters ?? [])),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  const series = seriesFromRow(data as SeriesRow);
+
+  const attached: Book[] = [];
+  for (const [i, book] of books.entries()) {
+    attached.push(await setSeriesPosition(book.id, series.id, i + 1));
+  }
+  return { series, books: attached };
+}
+
+export async function updateSeries(id: string, fields: Partial<SeriesFields>): Promise<Series | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("series")
+    .update({
+      ...(fields.title !== undefined && { title: fields.title }),
+      ...(fields.narratorPersona !== undefined && { narrator_persona: fields.narratorPersona }),
+      ...(fields.sideCharacters !== undefined && { side_characters: fields.sideCharacters }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return data ? seriesFromRow(data as SeriesRow) : null;
+}
+
+export async function loadSeriesContext(seriesId: string): Promise<SeriesContext> {
+  const series = await getSeries(seriesId);
+  if (!series) throw new Error(`Series ${seriesId} not found`);
+  return { series, books: await listSeriesBooks(seriesId) };
+}
+
+/**
+ * Appends a saved book to the end of its series and remembers the side characters
+ * it introduced, so the next book can bring them back.
+ */
+export async function addBookToSeries(seriesId: string, book: Book): Promise<Book> {
+  const { series, books } = await loadSeriesContext(seriesId);
+  const position = books.reduce((last, other) => Math.max(last, other.seriesPosition ?? 0), 0) + 1;
+  const updated = await setSeriesPosition(book.id, seriesId, position);
+
+  // Always touches updated_at, so the series with the newest book lists first
+  await updateSeries(seriesId, {
+    sideCharacters: mergeSideCharacters(series.sideCharacters, book.recap?.sideCharacters ?? []),
+  });
+  return updated;
+}
+
+/**
+ * Prompt section telling the model which book of the series it is writing: the story
+ * so far, the recurring cast and how to call back to earlier adventures.
+ */
+export function seriesPromptText({ series, books }: SeriesContext): string {
+  const earlier = books
+    .map((book, i) => `  ${i + 1}. "${book.title}" (${book.city}): ${book.recap?.summary || book.subtitle}`)
+    .join("\n");
+  const cast = series.sideCharacters
+    .map(character => `  - ${character.name}: ${character.description}`)
+    .join("\n");
+
+  return `Series:
+- This is book ${books.length + 1} of the series "${series.title}", the next chapter of one ongoing travel saga.
+- Earlier books, in reading order:
+${earlier || "  none yet, this book opens the series"}
+- Recurring characters:
+${cast || "  none yet"}
+- Bring back at least one recurring character where it fits the new city, described exactly as above.
+- Include one or two warm callbacks to earlier adventures (a souvenir, a word learned, a friend's promise) without retelling them.
+- Keep the narrator's voice exactly as in the earlier books.`;
+}
+
+// Adds newly met characters; characters already known keep their original description
+function mergeSideCharacters(known: SideCharacter[], met: SideCharacter[]): SideCharacter[] {
+  const merged = [...known];
+  for (const character of met) {
+    const key = character.name.trim().toLowerCase();
+    if (!merged.some(existing => existing.name.trim().toLowerCase() === key)) merged.push(character);
+  }
+  return merged;
+}
+
+async function setSeriesPosition(bookId: string, seriesId: string, position: number): Promise<Book> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("books")
+    .update({ series_id: seriesId, series_position: position })
+    .eq("id", bookId)
+    .select()
+    .single();
+  if (error) throw error;
+  return bookFromRow(data as BookRow);
+}
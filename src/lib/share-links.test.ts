@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { isShareLinkActive, shareLinkPath, type ShareLink } from "@/lib/share-links";
+
+function link(overrides: Partial<ShareLink> = {}): ShareLink {
+  return {
+    id: "link-1",
+    bookId: "book-1",
+    token: "Xk3vQ9aLm2",
+    url: shareLinkPath("Xk3vQ9aLm2"),
+    expiresAt: null,
+    hasPasscode: false,
+    viewCount: 0,
+    lastViewedAt: null,
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe("isShareLinkActive", () => {
+  const now = new Date("2025-06-01T12:00:00Z");
+
+  it("keeps links without an expiry open", () => {
+    expect(isShareLinkActive(link(), now)).toBe(true);
+  });
+
+  it("keeps links open until they expire", () => {
+    expect(isShareLinkActive(link({ expiresAt: "2025-06-01T12:00:01Z" }), now)).toBe(true);
+    expect(isShareLinkActive(link({ expiresAt: "2025-06-01T12:00:00Z" }), now)).toBe(false);
+    expect(isShareLinkActive(link({ expiresAt: "2025-05-31T12:00:00Z" }), now)).toBe(false);
+  });
+
+  it("closes revoked links, even before they expire", () => {
+    expect(isShareLinkActive(link({ revokedAt: "2025-05-01T00:00:00Z" }), now)).toBe(false);
+    expect(isShareLinkActive(link({ revokedAt: "2025-05-01T00:00:00Z", expiresAt: "2026-01-01T00:00:00Z" }), now)).toBe(false);
+  });
+
+  it("compares against the current time by default", () => {
+    expect(isShareLinkActive(link({ expiresAt: new Date(Date.now() + 60_000).toISOString() }))).toBe(true);
+    expect(isShareLinkActive(link({ expiresAt: new Date(Date.now() - 60_000).toISOString() }))).toBe(false);
+  });
+});
+
+describe("shareLinkPath", () => {
+  it("puts the token under /s/", () => {
+    expect(shareLinkPath("abc")).toBe("/s/abc");
+  });
+});
@@ -0,0 +1,171 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { bookFromRow, type Book, type BookRow } from "@/lib/supabase";
+import { getServerSupabase } from "@/lib/supabase-server";
+
+// Share links: read-only links to one private book. Each has its own random token, so
+// the book id never leaves the owner's account, and can expire, need a passcode or be
+// revoked without touching the others.
+
+export const ShareLinkOptionsSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  // Readers get a few tries before the link locks for a while, so short passcodes are refused
+  passcode: z.string().min(6).max(64).optional(),
+});
+
+export type ShareLinkOptions = z.infer<typeof ShareLinkOptionsSchema>;
+
+export type ShareLink = {
+  id: string;
+  bookId: string;
+  token: string;
+  // Path of the link, e.g. /s/<token>
+  url: string;
+  expiresAt: string | null;
+  hasPasscode: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  revokedAt: string | null;
+  created_at?: string;
+};
+
+type ShareLinkRow = {
+  id: string;
+  book_id: string;
+  token: string;
+  expires_at: string | null;
+  passcode_hash: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  revoked_at: string | null;
+  created_at?: string;
+};
+
+export type OpenShareLinkResult =
+  | { status: "ok"; book: Book }
+  // Too many wrong passcodes; the link takes none until lockedUntil
+  | { status: "locked"; lockedUntil: string }
+  | { status: "not_found" | "revoked" | "expired" | "passcode_required" | "wrong_passcode" };
+
+export function shareLinkPath(token: string): string {
+  return `/s/${token}`;
+}
+
+function shareLinkFromRow(row: ShareLinkRow): ShareLink {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    token: row.token,
+    url: shareLinkPath(row.token),
+    expiresAt: row.expires_at,
+    hasPasscode: row.passcode_hash !== null,
+    viewCount: row.view_count,
+    lastViewedAt: row.last_viewed_at,
+    revokedAt: row.revoked_at,
+    created_at: row.created_at,
+  };
+}
+
+export function isShareLinkActive(link: ShareLink, now = new Date()): boolean {
+  return !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt) > now);
+}
+
+/**
+ * Creates a link to one of the caller's books. A plain link (no expiry, no passcode)
+ * reuses the book's existing active plain link, so sharing twice hands out the same URL.
+ * Returns null when the caller cannot see the book.
+ */
+export async function createShareLink(bookId: string, { expiresInDays, passcode }: ShareLinkOptions = {}): Promise<ShareLink | null> {
+  const supabase = await getServerSupabase();
+  const { data: book, error: bookError } = await supabase.from("books").select("id").eq("id", bookId).maybeSingle();
+  if (bookError) throw bookError;
+  if (!book) return null;
+
+  if (!expiresInDays && !passcode) {
+    const reusable = (await listShareLinks(bookId))
+      .find(link => isShareLinkActive(link) && !link.expiresAt && !link.hasPasscode);
+    if (reusable) return reusable;
+  }
+
+  const { data, error } = await supabase
+    .rpc("create_share_link", {
+      link_book_id: bookId,
+      link_token: randomBytes(16).toString("base64url"),
+      link_expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      link_passcode: passcode ?? null,
+    })
+    .single();
+  if (error) throw error;
+  return shareLinkFromRow(data as ShareLinkRow);
+}
+
+// The caller's links, newest first, including expired and revoked ones
+export async function listShareLinks(bookId?: string): Promise<ShareLink[]> {
+  const supabase = await getServerSupabase();
+  let query = supabase.from("share_links").select("*").order("created_at", { ascending: false });
+  if (bookId) query = query.eq("book_id", bookId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(row => shareLinkFromRow(row as ShareLinkRow));
+}
+
+export async function revokeShareLink(id: string): Promise<ShareLink | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("revoked_at", null)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return shareLinkFromRow(data as ShareLinkRow);
+
+  // Already revoked links are returned as they are
+  const { data: existing, error: existingError } = await supabase.from("share_links").select("*").eq("id", id).maybeSingle();
+  if (existingError) throw existingError;
+  return existing ? shareLinkFromRow(existing as ShareLinkRow) : null;
+}
+
+// Revokes every active link to the book; returns how many were revoked
+export async function revokeBookShareLinks(bookId: string): Promise<number> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("book_id", bookId)
+    .is("revoked_at", null)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length;
+}
+
+/**
+ * Opens a link for anyone holding the token, signed in or not, and counts the view.
+ * Expiry, revocation and the passcode are checked in the database, which also locks
+ * the link for a while after repeated wrong passcodes.
+ */
+export async function openShareLink(token: string, passcode?: string): Promise<OpenShareLinkResult> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.rpc("open_share_link", {
+    link_token: token,
+    link_passcode: passcode ?? null,
+  });
+  if (error) throw error;
+  const result = data as { status: OpenShareLinkResult["status"]; book?: BookRow | null; locked_until?: string };
+  if (result.status === "locked") return { status: "locked", lockedUntil: result.locked_until! };
+  if (result.status !== "ok") return { status: result.status } as OpenShareLinkResult;
+  if (!result.book) return { status: "not_found" };
+  return { status: "ok", book: bookFromRow(result.book) };
+}
+
+/**
+ * The book behind an open link, for link previews. Unlike opening the link this counts
+ * no view, and returns null for links that are revoked, expired or need a passcode.
+ */
+export async function previewShareLink(token: string): Promise<Book | null> {
+  const supabase = await getServerSupabase();
+  const { data, error } = await supabase.rpc("preview_share_link", { link_token: token }).maybeSingle();
+  if (error) throw error;
+  return data ? bookFromRow(data as BookRow) : null;
+}
@@ -0,0 +1,38 @@
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js'
+import { cookies, headers } from 'next/headers'
+import { ACCESS_TOKEN_COOKIE, supabase } from './supabase'
+
+// Server-side Supabase access on behalf of the caller. Every query runs with the
+// caller's access token, so the owner-scoped row-level security policies apply.
+
+// From an Authorization header (API clients) or the cookie the browser keeps in sync
+async function accessToken(): Promise<string | null> {
+  try {
+    const authorization = (await headers()).get('authorization')
+    if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length)
+    return (await cookies()).get(ACCESS_TOKEN_COOKIE)?.value || null
+  } catch {
+    // Called outside a request, e.g. from a script
+    return null
+  }
+}
+
+/**
+ * Client acting as the signed-in caller; signed-out callers get the anon client and
+ * therefore see no private rows.
+ */
+export async function getServerSupabase(): Promise<SupabaseClient> {
+  const token = await accessToken()
+  if (!token) return supabase
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
+export async function getCurrentUser(): Promise<User | null> {
+  const token = await accessToken()
+  if (!token) return null
+  const { data, error } = await supabase.auth.getUser(token)
+  return error ? null : data.user
+}
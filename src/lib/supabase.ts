@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { BookContent, Journey, Recap } from './book-schema'
+import type { AudioManifest } from './audio'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -6,16 +8,39 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// Server routes act as the signed-in user: the browser mirrors its access token into
+// this cookie, which is sent along with every request to the API
+export const ACCESS_TOKEN_COOKIE = 'sv-access-token'
+
+if (typeof window !== 'undefined') {
+  supabase.auth.onAuthStateChange((_event, session) => {
+    const secure = window.location.protocol === 'https:' ? '; Secure' : ''
+    document.cookie = session
+      ? `${ACCESS_TOKEN_COOKIE}=${session.access_token}; Path=/; Max-Age=${session.expires_in}; SameSite=Lax${secure}`
+      : `${ACCESS_TOKEN_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+  })
+}
+
 // Create a service role client for admin operations
 export const supabaseAdmin = supabaseServiceKey 
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null
 
+// Buckets holding something other than images; the rest get the image settings
+const BUCKET_OPTIONS: Record<string, { public: boolean; allowedMimeTypes: string[]; fileSizeLimit: number }> = {
+  'story-audio': {
+    public: true,
+    allowedMimeTypes: ['audio/wav', 'application/json'],
+    fileSizeLimit: 52428800 // 50MB, a whole book read aloud
+  }
+}
+
 // Helper function to upload image to Supabase storage
 export async function uploadImageToStorage(
   imageBuffer: Buffer, 
   filename: string, 
-  bucketName: string = 'story-images'
+  bucketName: string = 'story-images',
+  contentType: string = 'image/png'
 ): Promise<string | null> {
   try {
     // First, check if bucket exists and create it if needed
@@ -27,7 +52,7 @@ export async function uploadImageToStorage(
         const bucketExists = buckets?.some(bucket => bucket.name === bucketName)
         if (!bucketExists) {
           console.log(`Creating bucket ${bucketName}...`)
-          const { error: createError } = await supabaseAdmin.storage.createBucket(bucketName, {
+          const { error: createError } = await supabaseAdmin.storage.createBucket(bucketName, BUCKET_OPTIONS[bucketName] || {
             public: true,
             allowedMimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
             fileSizeLimit: 5242880 // 5MB
@@ -45,7 +70,7 @@ export async function uploadImageToStorage(
     const { data, error } = await supabase.storage
       .from(bucketName)
       .upload(filename, imageBuffer, {
-        contentType: 'image/png',
+        contentType,
         upsert: false
       })
 
@@ -66,18 +91,99 @@ export async function uploadImageToStorage(
   }
 }
 
-export type Book = {
+export type Book = BookContent & {
+  id: string;
+  characterId?: string | null;
+  // Profile of the child the book is for; the child fields above are a snapshot from when it was written
+  childId?: string | null;
+  seriesId?: string | null;
+  // Reading order within the series, starting at 1
+  seriesPosition?: number | null;
+  // Read-aloud audio made by /api/generate-audio
+  audio?: AudioManifest | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Row shape of the books table
+export type BookRow = {
   id: string;
   title: string;
-  subtitle: string;
+  subtitle: string | null;
   city: string;
-  dedication: string;
-  readingLevel: string;
-  narratorPersona: string;
-  child: { name: string; age: number; interests: string[] };
-  pages: Array<{ text: string; activity?: string; prompt?: string; imageUrl?: string }>;
-  glossary: Record<string, string>;
-  funFacts: string[];
+  dedication: string | null;
+  reading_level: string;
+  narrator_persona: string | null;
+  child_name: string;
+  child_age: number;
+  child_interests: string[] | null;
+  pages: Book['pages'];
+  glossary: Record<string, string> | null;
+  fun_facts: string[] | null;
+  character_id?: string | null;
+  child_id?: string | null;
+  journey?: Journey | null;
+  cities?: string[] | null;
+  recap?: Recap | null;
+  series_id?: string | null;
+  series_position?: number | null;
+  audio?: AudioManifest | null;
+  // temp_ id the book had on the device it was made on, for books uploaded by offline sync
+  client_id?: string | null;
   created_at?: string;
   updated_at?: string;
 }
+
+// Convert database structure to the Book shape used by the app
+export function bookFromRow(row: BookRow): Book {
+  return {
+    id: row.id,
+    title: row.title,
+    subtitle: row.subtitle || '',
+    city: row.city,
+    dedication: row.dedication || '',
+    readingLevel: row.reading_level as Book['readingLevel'],
+    narratorPersona: row.narrator_persona || '',
+    child: {
+      name: row.child_name,
+      age: row.child_age,
+      interests: row.child_interests || []
+    },
+    pages: row.pages || [],
+    glossary: row.glossary || {},
+    funFacts: row.fun_facts || [],
+    ...(row.journey && { journey: row.journey }),
+    ...(row.recap && { recap: row.recap }),
+    characterId: row.character_id ?? null,
+    childId: row.child_id ?? null,
+    seriesId: row.series_id ?? null,
+    seriesPosition: row.series_position ?? null,
+    audio: row.audio ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  }
+}
+
+export function bookToRow(book: BookContent & { characterId?: string | null; childId?: string | null }) {
+  return {
+    title: book.title,
+    subtitle: book.subtitle,
+    city: book.city,
+    dedication: book.dedication,
+    reading_level: book.readingLevel,
+    narrator_persona: book.narratorPersona,
+    child_name: book.child.name,
+    child_age: book.child.age,
+    child_interests: book.child.interests,
+    pages: book.pages,
+    glossary: book.glossary || {},
+    fun_facts: book.funFacts || [],
+    journey: book.journey ?? null,
+    // Every stop of a journey, so books can be found by any city they visit; lowercased
+    // because the city filter ignores case
+    cities: (book.journey ? book.journey.legs.map(leg => leg.city) : [book.city]).map(city => city.toLowerCase()),
+    recap: book.recap ?? null,
+    ...(book.characterId !== undefined && { character_id: book.characterId }),
+    ...(book.childId !== undefined && { child_id: book.childId })
+  }
+}
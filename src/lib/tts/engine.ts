@@ -0,0 +1,30 @@
+import { spawn } from "child_process";
+
+/**
+ * Runs a local speech engine, writing the text to its stdin and collecting stdout.
+ * Rejects with the engine's stderr when it fails or is not installed.
+ */
+export function runEngine(command: string, args: string[], input: string, timeoutMs = 60_000): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${command} timed out after ${timeoutMs} ms`));
+    }, timeoutMs);
+
+    child.stdout.on("data", chunk => stdout.push(chunk));
+    child.stderr.on("data", chunk => stderr.push(chunk));
+    child.on("error", error => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${command}: ${error.message}`));
+    });
+    child.on("close", code => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`${command} exited with ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+    });
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,23 @@
+import { decodeWav } from "@/lib/wav";
+import { runEngine } from "./engine";
+import type { Speech, SpeechRequest, TTSProvider } from "./types";
+
+// espeak-ng's normal pace, in words per minute
+const BASE_WPM = 160;
+
+// The espeak-ng command line synthesizer; small, robotic, and available on most systems
+export class EspeakProvider implements TTSProvider {
+  readonly name = "espeak" as const;
+  readonly voice = process.env.ESPEAK_VOICE || "en-us";
+
+  constructor(private command = "espeak-ng") {}
+
+  async synthesize({ text, voice, rate = 1 }: SpeechRequest): Promise<Speech> {
+    const wav = await runEngine(
+      this.command,
+      ["--stdin", "--stdout", "-v", voice || this.voice, "-s", String(Math.round(BASE_WPM * rate))],
+      text,
+    );
+    return { audio: decodeWav(wav) };
+  }
+}
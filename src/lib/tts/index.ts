@@ -0,0 +1,38 @@
+import { EspeakProvider } from "./espeak";
+import { MockTTSProvider } from "./mock";
+import { PiperProvider } from "./piper";
+import type { TTSProvider } from "./types";
+
+export type { Speech, SpeechRequest, TTSProvider, WordTiming } from "./types";
+
+let cachedProvider: TTSProvider | null = null;
+
+/**
+ * Returns the configured offline speech engine. TTS_PROVIDER selects it:
+ * - "espeak" (default): espeak-ng on the PATH or at ESPEAK_PATH, voice ESPEAK_VOICE
+ * - "piper": the piper binary (PIPER_PATH) with the voice model at PIPER_MODEL
+ * - "mock": deterministic tones with exact word timings, no engine needed
+ * Throws when the selected engine is missing its configuration.
+ */
+export function getTTSProvider(): TTSProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = process.env.TTS_PROVIDER || "espeak";
+  switch (providerName) {
+    case "mock":
+      cachedProvider = new MockTTSProvider();
+      break;
+    case "piper": {
+      const model = process.env.PIPER_MODEL;
+      if (!model) throw new Error("Missing PIPER_MODEL");
+      cachedProvider = new PiperProvider(model, process.env.PIPER_PATH);
+      break;
+    }
+    case "espeak":
+      cachedProvider = new EspeakProvider(process.env.ESPEAK_PATH);
+      break;
+    default:
+      throw new Error(`Unknown TTS_PROVIDER "${providerName}"`);
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,26 @@
+import { concatPcm, silence, tones, type Pcm } from "@/lib/wav";
+import type { Speech, SpeechRequest, TTSProvider, WordTiming } from "./types";
+
+const SAMPLE_RATE = 22050;
+
+// Deterministic stand-in for a voice: a soft tone per word, pitched by its first letter,
+// with exact word timings. Lets the whole audio pipeline run without any engine installed.
+export class MockTTSProvider implements TTSProvider {
+  readonly name = "mock" as const;
+  readonly voice = "mock-voice";
+
+  async synthesize({ text, rate = 1 }: SpeechRequest): Promise<Speech> {
+    const parts: Pcm[] = [];
+    const words: WordTiming[] = [];
+    let time = 0;
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const seconds = (0.12 + word.length * 0.045) / rate;
+      const pause = (/[.!?]$/.test(word) ? 0.35 : 0.08) / rate;
+      const frequency = 220 + ((word.toLowerCase().charCodeAt(0) || 97) % 26) * 12;
+      parts.push(tones([{ frequency, seconds }], SAMPLE_RATE, 0.12), silence(pause, SAMPLE_RATE));
+      words.push({ word, start: time, end: time + seconds });
+      time += seconds + pause;
+    }
+    return { audio: parts.length > 0 ? concatPcm(parts) : silence(0.5, SAMPLE_RATE), words };
+  }
+}
@@ -0,0 +1,34 @@
+import { existsSync, readFileSync } from "fs";
+import { pcmFromRaw } from "@/lib/wav";
+import { runEngine } from "./engine";
+import type { Speech, SpeechRequest, TTSProvider } from "./types";
+
+// Piper neural voices (https://github.com/rhasspy/piper); each voice is an .onnx model
+// with a .onnx.json config next to it that records its sample rate
+export class PiperProvider implements TTSProvider {
+  readonly name = "piper" as const;
+  readonly voice: string;
+
+  constructor(private model: string, private command = "piper") {
+    this.voice = model.split("/").pop()?.replace(/\.onnx$/, "") || model;
+  }
+
+  async synthesize({ text, voice, rate = 1 }: SpeechRequest): Promise<Speech> {
+    // A voice names another model in the same directory
+    if (voice && !/^[\w+-]+$/.test(voice)) throw new Error(`Invalid voice name "${voice}"`);
+    const model = voice ? this.model.replace(/[^/]+\.onnx$/, `${voice}.onnx`) : this.model;
+    const raw = await runEngine(
+      this.command,
+      ["--model", model, "--output-raw", "--length_scale", (1 / rate).toFixed(2)],
+      text,
+    );
+    return { audio: pcmFromRaw(raw, sampleRate(model)) };
+  }
+}
+
+function sampleRate(model: string): number {
+  const config = `${model}.json`;
+  if (!existsSync(config)) return 22050;
+  const parsed = JSON.parse(readFileSync(config, "utf8")) as { audio?: { sample_rate?: number } };
+  return parsed.audio?.sample_rate || 22050;
+}
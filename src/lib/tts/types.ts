@@ -0,0 +1,30 @@
+import type { Pcm } from "@/lib/wav";
+
+// Shared contract for text-to-speech engines
+
+export type SpeechRequest = {
+  text: string;
+  // Engine-specific voice name; each engine has its own default
+  voice?: string;
+  // Speaking speed relative to the engine's normal pace, e.g. 0.8 for slower
+  rate?: number;
+};
+
+// When a word is spoken, in seconds from the start of its clip
+export type WordTiming = {
+  word: string;
+  start: number;
+  end: number;
+};
+
+export type Speech = {
+  audio: Pcm;
+  // Engines that report word boundaries return them; otherwise they are estimated
+  words?: WordTiming[];
+};
+
+export interface TTSProvider {
+  readonly name: "espeak" | "piper" | "mock";
+  readonly voice: string;
+  synthesize(request: SpeechRequest): Promise<Speech>;
+}
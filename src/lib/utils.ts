@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Whole years between a YYYY-MM-DD birthday and `today`
+export function ageOn(birthday: string, today: Date = new Date()): number {
+  const [year, month, day] = birthday.split("-").map(Number)
+  const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day)
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1)
+}
+
+// File name stem for downloads, e.g. "Ava's Day in Lisbon" -> "avas-day-in-lisbon";
+// `fallback` when nothing of the title is left
+export function fileSlug(title: string, fallback = "story"): string {
+  return title.replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "-").toLowerCase() || fallback
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { concatPcm, decodeWav, encodeWav, pcmDuration, pcmFromRaw, silence, tones } from "@/lib/wav";
+
+describe("encodeWav / decodeWav", () => {
+  it("round-trips 16-bit mono samples", () => {
+    const pcm = { sampleRate: 22050, samples: Int16Array.from([0, 1, -1, 32767, -32768, 1234, -4321]) };
+    const wav = encodeWav(pcm);
+    expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(wav.length).toBe(44 + pcm.samples.length * 2);
+
+    const decoded = decodeWav(wav);
+    expect(decoded.sampleRate).toBe(22050);
+    expect(Array.from(decoded.samples)).toEqual(Array.from(pcm.samples));
+  });
+
+  it("reads to the end when the data size was left unset, as engines writing to stdout do", () => {
+    const wav = encodeWav({ sampleRate: 16000, samples: Int16Array.from([5, 6, 7]) });
+    wav.writeUInt32LE(0xffffffff, 40);
+    expect(Array.from(decodeWav(wav).samples)).toEqual([5, 6, 7]);
+  });
+
+  it("rejects files that are not WAVs", () => {
+    expect(() => decodeWav(Buffer.from("RIFF----AVI LIST"))).toThrow("Not a WAV file");
+  });
+});
+
+describe("pcm helpers", () => {
+  it("mixes interleaved channels down to mono", () => {
+    const raw = Buffer.alloc(8);
+    [100, 300, -200, -400].forEach((sample, i) => raw.writeInt16LE(sample, i * 2));
+    expect(Array.from(pcmFromRaw(raw, 8000, 2).samples)).toEqual([200, -300]);
+  });
+
+  it("joins clips and measures their length", () => {
+    const joined = concatPcm([silence(0.5, 8000), tones([{ frequency: 440, seconds: 0.25 }], 8000)]);
+    expect(pcmDuration(joined)).toBe(0.75);
+    expect(Array.from(joined.samples.subarray(0, 4000)).every(sample => sample === 0)).toBe(true);
+    expect(Array.from(joined.samples.subarray(4000)).some(sample => sample !== 0)).toBe(true);
+  });
+
+  it("refuses to join clips with different sample rates", () => {
+    expect(() => concatPcm([silence(0.1, 8000), silence(0.1, 16000)])).toThrow(/16000 Hz/);
+  });
+});
@@ -0,0 +1,113 @@
+// Minimal WAV (16-bit PCM) encoder and decoder for server-rendered audio (read-aloud exports)
+
+export type Pcm = {
+  sampleRate: number;
+  // Mono, signed 16-bit
+  samples: Int16Array;
+};
+
+export function pcmDuration(pcm: Pcm): number {
+  return pcm.samples.length / pcm.sampleRate;
+}
+
+export function encodeWav({ sampleRate, samples }: Pcm): Buffer {
+  const header = Buffer.alloc(44);
+  const dataLength = samples.length * 2;
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataLength, 40);
+
+  const data = Buffer.alloc(dataLength);
+  samples.forEach((sample, i) => data.writeInt16LE(sample, i * 2));
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Decodes a 16-bit PCM WAV, mixing multiple channels down to mono. Streams whose
+ * size fields were left unset (0 or 0xffffffff, as engines writing to stdout do) read
+ * to the end of the buffer.
+ */
+export function decodeWav(buffer: Buffer): Pcm {
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    if (id === "fmt ") {
+      if (buffer.readUInt16LE(offset + 8) !== 1) throw new Error("Only PCM WAV files are supported");
+      channels = buffer.readUInt16LE(offset + 10);
+      sampleRate = buffer.readUInt32LE(offset + 12);
+      bitsPerSample = buffer.readUInt16LE(offset + 22);
+    } else if (id === "data") {
+      if (bitsPerSample !== 16) throw new Error(`Only 16-bit WAV files are supported, got ${bitsPerSample}-bit`);
+      const end = size === 0 || size === 0xffffffff ? buffer.length : Math.min(buffer.length, offset + 8 + size);
+      return { sampleRate, samples: toMono(buffer.subarray(offset + 8, end), channels) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("WAV file has no data");
+}
+
+// Interleaved little-endian 16-bit samples, as raw engine output is
+export function pcmFromRaw(raw: Buffer, sampleRate: number, channels = 1): Pcm {
+  return { sampleRate, samples: toMono(raw, channels) };
+}
+
+function toMono(data: Buffer, channels: number): Int16Array {
+  const frames = Math.floor(data.length / (2 * channels));
+  const samples = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += data.readInt16LE((i * channels + c) * 2);
+    samples[i] = Math.round(sum / channels);
+  }
+  return samples;
+}
+
+export function silence(seconds: number, sampleRate: number): Pcm {
+  return { sampleRate, samples: new Int16Array(Math.round(seconds * sampleRate)) };
+}
+
+/**
+ * Sine tones played one after another, each fading out; used for page-turn chimes.
+ */
+export function tones(notes: Array<{ frequency: number; seconds: number }>, sampleRate: number, volume = 0.25): Pcm {
+  return concatPcm(notes.map(({ frequency, seconds }) => {
+    const samples = new Int16Array(Math.round(seconds * sampleRate));
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.min(1, i / (sampleRate * 0.005)) * Math.exp(-4 * t / seconds);
+      samples[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * volume * 32767);
+    }
+    return { sampleRate, samples };
+  }));
+}
+
+export function concatPcm(parts: Pcm[]): Pcm {
+  const sampleRate = parts[0]?.sampleRate ?? 22050;
+  const mismatched = parts.find(part => part.sampleRate !== sampleRate);
+  if (mismatched) throw new Error(`Cannot join ${mismatched.sampleRate} Hz audio with ${sampleRate} Hz audio`);
+
+  const samples = new Int16Array(parts.reduce((total, part) => total + part.samples.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    samples.set(part.samples, offset);
+    offset += part.samples.length;
+  }
+  return { sampleRate, samples };
+}
@@ -0,0 +1,57 @@
+import { randomBytes } from "crypto";
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "@/lib/zip";
+import { understatedZip } from "@/test/fixtures";
+
+const MB = 1024 * 1024;
+
+describe("createZip / readZip", () => {
+  it("round-trips deflated, stored and empty entries in order", () => {
+    const text = "Ava rode the tram. ".repeat(200);
+    const noise = randomBytes(4096);
+    const zip = createZip([
+      { name: "mimetype", data: "application/epub+zip", store: true },
+      { name: "story/page-1.txt", data: text },
+      { name: "images/noise.bin", data: noise },
+      { name: "bücher/ünïcødé.txt", data: "héllo" },
+      { name: "empty.txt", data: "" },
+    ]);
+
+    const files = readZip(zip, MB);
+    expect([...files.keys()]).toEqual(["mimetype", "story/page-1.txt", "images/noise.bin", "bücher/ünïcødé.txt", "empty.txt"]);
+    expect(files.get("mimetype")?.toString()).toBe("application/epub+zip");
+    expect(files.get("story/page-1.txt")?.toString()).toBe(text);
+    expect(files.get("images/noise.bin")?.equals(noise)).toBe(true);
+    expect(files.get("bücher/ünïcødé.txt")?.toString()).toBe("héllo");
+    expect(files.get("empty.txt")?.length).toBe(0);
+    // Repetitive text is deflated; random bytes would only grow, so they are stored
+    expect(zip.length).toBeLessThan(noise.length + text.length / 4);
+  });
+
+  it("keeps stored entries uncompressed at a fixed offset, as EPUB readers expect", () => {
+    const zip = createZip([{ name: "mimetype", data: "application/epub+zip", store: true }]);
+    expect(zip.readUInt16LE(8)).toBe(0); // compression method: stored
+    expect(zip.toString("ascii", 30, 38)).toBe("mimetype");
+    expect(zip.toString("ascii", 38, 58)).toBe("application/epub+zip");
+  });
+
+  it("refuses archives that unpack to more than the limit", () => {
+    const zip = createZip([{ name: "zeros.bin", data: Buffer.alloc(2 * MB) }]);
+    expect(zip.length).toBeLessThan(MB);
+    expect(() => readZip(zip, MB)).toThrow(/more than 1 MB/);
+  });
+
+  it("refuses entries that unpack to more than their header says", () => {
+    expect(() => readZip(understatedZip(), MB)).toThrow("ZIP entry story.txt unpacks to more than its stated size");
+  });
+
+  it("reports entries whose compressed data is corrupt", () => {
+    const zip = createZip([{ name: "story.txt", data: "Ava rode the tram. ".repeat(200) }]);
+    zip.fill(0xff, 30 + "story.txt".length, 40 + "story.txt".length);
+    expect(() => readZip(zip, MB)).toThrow("Corrupt ZIP entry story.txt");
+  });
+
+  it("rejects data that is not an archive", () => {
+    expect(() => readZip(Buffer.from("not a zip file at all, just some text"), MB)).toThrow("Not a ZIP archive");
+  });
+});
@@ -0,0 +1,135 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+import { crc32 } from "@/lib/png";
+
+// Minimal ZIP writer and reader for generated packages (EPUB books, .storyvoyage bundles)
+
+export type ZipEntry = {
+  // Path inside the archive, with forward slashes
+  name: string;
+  data: Buffer | string;
+  // Keep the entry uncompressed, as EPUB requires for its mimetype file
+  store?: boolean;
+};
+
+// MS-DOS date and time fields, which have two-second precision
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds a ZIP archive with the entries in the given order. Entries are deflated unless
+ * `store` is set or deflating would not make them smaller (e.g. JPEG and PNG images).
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data;
+    const deflated = entry.store ? null : deflateRawSync(data);
+    const compressed = deflated && deflated.length < data.length ? deflated : null;
+    const body = compressed ?? data;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(compressed ? 8 : 0, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+    localParts.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(compressed ? 8 : 0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// Inflates one entry, never past the size its header states
+function inflateEntry(name: string, body: Buffer, size: number): Buffer {
+  try {
+    return inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+  } catch (error) {
+    // zlib throws a RangeError when the output outgrows maxOutputLength
+    if (error instanceof RangeError) throw new Error(`ZIP entry ${name} unpacks to more than its stated size`);
+    throw new Error(`Corrupt ZIP entry ${name}`);
+  }
+}
+
+/**
+ * Reads every file in a ZIP archive (stored or deflated entries only). Refuses archives
+ * that would unpack to more than `maxSize` bytes, so an upload cannot exhaust memory.
+ */
+export function readZip(buffer: Buffer, maxSize: number): Map<string, Buffer> {
+  // The end of central directory record sits at the end, after an optional comment
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a ZIP archive");
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt ZIP directory");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    total += size;
+    if (total > maxSize) throw new Error(`Archive unpacks to more than ${Math.round(maxSize / 1024 / 1024)} MB`);
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt ZIP entry ${name}`);
+    const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const body = buffer.subarray(start, start + compressedSize);
+    if (method === 0) files.set(name, Buffer.from(body));
+    else if (method === 8) files.set(name, inflateEntry(name, body, size));
+    else throw new Error(`Unsupported compression in ZIP entry ${name}`);
+  }
+  return files;
+}
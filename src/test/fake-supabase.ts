@@ -0,0 +1,126 @@
+// An in-memory stand-in for the server Supabase client, covering the query builder calls
+// the server libraries make (select/insert/update with eq, is, in, lt, order and single rows).
+// Tables are plain arrays that tests seed and inspect directly.
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string } | null };
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]> = {};
+  private ids = 0;
+
+  // Runs before every write, e.g. to let another writer change a row in between
+  beforeWrite?: (table: string) => void;
+
+  table(name: string): Row[] {
+    return (this.tables[name] ??= []);
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  newId(): string {
+    return `row-${++this.ids}`;
+  }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: "select" | "insert" | "update" = "select";
+  private rows: Row[] = [];
+  private patch: Row = {};
+  private filters: Array<(row: Row) => boolean> = [];
+  private sorts: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+  private returning = false;
+  private one: "single" | "maybe" | null = null;
+
+  constructor(private db: FakeSupabase, private tableName: string) {}
+
+  select(): this {
+    if (this.action !== "select") this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.action = "insert";
+    this.rows = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.action = "update";
+    this.patch = patch;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: null): this {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  lt(column: string, value: string | number): this {
+    this.filters.push(row => row[column] != null && (row[column] as string | number) < value);
+    return this;
+  }
+
+  order(column: string, { ascending = true, nullsFirst = false }: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+    this.sorts.push({ column, ascending, nullsFirst });
+    return this;
+  }
+
+  single(): this {
+    this.one = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.one = "maybe";
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null,
+  ): Promise<T1 | T2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    const table = this.db.table(this.tableName);
+    let rows: Row[];
+    if (this.action === "insert") {
+      this.db.beforeWrite?.(this.tableName);
+      rows = this.rows.map(row => ({ id: this.db.newId(), created_at: new Date().toISOString(), ...structuredClone(row) }));
+      table.push(...rows);
+    } else {
+      if (this.action === "update") this.db.beforeWrite?.(this.tableName);
+      rows = table.filter(row => this.filters.every(filter => filter(row)));
+      if (this.action === "update") rows.forEach(row => Object.assign(row, structuredClone(this.patch)));
+    }
+
+    for (const { column, ascending, nullsFirst } of [...this.sorts].reverse()) {
+      rows = [...rows].sort((a, b) => {
+        const [x, y] = [a[column], b[column]];
+        if (x == null || y == null) return x == y ? 0 : (x == null) === nullsFirst ? -1 : 1;
+        return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+      });
+    }
+
+    const data = this.action !== "select" && !this.returning ? null : rows.map(row => structuredClone(row));
+    if (!this.one || !data) return { data, error: null };
+    if (data.length > 1 || (this.one === "single" && data.length === 0)) {
+      return { data: null, error: { message: `Expected one row from ${this.tableName}, found ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
@@ -0,0 +1,47 @@
+import { encodePng } from "@/lib/png";
+import type { Book } from "@/lib/supabase";
+import { createZip } from "@/lib/zip";
+
+// Shared test data: small books and images that need no network or database
+
+// A solid-colour PNG
+export function solidPng(width: number, height: number, [r, g, b, a = 255]: number[]): Buffer {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let i = 0; i < rgba.length; i += 4) rgba.set([r, g, b, a], i);
+  return encodePng(width, height, rgba);
+}
+
+export function pngDataUrl(png: Buffer): string {
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+// A saved book; pass images to illustrate pages by index (undefined leaves a page without one)
+export function testBook(images: Array<string | undefined> = [], overrides: Partial<Book> = {}): Book {
+  const pageCount = Math.max(images.length, 3);
+  return {
+    id: "00000000-0000-4000-8000-000000000001",
+    title: "Ava's Day in Lisbon",
+    subtitle: "A tram ride through the hills",
+    city: "Lisbon",
+    dedication: "For Ava, who is always ready to explore.",
+    readingLevel: "middle",
+    narratorPersona: "A friendly world traveler",
+    child: { name: "Ava", age: 7, interests: ["trams", "cats"] },
+    pages: Array.from({ length: pageCount }, (_, i) => ({
+      text: `Page ${i + 1}. Ava rode the yellow tram up the hill & waved at a cat on a balcony.`,
+      prompt: `Ava on a yellow tram in Lisbon, scene ${i + 1}`,
+      altText: `Ava waving from a tram, scene ${i + 1}`,
+      ...(images[i] && { imageUrl: images[i] }),
+    })),
+    glossary: { tram: "A small train that runs along the street" },
+    funFacts: ["Lisbon is built on seven hills."],
+    ...overrides,
+  };
+}
+
+// A deflated archive whose central directory understates how large its entry unpacks to
+export function understatedZip(name = "story.txt"): Buffer {
+  const zip = createZip([{ name, data: "Ava rode the tram. ".repeat(200) }]);
+  zip.writeUInt32LE(10, zip.readUInt32LE(zip.length - 6) + 24);
+  return zip;
+}
@@ -39,3 +39,375 @@ CREATE POLICY "Allow public update access" ON books
 -- Create policy to allow public delete access
 CREATE POLICY "Allow public delete access" ON books
   FOR DELETE USING (true);
+
+-- Character bible: one visual sheet per child, reused by every book and illustration
+CREATE TABLE characters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  child_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  age INTEGER NOT NULL,
+  appearance JSONB NOT NULL,
+  outfit TEXT NOT NULL,
+  companions JSONB DEFAULT '[]'::jsonb,
+  reference_image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_characters_child_name ON characters(child_name, updated_at DESC);
+
+ALTER TABLE books ADD COLUMN character_id UUID REFERENCES characters(id) ON DELETE SET NULL;
+
+ALTER TABLE characters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to characters" ON characters
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Durable generation jobs: one row per build, one task row per unit of work
+CREATE TABLE generation_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  book_id UUID REFERENCES books(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  request JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE generation_tasks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES generation_jobs(id) ON DELETE CASCADE,
+  page_index INTEGER,
+  kind TEXT NOT NULL CHECK (kind IN ('text', 'image', 'alt_text', 'quiz')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_generation_jobs_book_id ON generation_jobs(book_id);
+CREATE INDEX idx_generation_tasks_job_id ON generation_tasks(job_id, status);
+
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to generation jobs" ON generation_jobs
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow public access to generation tasks" ON generation_tasks
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Illustration history: every image made for a page, with how it was made, so the reader
+-- gallery can compare them and pick the active one
+CREATE TABLE page_illustrations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  page_index INTEGER NOT NULL,
+  image_url TEXT NOT NULL,
+  parent_id UUID REFERENCES page_illustrations(id) ON DELETE SET NULL,
+  prompt TEXT,
+  edit_instruction TEXT,
+  style TEXT,
+  model TEXT,
+  seed BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_page_illustrations_page ON page_illustrations(book_id, page_index, created_at);
+
+ALTER TABLE page_illustrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to page illustrations" ON page_illustrations
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Journey books: ordered stops with per-stop facts and glossary; cities lists every stop
+ALTER TABLE books ADD COLUMN journey JSONB;
+ALTER TABLE books ADD COLUMN cities TEXT[] DEFAULT '{}';
+
+UPDATE books SET cities = ARRAY[city] WHERE cities = '{}';
+
+CREATE INDEX idx_books_cities ON books USING GIN (cities);
+
+-- Series: books for the same child read in order as one ongoing saga
+CREATE TABLE series (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  child_name TEXT NOT NULL,
+  narrator_persona TEXT NOT NULL,
+  side_characters JSONB DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_series_child_name ON series(child_name, updated_at DESC);
+
+-- What a sequel needs to remember about each book: a summary and the characters met
+ALTER TABLE books ADD COLUMN recap JSONB;
+ALTER TABLE books ADD COLUMN series_id UUID REFERENCES series(id) ON DELETE SET NULL;
+ALTER TABLE books ADD COLUMN series_position INTEGER;
+
+CREATE UNIQUE INDEX idx_books_series_position ON books(series_id, series_position) WHERE series_id IS NOT NULL;
+
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to series" ON series
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Child profiles: saved once and linked from books; age is computed from the birthday
+CREATE TABLE children (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  birthday DATE NOT NULL,
+  avatar_url TEXT,
+  preferred_style TEXT DEFAULT 'realistic',
+  reading_level TEXT NOT NULL DEFAULT 'middle',
+  interests TEXT[] DEFAULT '{}',
+  reading_level_history JSONB DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- child_name, child_age and child_interests stay on books as a snapshot of when each was written
+ALTER TABLE books ADD COLUMN child_id UUID REFERENCES children(id) ON DELETE SET NULL;
+ALTER TABLE characters ADD COLUMN child_id UUID REFERENCES children(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_books_child_id ON books(child_id, created_at DESC);
+CREATE INDEX idx_characters_child_id ON characters(child_id, updated_at DESC);
+
+ALTER TABLE children ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public access to children" ON children
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Accounts: every row belongs to the signed-in user who created it. owner_id defaults to
+-- auth.uid(), so inserts through the caller's session are owned without the app setting it.
+-- Rows created before accounts have no owner and are hidden until backfilled, e.g.
+--   UPDATE books SET owner_id = '<user id>' WHERE owner_id IS NULL;
+ALTER TABLE books ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE characters ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE generation_jobs ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE series ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE children ADD COLUMN owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_books_owner_id ON books(owner_id, created_at DESC);
+CREATE INDEX idx_characters_owner_id ON characters(owner_id);
+CREATE INDEX idx_generation_jobs_owner_id ON generation_jobs(owner_id);
+CREATE INDEX idx_series_owner_id ON series(owner_id);
+CREATE INDEX idx_children_owner_id ON children(owner_id);
+
+-- Books are private by default; a share token lets anyone with the link read one book
+ALTER TABLE books ADD COLUMN share_token UUID UNIQUE;
+
+DROP POLICY "Allow public read access" ON books;
+DROP POLICY "Allow public insert access" ON books;
+DROP POLICY "Allow public update access" ON books;
+DROP POLICY "Allow public delete access" ON books;
+DROP POLICY "Allow public access to characters" ON characters;
+DROP POLICY "Allow public access to generation jobs" ON generation_jobs;
+DROP POLICY "Allow public access to generation tasks" ON generation_tasks;
+DROP POLICY "Allow public access to page illustrations" ON page_illustrations;
+DROP POLICY "Allow public access to series" ON series;
+DROP POLICY "Allow public access to children" ON children;
+
+CREATE POLICY "Owners manage their books" ON books
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their characters" ON characters
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their generation jobs" ON generation_jobs
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their series" ON series
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners manage their children" ON children
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Tasks and gallery images belong to whoever owns their job or book
+CREATE POLICY "Owners manage their generation tasks" ON generation_tasks
+  FOR ALL USING (EXISTS (SELECT 1 FROM generation_jobs j WHERE j.id = job_id AND j.owner_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM generation_jobs j WHERE j.id = job_id AND j.owner_id = auth.uid()));
+
+CREATE POLICY "Owners manage their page illustrations" ON page_illustrations
+  FOR ALL USING (EXISTS (SELECT 1 FROM books b WHERE b.id = book_id AND b.owner_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM books b WHERE b.id = book_id AND b.owner_id = auth.uid()));
+
+-- Reads a shared book by its token, without exposing any other book to the caller
+CREATE FUNCTION get_shared_book(token UUID) RETURNS SETOF books
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT * FROM books WHERE share_token = token;
+  $$;
+
+GRANT EXECUTE ON FUNCTION get_shared_book(UUID) TO anon, authenticated;
+
+-- Share links: read-only links to one book with an optional expiry and passcode. Tokens
+-- are random and unrelated to the book id; passcodes are stored as bcrypt hashes.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE share_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  passcode_hash TEXT,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  -- Wrong passcodes in a row, and until when the link refuses passcodes because of them
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_share_links_book_id ON share_links(book_id, created_at DESC);
+CREATE INDEX idx_share_links_owner_id ON share_links(owner_id, created_at DESC);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their share links" ON share_links
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Books shared before share links existed keep working, without expiry or passcode
+INSERT INTO share_links (token, book_id, owner_id)
+  SELECT share_token::text, id, owner_id FROM books WHERE share_token IS NOT NULL;
+
+DROP FUNCTION get_shared_book(UUID);
+ALTER TABLE books DROP COLUMN share_token;
+
+-- Runs as the caller, so the owner policies decide which books can be shared
+CREATE FUNCTION create_share_link(link_book_id UUID, link_token TEXT, link_expires_at TIMESTAMP WITH TIME ZONE, link_passcode TEXT)
+  RETURNS SETOF share_links LANGUAGE sql SET search_path = public, extensions AS $$
+    INSERT INTO share_links (token, book_id, expires_at, passcode_hash)
+    VALUES (
+      link_token,
+      link_book_id,
+      link_expires_at,
+      CASE WHEN link_passcode IS NULL THEN NULL ELSE crypt(link_passcode, gen_salt('bf')) END
+    )
+    RETURNING *;
+  $$;
+
+-- Opens a link for anyone holding its token: checks revocation, expiry and passcode, counts
+-- the view and returns the book. status is one of ok, not_found, revoked, expired,
+-- passcode_required, wrong_passcode or locked. After 5 wrong passcodes in a row the link
+-- refuses every passcode for 15 minutes, and again after each further wrong one.
+CREATE FUNCTION open_share_link(link_token TEXT, link_passcode TEXT DEFAULT NULL)
+  RETURNS JSONB LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+  DECLARE
+    link share_links;
+  BEGIN
+    -- Locked so parallel guesses are counted one after another
+    SELECT * INTO link FROM share_links WHERE token = link_token FOR UPDATE;
+    IF NOT FOUND THEN RETURN jsonb_build_object('status', 'not_found'); END IF;
+    IF link.revoked_at IS NOT NULL THEN RETURN jsonb_build_object('status', 'revoked'); END IF;
+    IF link.expires_at IS NOT NULL AND link.expires_at <= NOW() THEN RETURN jsonb_build_object('status', 'expired'); END IF;
+    IF link.passcode_hash IS NOT NULL THEN
+      IF link.locked_until > NOW() THEN
+        RETURN jsonb_build_object('status', 'locked', 'locked_until', link.locked_until);
+      END IF;
+      IF link_passcode IS NULL THEN RETURN jsonb_build_object('status', 'passcode_required'); END IF;
+      IF crypt(link_passcode, link.passcode_hash) <> link.passcode_hash THEN
+        UPDATE share_links SET
+          failed_attempts = failed_attempts + 1,
+          locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '15 minutes' END
+        WHERE id = link.id
+        RETURNING * INTO link;
+        IF link.locked_until IS NOT NULL THEN
+          RETURN jsonb_build_object('status', 'locked', 'locked_until', link.locked_until);
+        END IF;
+        RETURN jsonb_build_object('status', 'wrong_passcode');
+      END IF;
+    END IF;
+
+    UPDATE share_links SET view_count = view_count + 1, last_viewed_at = NOW(), failed_attempts = 0, locked_until = NULL
+    WHERE id = link.id;
+    RETURN jsonb_build_object(
+      'status', 'ok',
+      'book', (SELECT to_jsonb(b) - 'owner_id' FROM books b WHERE b.id = link.book_id)
+    );
+  END;
+  $$;
+
+GRANT EXECUTE ON FUNCTION open_share_link(TEXT, TEXT) TO anon, authenticated;
+
+-- Link previews (Open Graph cards) for open share links: no view is counted, and links
+-- behind a passcode reveal nothing
+CREATE FUNCTION preview_share_link(link_token TEXT) RETURNS SETOF books
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT b.* FROM share_links l JOIN books b ON b.id = l.book_id
+    WHERE l.token = link_token
+      AND l.revoked_at IS NULL
+      AND (l.expires_at IS NULL OR l.expires_at > NOW())
+      AND l.passcode_hash IS NULL;
+  $$;
+
+GRANT EXECUTE ON FUNCTION preview_share_link(TEXT) TO anon, authenticated;
+
+-- Read-aloud audio: the manifest of the page clips and book file in the story-audio bucket
+ALTER TABLE books ADD COLUMN audio JSONB;
+
+-- Offline sync: a book uploaded after being made offline keeps the temp_ id it had on the
+-- device, so an upload retried after a lost response finds the book saved the first time
+ALTER TABLE books ADD COLUMN client_id TEXT;
+CREATE UNIQUE INDEX idx_books_owner_client_id ON books(owner_id, client_id) WHERE client_id IS NOT NULL;
+
+-- Library search: full-text search over the title, subtitle, page text and glossary
+-- (weighted in that order), and a flag for books with at least one illustration
+ALTER TABLE books ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(subtitle, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(jsonb_path_query_array(pages, '$[*].text')::text, '')), 'C') ||
+  setweight(to_tsvector('english', coalesce(glossary::text, '')), 'D')
+) STORED;
+ALTER TABLE books ADD COLUMN has_illustrations BOOLEAN GENERATED ALWAYS AS (
+  coalesce(jsonb_path_exists(pages, '$[*].imageUrl ? (@ != "")'), false)
+) STORED;
+
+CREATE INDEX idx_books_search_vector ON books USING GIN (search_vector);
+CREATE INDEX idx_books_owner_title ON books(owner_id, title);
+
+-- The city filter ignores case, so cities is kept lowercased
+UPDATE books SET cities = ARRAY(SELECT lower(c) FROM unnest(cities) AS c);
+
+-- Collections: shelves the owner fills with books (e.g. "Japan trip", "Bedtime favorites").
+-- A book can sit on any number of shelves, in the order the owner arranges it on each.
+CREATE TABLE collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE collection_books (
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  book_id UUID NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (collection_id, book_id)
+);
+
+CREATE INDEX idx_collections_owner_id ON collections(owner_id, title);
+CREATE INDEX idx_collection_books_position ON collection_books(collection_id, position);
+CREATE INDEX idx_collection_books_book_id ON collection_books(book_id);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_books ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage their collections" ON collections
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Only the owner's own books go on the owner's shelves
+CREATE POLICY "Owners manage their collection books" ON collection_books
+  FOR ALL USING (EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.owner_id = auth.uid()))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM collections c WHERE c.id = collection_id AND c.owner_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM books b WHERE b.id = book_id AND b.owner_id = auth.uid())
+  );